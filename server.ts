@@ -1,12 +1,36 @@
 import express from "express";
 import { createServer as createViteServer } from "vite";
 import path from "path";
+import { tradesRouter } from "./server/routes/trades.ts";
+import { importRouter } from "./server/routes/import.ts";
+import { backupRouter } from "./server/routes/backup.ts";
+import { priceRouter, watchPrice } from "./server/routes/price.ts";
+import { trashRouter } from "./server/routes/trash.ts";
+import { accountsRouter } from "./server/routes/accounts.ts";
+import { fxRatesRouter } from "./server/routes/fxRates.ts";
+import { alertsRouter } from "./server/routes/alerts.ts";
+import { errorHandler } from "./server/http.ts";
 
 async function startServer() {
   const app = express();
   const PORT = 3000;
 
-  app.use(express.json());
+  // Ledger imports can carry years of history
+  app.use(express.json({ limit: "10mb" }));
+
+  // REST API
+  app.use("/api", tradesRouter);
+  app.use("/api", importRouter);
+  app.use("/api", backupRouter);
+  app.use("/api", priceRouter);
+  app.use("/api", trashRouter);
+  app.use("/api", accountsRouter);
+  app.use("/api", fxRatesRouter);
+  app.use("/api", alertsRouter);
+  app.use("/api", (_req, res) => {
+    res.status(404).json({ error: "接口不存在" });
+  });
+  app.use("/api", errorHandler);
 
   // Vite middleware for development
   if (process.env.NODE_ENV !== "production") {
@@ -25,6 +49,7 @@ async function startServer() {
   app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
   });
+  watchPrice(Number(process.env.PRICE_ALERT_SECONDS ?? 60));
 }
 
 startServer();
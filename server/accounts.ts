@@ -0,0 +1,41 @@
+import { db, nextId } from "./db.ts";
+import { HttpError } from "./http.ts";
+import type { Account, AccountInput } from "../src/types.ts";
+
+export function listAccounts(): Account[] {
+  return db.prepare("SELECT * FROM accounts ORDER BY id").all() as Account[];
+}
+
+export function getAccount(id: number): Account {
+  const account = db.prepare("SELECT * FROM accounts WHERE id = ?").get(id) as Account | undefined;
+  if (!account) {
+    throw new HttpError(404, "账户不存在");
+  }
+  return account;
+}
+
+export function createAccount(input: AccountInput): Account {
+  const id = nextId("accounts");
+  db.prepare("INSERT INTO accounts (id, name, platform_id) VALUES (@id, @name, @platform_id)").run({ id, ...input });
+  return getAccount(id);
+}
+
+export function updateAccount(id: number, input: AccountInput): Account {
+  getAccount(id);
+  db.prepare("UPDATE accounts SET name = @name, platform_id = @platform_id WHERE id = @id").run({ id, ...input });
+  return getAccount(id);
+}
+
+// Trades in the trash still count, since restoring them needs their account.
+export const deleteAccount = db.transaction((id: number) => {
+  getAccount(id);
+  const inUse = db.prepare("SELECT 1 FROM trades WHERE account_id = ? LIMIT 1").get(id);
+  if (inUse) {
+    throw new HttpError(400, "该账户下还有交易记录（含回收站），无法删除");
+  }
+  const { count } = db.prepare("SELECT COUNT(*) AS count FROM accounts").get() as { count: number };
+  if (count <= 1) {
+    throw new HttpError(400, "至少需要保留一个账户");
+  }
+  db.prepare("DELETE FROM accounts WHERE id = ?").run(id);
+});
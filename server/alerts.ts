@@ -0,0 +1,103 @@
+import { db, nextId } from "./db.ts";
+import { HttpError } from "./http.ts";
+import { listTrades } from "./ledger.ts";
+import { listFxRates } from "./fxRates.ts";
+import { alertReached, lotAlertDirection } from "../src/alerts.ts";
+import { createFx, DEFAULT_CURRENCY } from "../src/currencies.ts";
+import { unitFactor } from "../src/instruments.ts";
+import { remainingWeight } from "../src/ledger.ts";
+import type { AlertEvent, Instrument, PriceAlert, PriceAlertInput } from "../src/types.ts";
+
+const EPSILON = 0.00001;
+const EVENT_LIST_LIMIT = 100;
+
+export function listPriceAlerts(): PriceAlert[] {
+  return db.prepare("SELECT * FROM price_alerts ORDER BY instrument, price DESC").all() as PriceAlert[];
+}
+
+function getPriceAlert(id: number): PriceAlert {
+  const alert = db.prepare("SELECT * FROM price_alerts WHERE id = ?").get(id) as PriceAlert | undefined;
+  if (!alert) {
+    throw new HttpError(404, "价格提醒不存在");
+  }
+  return alert;
+}
+
+export function createPriceAlert(input: PriceAlertInput): PriceAlert {
+  const id = nextId("price_alerts");
+  db.prepare(
+    `INSERT INTO price_alerts (id, instrument, direction, price, note, created_at)
+     VALUES (@id, @instrument, @direction, @price, @note, @created_at)`
+  ).run({ id, ...input, created_at: new Date().toISOString() });
+  return getPriceAlert(id);
+}
+
+export function rearmPriceAlert(id: number): PriceAlert {
+  getPriceAlert(id);
+  db.prepare("UPDATE price_alerts SET triggered_at = NULL WHERE id = ?").run(id);
+  return getPriceAlert(id);
+}
+
+export function deletePriceAlert(id: number) {
+  const result = db.prepare("DELETE FROM price_alerts WHERE id = ?").run(id);
+  if (result.changes === 0) {
+    throw new HttpError(404, "价格提醒不存在");
+  }
+}
+
+// Fires every armed level of the instrument and every open lot's target or stop that `price`
+// (yuan per base unit) has reached. Levels then stay triggered until re-armed; a lot fires once
+// per level, so moving its target or stop arms it again.
+export const checkAlerts = db.transaction((instrument: Instrument, price: number): AlertEvent[] => {
+  const firedAt = new Date().toISOString();
+  const insertEvent = db.prepare(
+    `INSERT INTO alert_events (kind, alert_id, trade_id, instrument, level, price, fired_at)
+     VALUES (@kind, @alert_id, @trade_id, @instrument, @level, @price, @fired_at)`
+  );
+  const events: AlertEvent[] = [];
+  const fire = (event: Pick<AlertEvent, "kind" | "alert_id" | "trade_id" | "level" | "price">) => {
+    const row = { ...event, instrument, fired_at: firedAt };
+    events.push({ id: Number(insertEvent.run(row).lastInsertRowid), ...row, seen_at: null });
+  };
+
+  const armed = db.prepare("SELECT * FROM price_alerts WHERE instrument = ? AND triggered_at IS NULL").all(instrument) as PriceAlert[];
+  armed
+    .filter(a => alertReached(a.direction, price, a.price))
+    .forEach(a => {
+      db.prepare("UPDATE price_alerts SET triggered_at = ? WHERE id = ?").run(firedAt, a.id);
+      fire({ kind: a.direction, alert_id: a.id, trade_id: null, level: a.price, price });
+    });
+
+  // Lot levels are in the lot's unit and currency
+  const fx = createFx(listFxRates(), DEFAULT_CURRENCY);
+  const hasFired = db.prepare("SELECT 1 FROM alert_events WHERE trade_id = ? AND kind = ? AND level = ?");
+  listTrades()
+    .filter(t => t.instrument === instrument && remainingWeight(t) > EPSILON)
+    .forEach(t => {
+      const lotPrice = fx.convert(price, DEFAULT_CURRENCY, t.currency, firedAt) * unitFactor(t.unit);
+      (["target", "stop"] as const).forEach(kind => {
+        const level = kind === "target" ? t.target_price : t.stop_price;
+        if (level === null || !alertReached(lotAlertDirection(kind), lotPrice, level) || hasFired.get(t.id, kind, level)) return;
+        fire({ kind, alert_id: null, trade_id: t.id, level, price: lotPrice });
+      });
+    });
+
+  return events;
+});
+
+export function listAlertEvents(unseenOnly: boolean): AlertEvent[] {
+  return db
+    .prepare(`SELECT * FROM alert_events ${unseenOnly ? "WHERE seen_at IS NULL" : ""} ORDER BY id DESC LIMIT ?`)
+    .all(EVENT_LIST_LIMIT) as AlertEvent[];
+}
+
+// Every fired event, oldest first. Lots fire once per level, so backups need the whole log.
+export function listAllAlertEvents(): AlertEvent[] {
+  return db.prepare("SELECT * FROM alert_events ORDER BY id").all() as AlertEvent[];
+}
+
+export const markAlertEventsSeen = db.transaction((ids: number[]) => {
+  const seenAt = new Date().toISOString();
+  const update = db.prepare("UPDATE alert_events SET seen_at = ? WHERE id = ? AND seen_at IS NULL");
+  ids.forEach(id => update.run(seenAt, id));
+});
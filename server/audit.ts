@@ -0,0 +1,53 @@
+import { db } from "./db.ts";
+import type { AuditEntry } from "../src/types.ts";
+
+type AuditRow = Omit<AuditEntry, "old_value" | "new_value"> & { old_value: string | null; new_value: string | null };
+
+// Appends one entry per field whose value differs between `before` and `after`.
+// Values are stored as JSON so numbers and text come back with their original types.
+export function recordChanges<T extends object>(
+  recordType: AuditEntry["record_type"],
+  recordId: number,
+  tradeId: number,
+  before: T,
+  after: T,
+  fields: (keyof T & string)[]
+) {
+  const insert = db.prepare(
+    `INSERT INTO audit_log (trade_id, record_type, record_id, field, old_value, new_value, changed_at)
+     VALUES (@trade_id, @record_type, @record_id, @field, @old_value, @new_value, @changed_at)`
+  );
+  const changedAt = new Date().toISOString();
+  fields.forEach(field => {
+    const oldValue = JSON.stringify(before[field] ?? null);
+    const newValue = JSON.stringify(after[field] ?? null);
+    if (oldValue === newValue) return;
+    insert.run({
+      trade_id: tradeId,
+      record_type: recordType,
+      record_id: recordId,
+      field,
+      old_value: oldValue,
+      new_value: newValue,
+      changed_at: changedAt,
+    });
+  });
+}
+
+// History outlives a trade's trip through the trash and back (undo re-imports it under the
+// same id), so entries are only dropped once their trade is gone for good.
+export function pruneAuditLog() {
+  db.prepare("DELETE FROM audit_log WHERE trade_id NOT IN (SELECT id FROM trades)").run();
+}
+
+// Edits of a trade and all of its sells, newest first.
+export function listTradeHistory(tradeId: number): AuditEntry[] {
+  const rows = db
+    .prepare("SELECT * FROM audit_log WHERE trade_id = ? ORDER BY changed_at DESC, id DESC")
+    .all(tradeId) as AuditRow[];
+  return rows.map(row => ({
+    ...row,
+    old_value: row.old_value === null ? null : JSON.parse(row.old_value),
+    new_value: row.new_value === null ? null : JSON.parse(row.new_value),
+  }));
+}
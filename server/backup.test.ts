@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { checkAlerts, createPriceAlert, listAlertEvents, listPriceAlerts } from "./alerts.ts";
+import { checksum, createBackup, migrateBackup, restoreBackup } from "./backup.ts";
+import { listTrades } from "./ledger.ts";
+import { BACKUP_SCHEMA_VERSION } from "../src/types.ts";
+
+const envelope = (schemaVersion: number, data: unknown) =>
+  ({ app: "gold-trade-tool", schemaVersion, exportedAt: "2026-01-01T00:00:00.000Z", checksum: checksum(data), data });
+
+// A v1 trade: one sell stored inline on the trade
+const v1Trade = {
+  id: 1,
+  buy_price: 400,
+  quantity: 10,
+  buy_date: "2025-01-01T10:00",
+  notes: null,
+  sell_price: 450,
+  sell_quantity: 4,
+  sell_date: "2025-02-01T10:00",
+  fee: 2,
+};
+
+const status = (run: () => unknown) => {
+  try {
+    run();
+  } catch (e) {
+    return (e as { status?: number }).status;
+  }
+  return undefined;
+};
+
+describe("migrateBackup", () => {
+  it("upgrades a v1 backup to the current shape", () => {
+    const { fromVersion, accounts, fxRates, trades } = migrateBackup([v1Trade]);
+    expect(fromVersion).toBe(1);
+    expect(accounts).toEqual([{ id: 1, name: "默认账户", platform_id: null }]);
+    expect(fxRates).toEqual([]);
+    expect(trades).toEqual([{
+      id: 1,
+      buy_price: 400,
+      quantity: 10,
+      buy_date: "2025-01-01T10:00",
+      notes: null,
+      buy_fee: 0,
+      spread: 0,
+      premium: 0,
+      account_id: 1,
+      instrument: "Au",
+      unit: "g",
+      currency: "CNY",
+      target_price: null,
+      stop_price: null,
+      tags: [],
+      sells: [{
+        id: 1.5,
+        trade_id: 1,
+        sell_price: 450,
+        quantity: 4,
+        sell_date: "2025-02-01T10:00",
+        fee: 2,
+        notes: null,
+        currency: "CNY",
+        tags: [],
+      }],
+    }]);
+  });
+
+  it("keeps values a later version already has", () => {
+    const trade = { ...v1Trade, sells: [{ id: 2, sell_price: 1, currency: "USD", tags: ["短线"] }], currency: "USD", tags: ["定投"] };
+    const { trades } = migrateBackup(envelope(6, { accounts: [], trades: [trade] }));
+    expect(trades).toMatchObject([{ currency: "USD", tags: ["定投"], sells: [{ currency: "USD", tags: ["短线"] }] }]);
+  });
+
+  it("leaves a current backup as it is", () => {
+    const data = {
+      accounts: [{ id: 1, name: "默认账户", platform_id: null }],
+      fx_rates: [],
+      price_alerts: [],
+      alert_events: [],
+      trades: [{ id: 1, sells: [] }],
+    };
+    expect(migrateBackup(envelope(BACKUP_SCHEMA_VERSION, data)).trades).toEqual(data.trades);
+  });
+
+  it("rejects a backup whose checksum doesn't match", () => {
+    expect(status(() => migrateBackup({ ...envelope(3, { trades: [] }), checksum: "0" }))).toBe(400);
+  });
+
+  it("rejects a backup from a newer version", () => {
+    expect(status(() => migrateBackup(envelope(BACKUP_SCHEMA_VERSION + 1, {})))).toBe(400);
+  });
+
+  it.each([
+    ["a null trade", [null]],
+    ["a non-array trades field", envelope(4, { trades: 3 })],
+    ["a trade without sells", envelope(6, { accounts: [], trades: [{ id: 1 }] })],
+    ["a trade with null sells", envelope(8, { accounts: [], fx_rates: [], trades: [{ id: 1, sells: null }] })],
+  ])("rejects %s with a 400", (_label, file) => {
+    expect(status(() => migrateBackup(file))).toBe(400);
+  });
+});
+
+describe("restoreBackup", () => {
+  it("restores a migrated backup and round-trips it", () => {
+    const result = restoreBackup([v1Trade], "replace", false);
+    expect(result.imported).toEqual({ trades: 1, sells: 1 });
+    expect(listTrades()).toMatchObject([{ id: 1, quantity: 10, tags: [], sells: [{ quantity: 4, fee: 2 }] }]);
+
+    const backup = createBackup();
+    expect(backup.schemaVersion).toBe(BACKUP_SCHEMA_VERSION);
+    expect(restoreBackup(backup, "replace", true)).toMatchObject({ dryRun: true, imported: { trades: 1, sells: 1 } });
+  });
+
+  it("carries price alerts and fired events, and clears them on replace", () => {
+    restoreBackup([v1Trade], "replace", false);
+    const alert = createPriceAlert({ instrument: "Au", direction: "above", price: 500, note: null });
+    checkAlerts("Au", 600);
+    const backup = createBackup();
+
+    restoreBackup([v1Trade], "replace", false);
+    expect(listPriceAlerts()).toEqual([]);
+    expect(listAlertEvents(false)).toEqual([]);
+
+    restoreBackup(backup, "replace", false);
+    expect(listPriceAlerts()).toMatchObject([{ id: alert.id, triggered_at: expect.any(String) }]);
+    expect(listAlertEvents(false)).toMatchObject([{ kind: "above", alert_id: alert.id }]);
+
+    restoreBackup(backup, "merge", false);
+    expect(listAlertEvents(false)).toHaveLength(1);
+  });
+
+  it("changes nothing on a dry run", () => {
+    restoreBackup([v1Trade], "replace", false);
+    restoreBackup([{ ...v1Trade, id: 2 }], "merge", true);
+    expect(listTrades().map(t => t.id)).toEqual([1]);
+  });
+});
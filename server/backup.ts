@@ -0,0 +1,315 @@
+import crypto from "crypto";
+import { db } from "./db.ts";
+import { HttpError, isRecord } from "./http.ts";
+import { pruneAuditLog } from "./audit.ts";
+import { importLedger } from "./import.ts";
+import { listTrades } from "./ledger.ts";
+import { listAccounts } from "./accounts.ts";
+import { listFxRates } from "./fxRates.ts";
+import { listAllAlertEvents, listPriceAlerts } from "./alerts.ts";
+import { ALERT_KIND_LABELS } from "../src/alerts.ts";
+import { isCurrency } from "../src/currencies.ts";
+import { isInstrument } from "../src/instruments.ts";
+import {
+  BACKUP_SCHEMA_VERSION,
+  DEFAULT_ACCOUNT_ID,
+  type Account,
+  type AlertEvent,
+  type BackupFile,
+  type FxRate,
+  type PriceAlert,
+  type RestoreMode,
+  type RestoreResult,
+} from "../src/types.ts";
+
+// Backup history:
+//   v1 - bare array of trades, each with at most one sell stored inline
+//        (sell_price / sell_date / fee on the trade itself)
+//   v2 - bare array of trades with nested `sells` (the `gold_trades_v2` localStorage blob)
+//   v3 - versioned envelope with a checksum, `data.trades` in the v2 shape
+//   v4 - trades carry buy_fee / spread / premium
+//   v5 - `data.accounts`; trades carry account_id
+//   v6 - trades carry instrument / unit
+//   v7 - `data.fx_rates`; trades and sells carry currency
+//   v8 - trades carry target_price / stop_price
+//   v9 - trades and sells carry tags
+//   v10 - `data.price_alerts` and `data.alert_events`, so lots that already fired stay quiet
+type Migration = (data: unknown) => unknown;
+
+// Migrations run before the restore validates anything, so each checks the shape it rewrites
+function records(value: unknown, label: string): Record<string, unknown>[] {
+  if (!Array.isArray(value) || !value.every(isRecord)) {
+    throw new HttpError(400, `备份文件中的${label}无效`);
+  }
+  return value;
+}
+
+function splitTrades(data: unknown) {
+  if (!isRecord(data)) throw new HttpError(400, "无法识别的备份文件格式");
+  const { trades, ...rest } = data;
+  return { rest, trades: records(trades, "买入记录") };
+}
+
+const sellsOf = (trade: Record<string, unknown>) => records(trade.sells, "卖出记录");
+
+const migrations: Record<number, Migration> = {
+  1: data => records(data, "买入记录").map(trade => {
+    const { sell_price, sell_date, fee, sell_quantity, ...rest } = trade;
+    const sells = sell_price !== undefined && sell_price !== null ? [{
+      id: Number(trade.id) + 0.5,
+      trade_id: trade.id,
+      sell_price,
+      quantity: sell_quantity ?? trade.quantity,
+      sell_date,
+      fee: fee ?? 0,
+      notes: null,
+    }] : [];
+    return { ...rest, sells };
+  }),
+  2: data => ({ trades: data }),
+  3: data => {
+    const { trades, rest } = splitTrades(data);
+    return {
+      ...rest,
+      trades: trades.map(trade => ({ buy_fee: 0, spread: 0, premium: 0, ...trade })),
+    };
+  },
+  4: data => {
+    const { trades, rest } = splitTrades(data);
+    return {
+      ...rest,
+      accounts: [{ id: DEFAULT_ACCOUNT_ID, name: "默认账户", platform_id: null }],
+      trades: trades.map(trade => ({ account_id: DEFAULT_ACCOUNT_ID, ...trade })),
+    };
+  },
+  5: data => {
+    const { trades, rest } = splitTrades(data);
+    return {
+      ...rest,
+      trades: trades.map(trade => ({ instrument: "Au", unit: "g", ...trade })),
+    };
+  },
+  6: data => {
+    const { trades, rest } = splitTrades(data);
+    return {
+      ...rest,
+      fx_rates: [],
+      trades: trades.map(trade => ({
+        currency: "CNY",
+        ...trade,
+        sells: sellsOf(trade).map(sell => ({ currency: "CNY", ...sell })),
+      })),
+    };
+  },
+  7: data => {
+    const { trades, rest } = splitTrades(data);
+    return {
+      ...rest,
+      trades: trades.map(trade => ({ target_price: null, stop_price: null, ...trade })),
+    };
+  },
+  8: data => {
+    const { trades, rest } = splitTrades(data);
+    return {
+      ...rest,
+      trades: trades.map(trade => ({
+        tags: [],
+        ...trade,
+        sells: sellsOf(trade).map(sell => ({ tags: [], ...sell })),
+      })),
+    };
+  },
+  9: data => {
+    const { trades, rest } = splitTrades(data);
+    return { ...rest, price_alerts: [], alert_events: [], trades };
+  },
+};
+
+export function checksum(data: unknown): string {
+  return crypto.createHash("sha256").update(JSON.stringify(data)).digest("hex");
+}
+
+export function createBackup(): BackupFile {
+  const data = {
+    accounts: listAccounts(),
+    fx_rates: listFxRates(),
+    price_alerts: listPriceAlerts(),
+    alert_events: listAllAlertEvents(),
+    trades: listTrades(),
+  };
+  return {
+    app: "gold-trade-tool",
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    checksum: checksum(data),
+    data,
+  };
+}
+
+function detectVersion(file: unknown): { version: number; data: unknown } {
+  if (Array.isArray(file)) {
+    const nested = file.every(t => Array.isArray((t as { sells?: unknown })?.sells));
+    return { version: nested ? 2 : 1, data: file };
+  }
+  const envelope = file as Partial<BackupFile> | null;
+  if (!envelope || typeof envelope.schemaVersion !== "number" || envelope.data === undefined) {
+    throw new HttpError(400, "无法识别的备份文件格式");
+  }
+  if (envelope.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new HttpError(400, `备份文件版本 v${envelope.schemaVersion} 高于当前支持的 v${BACKUP_SCHEMA_VERSION}，请先升级应用`);
+  }
+  if (envelope.checksum !== checksum(envelope.data)) {
+    throw new HttpError(400, "校验和不匹配，备份文件可能已损坏或被修改");
+  }
+  return { version: envelope.schemaVersion, data: envelope.data };
+}
+
+type Restore = {
+  fromVersion: number;
+  accounts: Account[];
+  fxRates: FxRate[];
+  priceAlerts: PriceAlert[];
+  alertEvents: Omit<AlertEvent, "id">[];
+  trades: unknown[];
+};
+
+const isAlertKind = (kind: unknown): kind is AlertEvent["kind"] =>
+  typeof kind === "string" && Object.hasOwn(ALERT_KIND_LABELS, kind);
+
+const nullableId = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+// Upgrades any supported backup to the current `data` shape by running each migration in order.
+export function migrateBackup(file: unknown): Restore {
+  const { version, data } = detectVersion(file);
+  let current = data;
+  for (let v = version; v < BACKUP_SCHEMA_VERSION; v++) {
+    current = migrations[v](current);
+  }
+  const { accounts, fx_rates, price_alerts, alert_events, trades } = current as {
+    accounts?: unknown;
+    fx_rates?: unknown;
+    price_alerts?: unknown;
+    alert_events?: unknown;
+    trades?: unknown;
+  };
+  if (!Array.isArray(trades)) {
+    throw new HttpError(400, "备份文件缺少 trades 数组");
+  }
+  if (!Array.isArray(accounts) || accounts.some(a => !Number.isFinite(Number(a?.id)) || typeof a?.name !== "string")) {
+    throw new HttpError(400, "备份文件中的账户列表无效");
+  }
+  if (
+    !Array.isArray(fx_rates) ||
+    fx_rates.some(r => !isCurrency(r?.currency) || typeof r?.date !== "string" || !(Number(r?.rate) > 0))
+  ) {
+    throw new HttpError(400, "备份文件中的汇率表无效");
+  }
+  if (
+    !Array.isArray(price_alerts) ||
+    price_alerts.some(a =>
+      !Number.isFinite(Number(a?.id)) || !isInstrument(a?.instrument) || (a?.direction !== "above" && a?.direction !== "below") ||
+      !(Number(a?.price) > 0) || typeof a?.created_at !== "string"
+    )
+  ) {
+    throw new HttpError(400, "备份文件中的价格提醒无效");
+  }
+  if (
+    !Array.isArray(alert_events) ||
+    alert_events.some(e =>
+      !isAlertKind(e?.kind) || !isInstrument(e?.instrument) || !Number.isFinite(Number(e?.level)) ||
+      !Number.isFinite(Number(e?.price)) || typeof e?.fired_at !== "string"
+    )
+  ) {
+    throw new HttpError(400, "备份文件中的提醒记录无效");
+  }
+  return {
+    fromVersion: version,
+    accounts: accounts.map(a => ({ id: Number(a.id), name: a.name, platform_id: a.platform_id ?? null })),
+    fxRates: fx_rates.map(r => ({ currency: r.currency, date: r.date, rate: Number(r.rate) })),
+    priceAlerts: price_alerts.map(a => ({
+      id: Number(a.id),
+      instrument: a.instrument,
+      direction: a.direction,
+      price: Number(a.price),
+      note: a.note ?? null,
+      created_at: a.created_at,
+      triggered_at: a.triggered_at ?? null,
+    })),
+    alertEvents: alert_events.map(e => ({
+      kind: e.kind,
+      alert_id: nullableId(e.alert_id),
+      trade_id: nullableId(e.trade_id),
+      instrument: e.instrument,
+      level: Number(e.level),
+      price: Number(e.price),
+      fired_at: e.fired_at,
+      seen_at: e.seen_at ?? null,
+    })),
+    trades,
+  };
+}
+
+class DryRunRollback extends Error {
+  constructor(public result: RestoreResult) {
+    super("dry run");
+  }
+}
+
+// Accounts go in before the trades that point at them. On merge an account, exchange rate or
+// price alert that already exists is kept as it is, and an event already in the log is not
+// added twice. Events get new ids; nothing refers to them.
+const applyRestore = db.transaction((restore: Restore, mode: RestoreMode, dryRun: boolean) => {
+  const { fromVersion, accounts, fxRates, priceAlerts, alertEvents, trades } = restore;
+  if (mode === "replace") {
+    db.exec(`
+      DELETE FROM sells; DELETE FROM trades; DELETE FROM accounts; DELETE FROM fx_rates;
+      DELETE FROM alert_events; DELETE FROM price_alerts;
+    `);
+  }
+  const insertAccount = db.prepare("INSERT OR IGNORE INTO accounts (id, name, platform_id) VALUES (@id, @name, @platform_id)");
+  accounts.forEach(account => insertAccount.run(account));
+  const insertFxRate = db.prepare("INSERT OR IGNORE INTO fx_rates (currency, date, rate) VALUES (@currency, @date, @rate)");
+  fxRates.forEach(rate => insertFxRate.run(rate));
+  const insertPriceAlert = db.prepare(
+    `INSERT OR IGNORE INTO price_alerts (id, instrument, direction, price, note, created_at, triggered_at)
+     VALUES (@id, @instrument, @direction, @price, @note, @created_at, @triggered_at)`
+  );
+  priceAlerts.forEach(alert => insertPriceAlert.run(alert));
+  const insertAlertEvent = db.prepare(
+    `INSERT INTO alert_events (kind, alert_id, trade_id, instrument, level, price, fired_at, seen_at)
+     SELECT @kind, @alert_id, @trade_id, @instrument, @level, @price, @fired_at, @seen_at
+     WHERE NOT EXISTS (
+       SELECT 1 FROM alert_events
+       WHERE kind = @kind AND alert_id IS @alert_id AND trade_id IS @trade_id AND level = @level AND fired_at = @fired_at
+     )`
+  );
+  alertEvents.forEach(event => insertAlertEvent.run(event));
+  const report = importLedger(trades);
+  if (mode === "replace") {
+    pruneAuditLog();
+  }
+  if (report.rejected.length > 0 && !dryRun) {
+    const details = report.rejected
+      .slice(0, 5)
+      .map(r => `${r.kind === "trade" ? "买入" : "卖出"} #${String(r.id)}: ${r.reason}`)
+      .join("；");
+    throw new HttpError(400, `备份中有 ${report.rejected.length} 条无效记录，未做任何修改。${details}`);
+  }
+  const result: RestoreResult = { ...report, fromVersion, dryRun };
+  if (dryRun) {
+    throw new DryRunRollback(result);
+  }
+  return result;
+});
+
+// Restores all records or nothing. A dry run performs the same migration and validation
+// inside a transaction that is always rolled back, so the UI can preview the outcome.
+export function restoreBackup(file: unknown, mode: RestoreMode, dryRun: boolean): RestoreResult {
+  const restore = migrateBackup(file);
+  try {
+    return applyRestore(restore, mode, dryRun);
+  } catch (e) {
+    if (e instanceof DryRunRollback) return e.result;
+    throw e;
+  }
+}
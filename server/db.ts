@@ -0,0 +1,152 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+
+const DB_PATH = process.env.DB_PATH || path.join(process.cwd(), "data", "gold.db");
+
+// Schema migrations, applied in order and tracked through PRAGMA user_version.
+// Never edit an entry that has shipped; append a new one instead.
+const migrations: string[] = [
+  `
+  CREATE TABLE trades (
+    id INTEGER PRIMARY KEY,
+    buy_price REAL NOT NULL,
+    quantity REAL NOT NULL,
+    buy_date TEXT NOT NULL,
+    notes TEXT
+  );
+
+  CREATE TABLE sells (
+    id REAL PRIMARY KEY NOT NULL,
+    trade_id INTEGER NOT NULL REFERENCES trades(id) ON DELETE CASCADE,
+    sell_price REAL NOT NULL,
+    quantity REAL NOT NULL,
+    sell_date TEXT NOT NULL,
+    fee REAL NOT NULL DEFAULT 0,
+    notes TEXT,
+    batch_id TEXT
+  );
+
+  CREATE INDEX idx_sells_trade_id ON sells(trade_id);
+  CREATE INDEX idx_sells_batch_id ON sells(batch_id);
+  `,
+  `
+  CREATE TABLE prices (
+    quoted_at TEXT PRIMARY KEY,
+    price REAL NOT NULL,
+    source TEXT NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE trades ADD COLUMN buy_fee REAL NOT NULL DEFAULT 0;
+  ALTER TABLE trades ADD COLUMN spread REAL NOT NULL DEFAULT 0;
+  ALTER TABLE trades ADD COLUMN premium REAL NOT NULL DEFAULT 0;
+  `,
+  `
+  ALTER TABLE trades ADD COLUMN deleted_at TEXT;
+  ALTER TABLE sells ADD COLUMN deleted_at TEXT;
+  CREATE INDEX idx_trades_deleted_at ON trades(deleted_at);
+  CREATE INDEX idx_sells_deleted_at ON sells(deleted_at);
+  `,
+  `
+  CREATE TABLE audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    trade_id INTEGER NOT NULL,
+    record_type TEXT NOT NULL,
+    record_id REAL NOT NULL,
+    field TEXT NOT NULL,
+    old_value TEXT,
+    new_value TEXT,
+    changed_at TEXT NOT NULL
+  );
+
+  CREATE INDEX idx_audit_log_trade_id ON audit_log(trade_id);
+  `,
+  `
+  CREATE TABLE accounts (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    platform_id TEXT
+  );
+
+  INSERT INTO accounts (id, name) VALUES (1, '默认账户');
+
+  ALTER TABLE trades ADD COLUMN account_id INTEGER NOT NULL DEFAULT 1;
+  CREATE INDEX idx_trades_account_id ON trades(account_id);
+  `,
+  `
+  ALTER TABLE trades ADD COLUMN instrument TEXT NOT NULL DEFAULT 'Au';
+  ALTER TABLE trades ADD COLUMN unit TEXT NOT NULL DEFAULT 'g';
+  `,
+  `
+  ALTER TABLE trades ADD COLUMN currency TEXT NOT NULL DEFAULT 'CNY';
+  ALTER TABLE sells ADD COLUMN currency TEXT NOT NULL DEFAULT 'CNY';
+
+  CREATE TABLE fx_rates (
+    currency TEXT NOT NULL,
+    date TEXT NOT NULL,
+    rate REAL NOT NULL,
+    PRIMARY KEY (currency, date)
+  );
+  `,
+  `
+  ALTER TABLE trades ADD COLUMN target_price REAL;
+  ALTER TABLE trades ADD COLUMN stop_price REAL;
+
+  CREATE TABLE price_alerts (
+    id INTEGER PRIMARY KEY,
+    instrument TEXT NOT NULL,
+    direction TEXT NOT NULL,
+    price REAL NOT NULL,
+    note TEXT,
+    created_at TEXT NOT NULL,
+    triggered_at TEXT
+  );
+
+  CREATE TABLE alert_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL,
+    alert_id INTEGER,
+    trade_id INTEGER,
+    instrument TEXT NOT NULL,
+    level REAL NOT NULL,
+    price REAL NOT NULL,
+    fired_at TEXT NOT NULL,
+    seen_at TEXT
+  );
+
+  CREATE INDEX idx_alert_events_trade_id ON alert_events(trade_id);
+  `,
+  `
+  ALTER TABLE trades ADD COLUMN tags TEXT NOT NULL DEFAULT '[]';
+  ALTER TABLE sells ADD COLUMN tags TEXT NOT NULL DEFAULT '[]';
+  `,
+  `
+  UPDATE OR REPLACE prices SET quoted_at = strftime('%Y-%m-%dT%H:%M:%S', quoted_at, 'localtime')
+  WHERE quoted_at LIKE '%Z';
+  `,
+];
+
+function migrate(db: Database.Database) {
+  const current = db.pragma("user_version", { simple: true }) as number;
+  for (let version = current; version < migrations.length; version++) {
+    db.transaction(() => {
+      db.exec(migrations[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+}
+
+fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+
+export const db = new Database(DB_PATH);
+db.pragma("journal_mode = WAL");
+db.pragma("foreign_keys = ON");
+migrate(db);
+
+// Ids stay timestamp-based like the ones the browser used to generate, but are
+// guaranteed to be unique within the table.
+export function nextId(table: "trades" | "sells" | "accounts" | "price_alerts"): number {
+  const row = db.prepare(`SELECT MAX(id) AS maxId FROM ${table}`).get() as { maxId: number | null };
+  return Math.max(Date.now(), Math.floor(row.maxId ?? 0) + 1);
+}
@@ -0,0 +1,21 @@
+import { db } from "./db.ts";
+import { HttpError } from "./http.ts";
+import type { Currency, FxRate } from "../src/types.ts";
+
+export function listFxRates(): FxRate[] {
+  return db.prepare("SELECT currency, date, rate FROM fx_rates ORDER BY currency, date").all() as FxRate[];
+}
+
+// A rate for a currency and day that is already stored is overwritten.
+export const saveFxRates = db.transaction((rates: FxRate[]): number => {
+  const insert = db.prepare("INSERT OR REPLACE INTO fx_rates (currency, date, rate) VALUES (@currency, @date, @rate)");
+  rates.forEach(r => insert.run(r));
+  return rates.length;
+});
+
+export function deleteFxRate(currency: Currency, date: string) {
+  const result = db.prepare("DELETE FROM fx_rates WHERE currency = ? AND date = ?").run(currency, date);
+  if (result.changes === 0) {
+    throw new HttpError(404, "汇率记录不存在");
+  }
+}
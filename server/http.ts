@@ -0,0 +1,104 @@
+import type { ErrorRequestHandler } from "express";
+import { MAX_TAG_LENGTH, normalizeTags } from "../src/tags.ts";
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+  if (err instanceof HttpError) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+  console.error(err);
+  res.status(500).json({ error: "服务器内部错误" });
+};
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function parseId(value: string): number {
+  const id = Number(value);
+  if (!Number.isFinite(id)) {
+    throw new HttpError(400, "无效的记录 ID");
+  }
+  return id;
+}
+
+export function optionalId(body: Record<string, unknown>, field: string): number | undefined {
+  const value = body[field];
+  if (value === undefined || value === null || value === "") return undefined;
+  const id = Number(value);
+  if (!Number.isFinite(id)) {
+    throw new HttpError(400, `字段 ${field} 无效`);
+  }
+  return id;
+}
+
+export function requireNumber(body: Record<string, unknown>, field: string, { min = 0, allowZero = false } = {}): number {
+  const value = Number(body[field]);
+  if (!Number.isFinite(value) || value < min || (!allowZero && value === 0)) {
+    throw new HttpError(400, `字段 ${field} 无效`);
+  }
+  return value;
+}
+
+// Like requireNumber(..., { allowZero: true }) but a missing field counts as 0.
+export function optionalNumber(body: Record<string, unknown>, field: string): number {
+  const value = body[field];
+  if (value === undefined || value === null || value === "") return 0;
+  return requireNumber(body, field, { allowZero: true });
+}
+
+// A missing field falls back to `fallback`; anything else must pass `isValid`.
+export function optionalChoice<T extends string>(
+  body: Record<string, unknown>,
+  field: string,
+  isValid: (value: unknown) => value is T,
+  fallback: T
+): T {
+  const value = body[field];
+  if (value === undefined || value === null || value === "") return fallback;
+  if (!isValid(value)) {
+    throw new HttpError(400, `字段 ${field} 无效`);
+  }
+  return value;
+}
+
+// A missing field is null; anything else must be a positive number.
+export function nullableNumber(body: Record<string, unknown>, field: string): number | null {
+  const value = body[field];
+  if (value === undefined || value === null || value === "") return null;
+  return requireNumber(body, field);
+}
+
+// A missing field is no tags; otherwise an array of short strings, trimmed and deduplicated.
+export function optionalTags(body: Record<string, unknown>, field: string): string[] {
+  const value = body[field];
+  if (value === undefined || value === null || value === "") return [];
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== "string" || tag.trim().length > MAX_TAG_LENGTH)) {
+    throw new HttpError(400, `字段 ${field} 无效`);
+  }
+  return normalizeTags(value);
+}
+
+export function requireDate(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== "string" || Number.isNaN(new Date(value).getTime())) {
+    throw new HttpError(400, `字段 ${field} 不是有效日期`);
+  }
+  return value;
+}
+
+export function optionalText(body: Record<string, unknown>, field: string): string | null {
+  const value = body[field];
+  if (value === undefined || value === null || value === "") return null;
+  if (typeof value !== "string") {
+    throw new HttpError(400, `字段 ${field} 必须是文本`);
+  }
+  return value;
+}
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { importLedger } from "./import.ts";
+import { createSell, createTrade, deleteSell, deleteTrade, getTrade } from "./ledger.ts";
+import { listTrash } from "./trash.ts";
+import type { SellInput, TradeInput } from "../src/types.ts";
+
+const tradeInput: TradeInput = {
+  account_id: 1,
+  instrument: "Au",
+  unit: "g",
+  currency: "CNY",
+  buy_price: 400,
+  quantity: 10,
+  buy_date: "2026-01-01T10:00",
+  buy_fee: 0,
+  spread: 0,
+  premium: 0,
+  target_price: null,
+  stop_price: null,
+  notes: null,
+  tags: [],
+};
+
+const sellInput: SellInput = { sell_price: 450, quantity: 2, sell_date: "2026-02-01T10:00", fee: 0, notes: null, tags: [] };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("importLedger", () => {
+  it("brings a trashed trade back without destroying sells trashed on their own", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-01T10:00:00Z"));
+    const { id } = createTrade(tradeInput);
+    createSell(id, sellInput);
+    const [kept, alone] = createSell(id, sellInput).sells;
+    deleteSell(id, alone.id);
+    vi.setSystemTime(new Date("2026-03-02T10:00:00Z"));
+    const trade = getTrade(id);
+    deleteTrade(id);
+
+    const report = importLedger([{ ...trade, notes: "恢复" }]);
+    expect(report.imported).toEqual({ trades: 1, sells: 1 });
+    expect(getTrade(id)).toMatchObject({ notes: "恢复", sells: [{ id: kept.id }] });
+    expect(listTrash().sells.map(s => s.id)).toEqual([alone.id]);
+  });
+});
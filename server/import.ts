@@ -0,0 +1,176 @@
+import { db } from "./db.ts";
+import {
+  HttpError,
+  isRecord,
+  nullableNumber,
+  optionalChoice,
+  optionalId,
+  optionalNumber,
+  optionalTags,
+  optionalText,
+  requireDate,
+  requireNumber,
+} from "./http.ts";
+import { createSell, createTrade, encodeTags } from "./ledger.ts";
+import { baseUnit, DEFAULT_INSTRUMENT, isInstrument, isUnitOf } from "../src/instruments.ts";
+import { DEFAULT_CURRENCY, isCurrency } from "../src/currencies.ts";
+import { DEFAULT_ACCOUNT_ID, type Currency, type CsvImportRow, type ImportReport, type WeightUnit } from "../src/types.ts";
+
+const EPSILON = 0.00001;
+
+function requireRecordId(record: Record<string, unknown>): number {
+  const id = Number(record.id);
+  if (record.id === undefined || record.id === null || !Number.isFinite(id)) {
+    throw new HttpError(400, "缺少有效的 id");
+  }
+  return id;
+}
+
+// Imports a ledger exported by the browser (the legacy localStorage format: trades with
+// nested sells). Original ids and batch links are kept; records whose id already exists
+// are skipped rather than overwritten, and invalid records are reported back. A trade still
+// sitting in the trash is brought back in place with the imported fields: the sells trashed
+// along with it are purged, while sells trashed on their own stay in the trash. Any other
+// trashed record is purged and replaced by the imported one. Trades without an
+// account go to the default account, and without an instrument they are gold in grams.
+// Missing currencies mean yuan for trades and the trade's currency for sells.
+export const importLedger = db.transaction((trades: unknown[]): ImportReport => {
+  const report: ImportReport = {
+    imported: { trades: 0, sells: 0 },
+    skipped: { trades: 0, sells: 0 },
+    rejected: [],
+  };
+
+  const findTrade = db.prepare("SELECT id, quantity, currency FROM trades WHERE id = ? AND deleted_at IS NULL");
+  const findSell = db.prepare("SELECT trade_id FROM sells WHERE id = ? AND deleted_at IS NULL");
+  const findAccount = db.prepare("SELECT 1 FROM accounts WHERE id = ?");
+  const findTrashedTrade = db.prepare("SELECT deleted_at FROM trades WHERE id = ? AND deleted_at IS NOT NULL");
+  const purgeTrashedWith = db.prepare("DELETE FROM sells WHERE trade_id = ? AND deleted_at = ?");
+  const purgeSell = db.prepare("DELETE FROM sells WHERE id = ? AND deleted_at IS NOT NULL");
+  const soldWeight = db.prepare("SELECT COALESCE(SUM(quantity), 0) AS sold FROM sells WHERE trade_id = ? AND deleted_at IS NULL");
+  const insertTrade = db.prepare(
+    `INSERT INTO trades (id, account_id, instrument, unit, currency, buy_price, quantity, buy_date, buy_fee, spread, premium,
+       target_price, stop_price, notes, tags)
+     VALUES (@id, @account_id, @instrument, @unit, @currency, @buy_price, @quantity, @buy_date, @buy_fee, @spread, @premium,
+       @target_price, @stop_price, @notes, @tags)`
+  );
+  // Overwriting the row rather than deleting it keeps the foreign key from cascading to its sells
+  const reviveTrade = db.prepare(
+    `UPDATE trades SET account_id = @account_id, instrument = @instrument, unit = @unit, currency = @currency,
+       buy_price = @buy_price, quantity = @quantity, buy_date = @buy_date, buy_fee = @buy_fee, spread = @spread,
+       premium = @premium, target_price = @target_price, stop_price = @stop_price, notes = @notes, tags = @tags,
+       deleted_at = NULL
+     WHERE id = @id`
+  );
+  const insertSell = db.prepare(
+    `INSERT INTO sells (id, trade_id, sell_price, quantity, sell_date, fee, notes, tags, currency, batch_id)
+     VALUES (@id, @trade_id, @sell_price, @quantity, @sell_date, @fee, @notes, @tags, @currency, @batch_id)`
+  );
+
+  trades.forEach(raw => {
+    let tradeId: number;
+    let quantity: number;
+    let currency: Currency;
+    try {
+      if (!isRecord(raw)) throw new HttpError(400, "记录格式无效");
+      tradeId = requireRecordId(raw);
+      const existing = findTrade.get(tradeId) as { id: number; quantity: number; currency: Currency } | undefined;
+      if (existing) {
+        quantity = existing.quantity;
+        currency = existing.currency;
+        report.skipped.trades++;
+      } else {
+        const instrument = optionalChoice(raw, "instrument", isInstrument, DEFAULT_INSTRUMENT);
+        const trade = {
+          id: tradeId,
+          account_id: optionalId(raw, "account_id") ?? DEFAULT_ACCOUNT_ID,
+          instrument,
+          unit: optionalChoice(raw, "unit", (u): u is WeightUnit => isUnitOf(instrument, u), baseUnit(instrument)),
+          currency: optionalChoice(raw, "currency", isCurrency, DEFAULT_CURRENCY),
+          buy_price: requireNumber(raw, "buy_price"),
+          quantity: requireNumber(raw, "quantity"),
+          buy_date: requireDate(raw, "buy_date"),
+          buy_fee: optionalNumber(raw, "buy_fee"),
+          spread: optionalNumber(raw, "spread"),
+          premium: optionalNumber(raw, "premium"),
+          target_price: nullableNumber(raw, "target_price"),
+          stop_price: nullableNumber(raw, "stop_price"),
+          notes: optionalText(raw, "notes"),
+          tags: encodeTags(optionalTags(raw, "tags")),
+        };
+        if (!findAccount.get(trade.account_id)) {
+          throw new HttpError(400, "账户不存在");
+        }
+        const trashed = findTrashedTrade.get(tradeId) as { deleted_at: string } | undefined;
+        if (trashed) {
+          purgeTrashedWith.run(tradeId, trashed.deleted_at);
+          reviveTrade.run(trade);
+        } else {
+          insertTrade.run(trade);
+        }
+        quantity = trade.quantity;
+        currency = trade.currency;
+        report.imported.trades++;
+      }
+    } catch (e) {
+      if (!(e instanceof HttpError)) throw e;
+      report.rejected.push({ kind: "trade", id: isRecord(raw) ? raw.id : null, reason: e.message });
+      return;
+    }
+
+    const sells = Array.isArray(raw.sells) ? raw.sells : [];
+    sells.forEach(rawSell => {
+      try {
+        if (!isRecord(rawSell)) throw new HttpError(400, "记录格式无效");
+        const sellId = requireRecordId(rawSell);
+        if (rawSell.trade_id !== undefined && Number(rawSell.trade_id) !== tradeId) {
+          throw new HttpError(400, "trade_id 与所属买入记录不一致");
+        }
+        const existing = findSell.get(sellId) as { trade_id: number } | undefined;
+        if (existing) {
+          if (existing.trade_id !== tradeId) {
+            throw new HttpError(400, "该卖出 id 已属于其他买入记录");
+          }
+          report.skipped.sells++;
+          return;
+        }
+        const sell = {
+          id: sellId,
+          trade_id: tradeId,
+          sell_price: requireNumber(rawSell, "sell_price"),
+          quantity: requireNumber(rawSell, "quantity"),
+          sell_date: requireDate(rawSell, "sell_date"),
+          fee: requireNumber(rawSell, "fee", { allowZero: true }),
+          notes: optionalText(rawSell, "notes"),
+          tags: encodeTags(optionalTags(rawSell, "tags")),
+          currency: optionalChoice(rawSell, "currency", isCurrency, currency),
+          batch_id: optionalText(rawSell, "batch_id"),
+        };
+        const { sold } = soldWeight.get(tradeId) as { sold: number };
+        if (sell.quantity > quantity - sold + EPSILON) {
+          throw new HttpError(400, "卖出数量超过剩余持仓");
+        }
+        purgeSell.run(sellId);
+        insertSell.run(sell);
+        report.imported.sells++;
+      } catch (e) {
+        if (!(e instanceof HttpError)) throw e;
+        report.rejected.push({ kind: "sell", id: isRecord(rawSell) ? rawSell.id : null, reason: e.message });
+      }
+    });
+  });
+
+  return report;
+});
+
+// Commits rows from the CSV import wizard. All rows are created in one transaction,
+// so a single invalid row leaves the ledger untouched.
+export const importTrades = db.transaction((rows: CsvImportRow[]): number => {
+  rows.forEach(row => {
+    const trade = createTrade(row.trade);
+    if (row.sell) {
+      createSell(trade.id, row.sell);
+    }
+  });
+  return rows.length;
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { createBatchSell, createTrade, deleteTradeBatchSells } from "./ledger.ts";
+import type { BatchSellInput, TradeInput } from "../src/types.ts";
+
+const tradeInput: TradeInput = {
+  account_id: 1,
+  instrument: "Au",
+  unit: "g",
+  currency: "CNY",
+  buy_price: 400,
+  quantity: 10,
+  buy_date: "2026-01-01T10:00",
+  buy_fee: 0,
+  spread: 0,
+  premium: 0,
+  target_price: null,
+  stop_price: null,
+  notes: null,
+  tags: [],
+};
+
+const batchInput = (trade_ids: number[]): BatchSellInput =>
+  ({ trade_ids, sell_price: 450, sell_date: "2026-02-01T10:00", fee: 0, notes: null, tags: [] });
+
+const status = (run: () => unknown) => {
+  try {
+    run();
+  } catch (e) {
+    return (e as { status?: number }).status;
+  }
+  return undefined;
+};
+
+describe("deleteTradeBatchSells", () => {
+  it("removes a lot's part of a batch once and then reports it missing", () => {
+    const { id } = createTrade(tradeInput);
+    const batchId = createBatchSell(batchInput([id]));
+    expect(deleteTradeBatchSells(id, batchId).sells).toEqual([]);
+    expect(status(() => deleteTradeBatchSells(id, batchId))).toBe(404);
+  });
+});
+
+describe("createBatchSell", () => {
+  it("rejects lots that are already sold out", () => {
+    const { id } = createTrade(tradeInput);
+    createBatchSell(batchInput([id]));
+    expect(status(() => createBatchSell(batchInput([id])))).toBe(400);
+  });
+});
@@ -0,0 +1,309 @@
+import crypto from "crypto";
+import { db, nextId } from "./db.ts";
+import { HttpError } from "./http.ts";
+import { recordChanges } from "./audit.ts";
+import { getAccount } from "./accounts.ts";
+import { allocateSell, openLots, validateManualAllocations } from "../src/costBasis.ts";
+import { splitFee } from "../src/fees.ts";
+import { effectiveCost, remainingWeight } from "../src/ledger.ts";
+import type { AllocatedSellInput, BatchSellInput, Sell, SellInput, Trade, TradeInput } from "../src/types.ts";
+
+const EPSILON = 0.00001;
+
+// Deleted records stay in their tables with `deleted_at` set until the trash is purged;
+// everything in this module only sees live rows.
+// Tags are kept as a JSON array in a text column.
+export type SellRow = Omit<Sell, "batch_id" | "tags"> & { batch_id: string | null; tags: string; deleted_at: string | null };
+export type TradeRow = Omit<Trade, "sells" | "tags"> & { tags: string; deleted_at: string | null };
+
+export const encodeTags = (tags: string[]) => JSON.stringify(tags);
+
+function decodeTags(column: string): string[] {
+  try {
+    const tags = JSON.parse(column);
+    return Array.isArray(tags) ? tags : [];
+  } catch {
+    return [];
+  }
+}
+
+export function toSell(row: SellRow): Sell {
+  const { batch_id, deleted_at, tags, ...rest } = row;
+  const sell = { ...rest, tags: decodeTags(tags) };
+  return batch_id ? { ...sell, batch_id } : sell;
+}
+
+export function toTrade(row: TradeRow, sells: Sell[]): Trade {
+  const { deleted_at, tags, ...rest } = row;
+  return { ...rest, tags: decodeTags(tags), sells };
+}
+
+export function listTrades(): Trade[] {
+  const trades = db.prepare("SELECT * FROM trades WHERE deleted_at IS NULL ORDER BY buy_date DESC, id DESC").all() as TradeRow[];
+  const sells = db.prepare("SELECT * FROM sells WHERE deleted_at IS NULL ORDER BY sell_date DESC, id DESC").all() as SellRow[];
+
+  const sellsByTrade = new Map<number, Sell[]>();
+  sells.forEach(row => {
+    const list = sellsByTrade.get(row.trade_id) ?? [];
+    list.push(toSell(row));
+    sellsByTrade.set(row.trade_id, list);
+  });
+
+  return trades.map(t => toTrade(t, sellsByTrade.get(t.id) ?? []));
+}
+
+export function getTrade(id: number): Trade {
+  const trade = db.prepare("SELECT * FROM trades WHERE id = ? AND deleted_at IS NULL").get(id) as TradeRow | undefined;
+  if (!trade) {
+    throw new HttpError(404, "买入记录不存在");
+  }
+  const sells = db
+    .prepare("SELECT * FROM sells WHERE trade_id = ? AND deleted_at IS NULL ORDER BY sell_date DESC, id DESC")
+    .all(id) as SellRow[];
+  return toTrade(trade, sells.map(toSell));
+}
+
+export function soldWeight(tradeId: number, excludeSellId?: number): number {
+  const row = db
+    .prepare("SELECT COALESCE(SUM(quantity), 0) AS sold FROM sells WHERE trade_id = ? AND id IS NOT ? AND deleted_at IS NULL")
+    .get(tradeId, excludeSellId ?? null) as { sold: number };
+  return row.sold;
+}
+
+// Lots sold together must sit in the same account and be the same instrument in the same
+// unit and currency, since the batch shares one quantity and price.
+function requireSameHolding(trades: Trade[]) {
+  if (new Set(trades.map(t => t.account_id)).size > 1) {
+    throw new HttpError(400, "合并卖出不能混合不同账户的持仓");
+  }
+  if (new Set(trades.map(t => `${t.instrument}|${t.unit}`)).size > 1) {
+    throw new HttpError(400, "合并卖出不能混合不同品种或单位的持仓");
+  }
+  if (new Set(trades.map(t => t.currency)).size > 1) {
+    throw new HttpError(400, "合并卖出不能混合不同币种的持仓");
+  }
+}
+
+function requireAccount(id: number) {
+  try {
+    getAccount(id);
+  } catch {
+    throw new HttpError(400, "账户不存在");
+  }
+}
+
+export function createTrade(input: TradeInput): Trade {
+  requireAccount(input.account_id);
+  const id = nextId("trades");
+  db.prepare(
+    `INSERT INTO trades (id, account_id, instrument, unit, currency, buy_price, quantity, buy_date, buy_fee, spread, premium,
+       target_price, stop_price, notes, tags)
+     VALUES (@id, @account_id, @instrument, @unit, @currency, @buy_price, @quantity, @buy_date, @buy_fee, @spread, @premium,
+       @target_price, @stop_price, @notes, @tags)`
+  ).run({ id, ...input, tags: encodeTags(input.tags) });
+  return getTrade(id);
+}
+
+const TRADE_AUDIT_FIELDS: (keyof TradeInput)[] = [
+  "account_id", "instrument", "unit", "currency", "buy_price", "quantity", "buy_date", "buy_fee", "spread", "premium",
+  "target_price", "stop_price", "notes", "tags",
+];
+const SELL_AUDIT_FIELDS: (keyof SellInput)[] = ["sell_price", "quantity", "sell_date", "fee", "currency", "notes", "tags"];
+
+// Edits are logged field by field in the audit log, in the same transaction as the update.
+export const updateTrade = db.transaction((id: number, input: TradeInput): Trade => {
+  const before = getTrade(id);
+  if (input.quantity + EPSILON < soldWeight(id)) {
+    throw new HttpError(400, "买入克重不能小于已卖出克重");
+  }
+  if ((input.instrument !== before.instrument || input.unit !== before.unit) && before.sells.length > 0) {
+    throw new HttpError(400, "已有卖出记录，不能更改品种或单位");
+  }
+  if (input.account_id !== before.account_id) {
+    requireAccount(input.account_id);
+    if (before.sells.some(s => s.batch_id)) {
+      throw new HttpError(400, "该买入记录参与了合并卖出，不能更换账户");
+    }
+  }
+  db.prepare(
+    `UPDATE trades SET account_id = @account_id, instrument = @instrument, unit = @unit, currency = @currency, buy_price = @buy_price,
+       quantity = @quantity, buy_date = @buy_date, buy_fee = @buy_fee, spread = @spread, premium = @premium,
+       target_price = @target_price, stop_price = @stop_price, notes = @notes, tags = @tags
+     WHERE id = @id`
+  ).run({ id, ...input, tags: encodeTags(input.tags) });
+  const after = getTrade(id);
+  recordChanges("trade", id, id, before, after, TRADE_AUDIT_FIELDS);
+  return after;
+});
+
+// Moves a trade to the trash. Its live sells go with it under the same timestamp, so
+// restoring the trade brings back exactly those sells.
+export const deleteTrade = db.transaction((id: number) => {
+  const deletedAt = new Date().toISOString();
+  const result = db.prepare("UPDATE trades SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL").run(deletedAt, id);
+  if (result.changes === 0) {
+    throw new HttpError(404, "买入记录不存在");
+  }
+  db.prepare("UPDATE sells SET deleted_at = ? WHERE trade_id = ? AND deleted_at IS NULL").run(deletedAt, id);
+});
+
+export function createSell(tradeId: number, input: SellInput): Trade {
+  const trade = getTrade(tradeId);
+  if (input.quantity > trade.quantity - soldWeight(tradeId) + EPSILON) {
+    throw new HttpError(400, "卖出数量超过剩余持仓");
+  }
+  db.prepare(
+    `INSERT INTO sells (id, trade_id, sell_price, quantity, sell_date, fee, notes, tags, currency)
+     VALUES (@id, @trade_id, @sell_price, @quantity, @sell_date, @fee, @notes, @tags, @currency)`
+  ).run({ id: nextId("sells"), trade_id: tradeId, ...input, tags: encodeTags(input.tags), currency: input.currency ?? trade.currency });
+  return getTrade(tradeId);
+}
+
+export const updateSell = db.transaction((tradeId: number, sellId: number, input: SellInput): Trade => {
+  const trade = getTrade(tradeId);
+  const before = trade.sells.find(s => s.id === sellId);
+  if (!before) {
+    throw new HttpError(404, "卖出记录不存在");
+  }
+  if (input.quantity > trade.quantity - soldWeight(tradeId, sellId) + EPSILON) {
+    throw new HttpError(400, "卖出数量超过剩余持仓");
+  }
+  db.prepare(
+    `UPDATE sells SET sell_price = @sell_price, quantity = @quantity, sell_date = @sell_date, fee = @fee, notes = @notes,
+       tags = @tags, currency = @currency
+     WHERE id = @id AND trade_id = @trade_id`
+  ).run({ id: sellId, trade_id: tradeId, ...input, tags: encodeTags(input.tags), currency: input.currency ?? before.currency });
+  const after = getTrade(tradeId);
+  recordChanges("sell", sellId, tradeId, before, after.sells.find(s => s.id === sellId)!, SELL_AUDIT_FIELDS);
+  return after;
+});
+
+export function deleteSell(tradeId: number, sellId: number): Trade {
+  const result = db
+    .prepare("UPDATE sells SET deleted_at = ? WHERE id = ? AND trade_id = ? AND deleted_at IS NULL")
+    .run(new Date().toISOString(), sellId, tradeId);
+  if (result.changes === 0) {
+    throw new HttpError(404, "卖出记录不存在");
+  }
+  return getTrade(tradeId);
+}
+
+export function deleteTradeBatchSells(tradeId: number, batchId: string): Trade {
+  const result = db
+    .prepare("UPDATE sells SET deleted_at = ? WHERE trade_id = ? AND batch_id = ? AND deleted_at IS NULL")
+    .run(new Date().toISOString(), tradeId, batchId);
+  if (result.changes === 0) {
+    throw new HttpError(404, "合并卖出记录不存在");
+  }
+  return getTrade(tradeId);
+}
+
+// Random rather than time-based, so two batches sold in the same millisecond stay apart
+const newBatchId = () => `batch-${crypto.randomUUID()}`;
+
+// Sells the entire remaining weight of every listed trade under one batch id.
+export const createBatchSell = db.transaction((input: BatchSellInput): string => {
+  if (input.trade_ids.length === 0) {
+    throw new HttpError(400, "请至少选择一笔买入记录");
+  }
+  const batchId = newBatchId();
+  const trades = input.trade_ids.map(getTrade);
+  requireSameHolding(trades);
+  const lots = trades
+    .map(trade => ({ trade_id: trade.id, cost: effectiveCost(trade), quantity: trade.quantity - soldWeight(trade.id) }))
+    .filter(lot => lot.quantity > EPSILON);
+  if (lots.length === 0) {
+    throw new HttpError(400, "所选买入记录已全部卖出");
+  }
+  const fees = splitFee(input.fee, lots, input.fee_split ?? "grams");
+  const insert = db.prepare(
+    `INSERT INTO sells (id, trade_id, sell_price, quantity, sell_date, fee, notes, tags, currency, batch_id)
+     VALUES (@id, @trade_id, @sell_price, @quantity, @sell_date, @fee, @notes, @tags, @currency, @batch_id)`
+  );
+
+  lots.forEach((lot, i) => {
+    insert.run({
+      id: nextId("sells"),
+      trade_id: lot.trade_id,
+      sell_price: input.sell_price,
+      quantity: lot.quantity,
+      sell_date: input.sell_date,
+      fee: fees[i],
+      notes: input.notes,
+      tags: encodeTags(input.tags),
+      currency: input.currency ?? trades[0].currency,
+      batch_id: batchId,
+    });
+  });
+
+  return batchId;
+});
+
+// Sells a quantity across open lots chosen by the allocation method (or given per lot for
+// 'manual'). The resulting sells share a batch id, and the fee is split by grams or cost.
+export const createAllocatedSell = db.transaction((input: AllocatedSellInput): string => {
+  const trades = input.trade_ids
+    ? input.trade_ids.map(id => getTrade(id))
+    : listTrades().filter(t => input.account_id === undefined || t.account_id === input.account_id);
+  requireSameHolding(trades.filter(t => remainingWeight(t) > EPSILON));
+  let allocations;
+  try {
+    allocations = input.method === "manual"
+      ? validateManualAllocations(openLots(trades), input.allocations ?? [])
+      : allocateSell(openLots(trades), input.quantity, input.method);
+  } catch (e) {
+    throw new HttpError(400, e instanceof Error ? e.message : String(e));
+  }
+  const allocated = allocations.reduce((acc, a) => acc + a.quantity, 0);
+  if (allocations.length === 0 || Math.abs(allocated - input.quantity) > EPSILON) {
+    throw new HttpError(400, "分配克重之和与卖出克重不一致");
+  }
+
+  const batchId = newBatchId();
+  const costs = new Map(trades.map(t => [t.id, effectiveCost(t)]));
+  const fees = splitFee(
+    input.fee,
+    allocations.map(a => ({ quantity: a.quantity, cost: costs.get(a.trade_id) ?? 0 })),
+    input.fee_split ?? "grams"
+  );
+  const insert = db.prepare(
+    `INSERT INTO sells (id, trade_id, sell_price, quantity, sell_date, fee, notes, tags, currency, batch_id)
+     VALUES (@id, @trade_id, @sell_price, @quantity, @sell_date, @fee, @notes, @tags, @currency, @batch_id)`
+  );
+  allocations.forEach((a, i) => {
+    insert.run({
+      id: nextId("sells"),
+      trade_id: a.trade_id,
+      sell_price: input.sell_price,
+      quantity: a.quantity,
+      sell_date: input.sell_date,
+      fee: fees[i],
+      notes: input.notes,
+      tags: encodeTags(input.tags),
+      currency: input.currency ?? trades.find(t => t.id === a.trade_id)!.currency,
+      batch_id: batchId,
+    });
+  });
+
+  return batchId;
+});
+
+// Deleting a batch trashes the trades that were sold out entirely within it, sells included.
+// Lots that were only partly sold in the batch keep their other sells and just lose this one.
+export const deleteBatch = db.transaction((batchId: string) => {
+  const exists = db.prepare("SELECT 1 FROM sells WHERE batch_id = ? AND deleted_at IS NULL LIMIT 1").get(batchId);
+  if (!exists) {
+    throw new HttpError(404, "合并卖出记录不存在");
+  }
+  const deletedAt = new Date().toISOString();
+  db.prepare(
+    `UPDATE trades SET deleted_at = @deletedAt
+     WHERE deleted_at IS NULL
+       AND id IN (SELECT trade_id FROM sells WHERE batch_id = @batchId AND deleted_at IS NULL)
+       AND NOT EXISTS (
+         SELECT 1 FROM sells s WHERE s.trade_id = trades.id AND s.deleted_at IS NULL AND s.batch_id IS NOT @batchId
+       )
+       AND quantity <= (SELECT SUM(quantity) FROM sells s WHERE s.trade_id = trades.id AND s.deleted_at IS NULL) + @epsilon`
+  ).run({ batchId, deletedAt, epsilon: EPSILON });
+  db.prepare("UPDATE sells SET deleted_at = ? WHERE batch_id = ? AND deleted_at IS NULL").run(deletedAt, batchId);
+});
@@ -0,0 +1,80 @@
+import fs from "fs";
+import path from "path";
+import { parseCsv } from "../../src/csv.ts";
+
+export interface ProviderQuote {
+  price: number; // 元/克
+  quotedAt: string;
+}
+
+export interface PriceProvider {
+  name: string;
+  simulated?: boolean; // replays made-up quotes rather than reading a market feed
+  fetchQuote(): Promise<ProviderQuote>;
+}
+
+// Replays a local CSV (`date,price`) one row per fetch, wrapping around at the end.
+// Lets the price feed be developed and tested without network access.
+export function createMockProvider(csvPath: string): PriceProvider {
+  const resolved = path.resolve(process.cwd(), csvPath);
+  const rows = parseCsv(fs.readFileSync(resolved, "utf8"))
+    .slice(1)
+    .map(([, price]) => Number(price))
+    .filter(price => Number.isFinite(price) && price > 0);
+  if (rows.length === 0) {
+    throw new Error(`Mock price file ${resolved} has no usable rows`);
+  }
+
+  let cursor = 0;
+  return {
+    name: `mock:${path.basename(resolved)}`,
+    simulated: true,
+    async fetchQuote() {
+      const price = rows[cursor];
+      cursor = (cursor + 1) % rows.length;
+      return { price, quotedAt: new Date().toISOString() };
+    },
+  };
+}
+
+// Generic JSON endpoint. `pricePath` is a dot path into the response body, e.g. "data.price".
+export function createHttpProvider(url: string, pricePath: string, timeoutMs = 5000): PriceProvider {
+  return {
+    name: `http:${new URL(url).host}`,
+    async fetchQuote() {
+      const res = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+      if (!res.ok) {
+        throw new Error(`行情接口返回 ${res.status}`);
+      }
+      const body = await res.json();
+      // Arrays are walked too, so a path like "data.0.price" works
+      const price = Number(pricePath.split(".").reduce<unknown>(
+        (acc, key) => typeof acc === "object" && acc !== null ? (acc as Record<string, unknown>)[key] : undefined,
+        body
+      ));
+      if (!Number.isFinite(price) || price <= 0) {
+        throw new Error(`行情接口响应中 ${pricePath} 不是有效价格`);
+      }
+      return { price, quotedAt: new Date().toISOString() };
+    },
+  };
+}
+
+const factories: Record<string, () => PriceProvider> = {
+  mock: () => createMockProvider(process.env.PRICE_MOCK_CSV || "server/price/mock-prices.csv"),
+  http: () => {
+    if (!process.env.PRICE_FEED_URL) {
+      throw new Error("PRICE_PROVIDER=http requires PRICE_FEED_URL");
+    }
+    return createHttpProvider(process.env.PRICE_FEED_URL, process.env.PRICE_FEED_PATH || "price");
+  },
+};
+
+export function createProviderFromEnv(): PriceProvider {
+  const name = process.env.PRICE_PROVIDER || "mock";
+  const factory = factories[name];
+  if (!factory) {
+    throw new Error(`Unknown PRICE_PROVIDER "${name}", expected one of: ${Object.keys(factories).join(", ")}`);
+  }
+  return factory();
+}
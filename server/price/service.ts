@@ -0,0 +1,57 @@
+import type { PriceQuote } from "../../src/types.ts";
+import type { PriceProvider, ProviderQuote } from "./providers.ts";
+
+interface PriceServiceOptions {
+  cacheSeconds: number;
+  staleSeconds: number;
+  onQuote?: (quote: ProviderQuote, source: string) => void;
+}
+
+// Caches the provider's last quote. Fetch failures fall back to the cached quote, which is
+// flagged stale together with the error so the UI can tell the user the price is not live.
+export class PriceService {
+  private last: (ProviderQuote & { fetchedAt: number }) | null = null;
+  private lastError: string | null = null;
+  private inflight: Promise<void> | null = null;
+
+  constructor(private provider: PriceProvider, private options: PriceServiceOptions) {}
+
+  async getQuote(): Promise<PriceQuote | null> {
+    const age = this.last ? (Date.now() - this.last.fetchedAt) / 1000 : Infinity;
+    if (age > this.options.cacheSeconds) {
+      await this.refresh();
+    }
+    if (!this.last) return null;
+
+    const quoteAge = (Date.now() - new Date(this.last.quotedAt).getTime()) / 1000;
+    return {
+      price: this.last.price,
+      quotedAt: this.last.quotedAt,
+      fetchedAt: new Date(this.last.fetchedAt).toISOString(),
+      source: this.provider.name,
+      stale: this.lastError !== null || quoteAge > this.options.staleSeconds,
+      error: this.lastError,
+    };
+  }
+
+  get error() {
+    return this.lastError;
+  }
+
+  private refresh(): Promise<void> {
+    // Concurrent requests share one upstream fetch.
+    this.inflight ??= this.provider.fetchQuote()
+      .then(quote => {
+        this.last = { ...quote, fetchedAt: Date.now() };
+        this.lastError = null;
+        this.options.onQuote?.(quote, this.provider.name);
+      })
+      .catch(e => {
+        this.lastError = e instanceof Error ? e.message : String(e);
+      })
+      .finally(() => {
+        this.inflight = null;
+      });
+    return this.inflight;
+  }
+}
@@ -0,0 +1,34 @@
+import { format } from "date-fns";
+import { db } from "./db.ts";
+import type { PricePoint } from "../src/types.ts";
+
+// Feed quotes carry UTC ISO timestamps. They are stored in local time like trades and imported
+// prices, so the first of the day's quotes doesn't land on the day before.
+export function recordPrice(point: PricePoint, source: string) {
+  db.prepare("INSERT OR REPLACE INTO prices (quoted_at, price, source) VALUES (?, ?, ?)")
+    .run(format(new Date(point.quoted_at), "yyyy-MM-dd'T'HH:mm:ss"), point.price, source);
+}
+
+export const importPrices = db.transaction((points: PricePoint[], source: string): number => {
+  const insert = db.prepare("INSERT OR REPLACE INTO prices (quoted_at, price, source) VALUES (?, ?, ?)");
+  points.forEach(p => insert.run(p.quoted_at, p.price, source));
+  return points.length;
+});
+
+// `day` keeps the last quote of each calendar day, which is plenty for a chart spanning months
+// and avoids shipping every intraday tick recorded from the feed.
+export function listPrices(interval: "day" | "raw", from?: string, to?: string): PricePoint[] {
+  const range = "quoted_at >= @from AND quoted_at <= @to";
+  // `to` is a prefix bound, so "2024-12-31" includes every quote on that day
+  const params = { from: from ?? "", to: `${to ?? ""}\uffff` };
+  if (interval === "raw") {
+    return db.prepare(`SELECT quoted_at, price FROM prices WHERE ${range} ORDER BY quoted_at`).all(params) as PricePoint[];
+  }
+  return db.prepare(
+    `SELECT quoted_at, price FROM prices
+     WHERE quoted_at IN (
+       SELECT MAX(quoted_at) FROM prices WHERE ${range} GROUP BY substr(quoted_at, 1, 10)
+     )
+     ORDER BY quoted_at`
+  ).all(params) as PricePoint[];
+}
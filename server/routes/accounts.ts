@@ -0,0 +1,31 @@
+import { Router } from "express";
+import { createAccount, deleteAccount, listAccounts, updateAccount } from "../accounts.ts";
+import { HttpError, optionalText, parseId } from "../http.ts";
+import type { AccountInput } from "../../src/types.ts";
+
+function parseAccountInput(body: Record<string, unknown>): AccountInput {
+  const name = optionalText(body, "name")?.trim();
+  if (!name) {
+    throw new HttpError(400, "账户名称不能为空");
+  }
+  return { name, platform_id: optionalText(body, "platform_id") };
+}
+
+export const accountsRouter = Router();
+
+accountsRouter.get("/accounts", (_req, res) => {
+  res.json(listAccounts());
+});
+
+accountsRouter.post("/accounts", (req, res) => {
+  res.status(201).json(createAccount(parseAccountInput(req.body)));
+});
+
+accountsRouter.put("/accounts/:id", (req, res) => {
+  res.json(updateAccount(parseId(req.params.id), parseAccountInput(req.body)));
+});
+
+accountsRouter.delete("/accounts/:id", (req, res) => {
+  deleteAccount(parseId(req.params.id));
+  res.status(204).end();
+});
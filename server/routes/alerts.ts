@@ -0,0 +1,71 @@
+import { Router } from "express";
+import {
+  checkAlerts,
+  createPriceAlert,
+  deletePriceAlert,
+  listAlertEvents,
+  listPriceAlerts,
+  markAlertEventsSeen,
+  rearmPriceAlert,
+} from "../alerts.ts";
+import { HttpError, optionalText, parseId, requireNumber } from "../http.ts";
+import { isInstrument } from "../../src/instruments.ts";
+import type { AlertDirection, Instrument, PriceAlertInput } from "../../src/types.ts";
+
+function requireInstrument(body: Record<string, unknown>): Instrument {
+  if (!isInstrument(body.instrument)) {
+    throw new HttpError(400, "字段 instrument 无效");
+  }
+  return body.instrument;
+}
+
+function parsePriceAlertInput(body: Record<string, unknown>): PriceAlertInput {
+  if (body.direction !== "above" && body.direction !== "below") {
+    throw new HttpError(400, "字段 direction 无效");
+  }
+  return {
+    instrument: requireInstrument(body),
+    direction: body.direction as AlertDirection,
+    price: requireNumber(body, "price"),
+    note: optionalText(body, "note"),
+  };
+}
+
+export const alertsRouter = Router();
+
+alertsRouter.get("/alerts", (_req, res) => {
+  res.json(listPriceAlerts());
+});
+
+alertsRouter.post("/alerts", (req, res) => {
+  res.status(201).json(createPriceAlert(parsePriceAlertInput(req.body ?? {})));
+});
+
+alertsRouter.post("/alerts/:id/rearm", (req, res) => {
+  res.json(rearmPriceAlert(parseId(req.params.id)));
+});
+
+alertsRouter.delete("/alerts/:id", (req, res) => {
+  deletePriceAlert(parseId(req.params.id));
+  res.status(204).end();
+});
+
+// Prices the server can't see for itself (manual prices, instruments without a feed) are
+// checked when the browser reports them. Returns the alerts that fired.
+alertsRouter.post("/alerts/check", (req, res) => {
+  const body = req.body ?? {};
+  res.json(checkAlerts(requireInstrument(body), requireNumber(body, "price")));
+});
+
+alertsRouter.get("/alert-events", (req, res) => {
+  res.json(listAlertEvents(req.query.unseen === "1"));
+});
+
+alertsRouter.post("/alert-events/seen", (req, res) => {
+  const ids = req.body?.ids;
+  if (!Array.isArray(ids) || ids.some(id => !Number.isFinite(Number(id)))) {
+    throw new HttpError(400, "字段 ids 必须是 ID 数组");
+  }
+  markAlertEventsSeen(ids.map(Number));
+  res.status(204).end();
+});
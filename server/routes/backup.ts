@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { createBackup, restoreBackup } from "../backup.ts";
+import { HttpError } from "../http.ts";
+
+export const backupRouter = Router();
+
+backupRouter.get("/backup", (_req, res) => {
+  res.json(createBackup());
+});
+
+backupRouter.post("/backup/restore", (req, res) => {
+  const { backup, mode, dryRun } = req.body ?? {};
+  if (mode !== "merge" && mode !== "replace") {
+    throw new HttpError(400, "字段 mode 必须是 merge 或 replace");
+  }
+  res.json(restoreBackup(backup, mode, dryRun === true));
+});
@@ -0,0 +1,47 @@
+import { Router } from "express";
+import { deleteFxRate, listFxRates, saveFxRates } from "../fxRates.ts";
+import { HttpError, requireDate, requireNumber } from "../http.ts";
+import { DEFAULT_CURRENCY, fxDay, isCurrency } from "../../src/currencies.ts";
+import type { Currency, FxRate } from "../../src/types.ts";
+
+function requireForeignCurrency(value: unknown): Currency {
+  if (!isCurrency(value) || value === DEFAULT_CURRENCY) {
+    throw new HttpError(400, "字段 currency 无效");
+  }
+  return value;
+}
+
+export function parseFxRate(body: Record<string, unknown>): FxRate {
+  return {
+    currency: requireForeignCurrency(body.currency),
+    date: fxDay(requireDate(body, "date")),
+    rate: requireNumber(body, "rate"),
+  };
+}
+
+export const fxRatesRouter = Router();
+
+fxRatesRouter.get("/fx-rates", (_req, res) => {
+  res.json(listFxRates());
+});
+
+fxRatesRouter.post("/fx-rates", (req, res) => {
+  const rates = req.body?.rates;
+  if (!Array.isArray(rates) || rates.length === 0) {
+    throw new HttpError(400, "字段 rates 必须是非空数组");
+  }
+  const parsed = rates.map((r, i) => {
+    try {
+      return parseFxRate(r ?? {});
+    } catch (e) {
+      if (e instanceof HttpError) throw new HttpError(400, `第 ${i + 1} 行: ${e.message}`);
+      throw e;
+    }
+  });
+  res.status(201).json({ saved: saveFxRates(parsed) });
+});
+
+fxRatesRouter.delete("/fx-rates/:currency/:date", (req, res) => {
+  deleteFxRate(requireForeignCurrency(req.params.currency), req.params.date);
+  res.status(204).end();
+});
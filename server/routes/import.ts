@@ -0,0 +1,34 @@
+import { Router } from "express";
+import { importLedger, importTrades } from "../import.ts";
+import { HttpError } from "../http.ts";
+import { parseSellInput, parseTradeInput } from "./trades.ts";
+import type { CsvImportRow } from "../../src/types.ts";
+
+export const importRouter = Router();
+
+importRouter.post("/import/ledger", (req, res) => {
+  const trades = req.body?.trades;
+  if (!Array.isArray(trades)) {
+    throw new HttpError(400, "字段 trades 必须是数组");
+  }
+  res.json(importLedger(trades));
+});
+
+importRouter.post("/import/trades", (req, res) => {
+  const rows = req.body?.rows;
+  if (!Array.isArray(rows) || rows.length === 0) {
+    throw new HttpError(400, "字段 rows 必须是非空数组");
+  }
+  const parsed: CsvImportRow[] = rows.map((row, i) => {
+    try {
+      return {
+        trade: parseTradeInput(row?.trade ?? {}),
+        sell: row?.sell ? parseSellInput(row.sell) : null,
+      };
+    } catch (e) {
+      if (e instanceof HttpError) throw new HttpError(400, `第 ${i + 1} 行: ${e.message}`);
+      throw e;
+    }
+  });
+  res.status(201).json({ imported: importTrades(parsed) });
+});
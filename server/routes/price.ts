@@ -0,0 +1,68 @@
+import { Router } from "express";
+import { HttpError, requireDate, requireNumber } from "../http.ts";
+import { createProviderFromEnv } from "../price/providers.ts";
+import { PriceService } from "../price/service.ts";
+import { importPrices, listPrices, recordPrice } from "../prices.ts";
+import { checkAlerts } from "../alerts.ts";
+import type { PricePoint } from "../../src/types.ts";
+
+const provider = createProviderFromEnv();
+
+export const priceService = new PriceService(provider, {
+  cacheSeconds: Number(process.env.PRICE_CACHE_SECONDS) || 60,
+  staleSeconds: Number(process.env.PRICE_STALE_SECONDS) || 300,
+  // Every fresh quote also becomes part of the price history, and is checked against the gold
+  // price alerts. Fired alerts wait in the event log until a tab picks them up. Simulated quotes
+  // are neither, so they can't fill the history or use up alerts.
+  onQuote: (quote, source) => {
+    if (provider.simulated) return;
+    recordPrice({ quoted_at: quote.quotedAt, price: quote.price }, source);
+    checkAlerts("Au", quote.price);
+  },
+});
+
+// Polls the feed in the background so alerts fire even when no tab is asking for prices. There
+// is nothing to watch with a simulated feed.
+export function watchPrice(seconds: number) {
+  if (!(seconds > 0) || provider.simulated) return;
+  setInterval(() => {
+    priceService.getQuote().catch(e => console.error(e));
+  }, seconds * 1000).unref();
+}
+
+export const priceRouter = Router();
+
+priceRouter.get("/price", async (_req, res, next) => {
+  try {
+    const quote = await priceService.getQuote();
+    if (!quote) {
+      throw new HttpError(503, `暂无行情数据: ${priceService.error ?? "未知错误"}`);
+    }
+    res.json(quote);
+  } catch (e) {
+    next(e);
+  }
+});
+
+priceRouter.get("/prices", (req, res) => {
+  const interval = req.query.interval === "raw" ? "raw" : "day";
+  const from = typeof req.query.from === "string" ? req.query.from : undefined;
+  const to = typeof req.query.to === "string" ? req.query.to : undefined;
+  res.json(listPrices(interval, from, to));
+});
+
+priceRouter.post("/prices/import", (req, res) => {
+  const points = req.body?.points;
+  if (!Array.isArray(points) || points.length === 0) {
+    throw new HttpError(400, "字段 points 必须是非空数组");
+  }
+  const parsed: PricePoint[] = points.map((p, i) => {
+    try {
+      return { quoted_at: requireDate(p ?? {}, "quoted_at"), price: requireNumber(p ?? {}, "price") };
+    } catch (e) {
+      if (e instanceof HttpError) throw new HttpError(400, `第 ${i + 1} 行: ${e.message}`);
+      throw e;
+    }
+  });
+  res.status(201).json({ imported: importPrices(parsed, "csv") });
+});
@@ -0,0 +1,202 @@
+import { Router } from "express";
+import {
+  createAllocatedSell,
+  createBatchSell,
+  createSell,
+  createTrade,
+  deleteBatch,
+  deleteSell,
+  deleteTrade,
+  deleteTradeBatchSells,
+  getTrade,
+  listTrades,
+  updateSell,
+  updateTrade,
+} from "../ledger.ts";
+import { listTradeHistory } from "../audit.ts";
+import {
+  HttpError,
+  optionalChoice,
+  optionalId,
+  optionalNumber,
+  optionalTags,
+  optionalText,
+  nullableNumber,
+  parseId,
+  requireDate,
+  requireNumber,
+} from "../http.ts";
+import { baseUnit, DEFAULT_INSTRUMENT, isInstrument, isUnitOf } from "../../src/instruments.ts";
+import { DEFAULT_CURRENCY, isCurrency } from "../../src/currencies.ts";
+import {
+  DEFAULT_ACCOUNT_ID,
+  type AllocatedSellInput,
+  type BatchSellInput,
+  type Currency,
+  type FeeSplit,
+  type SellInput,
+  type TradeInput,
+  type WeightUnit,
+} from "../../src/types.ts";
+
+const ALLOCATION_METHODS = ["fifo", "lifo", "hifo", "average", "manual"];
+const FEE_SPLITS = ["grams", "amount"];
+
+function optionalFeeSplit(body: Record<string, unknown>): FeeSplit | undefined {
+  if (body.fee_split === undefined || body.fee_split === null) return undefined;
+  if (typeof body.fee_split !== "string" || !FEE_SPLITS.includes(body.fee_split)) {
+    throw new HttpError(400, "字段 fee_split 无效");
+  }
+  return body.fee_split as FeeSplit;
+}
+
+// Sells without a currency take their trade's, which the ledger fills in
+function optionalCurrency(body: Record<string, unknown>): Currency | undefined {
+  if (body.currency === undefined || body.currency === null || body.currency === "") return undefined;
+  if (!isCurrency(body.currency)) {
+    throw new HttpError(400, "字段 currency 无效");
+  }
+  return body.currency;
+}
+
+export function parseTradeInput(body: Record<string, unknown>): TradeInput {
+  const instrument = optionalChoice(body, "instrument", isInstrument, DEFAULT_INSTRUMENT);
+  return {
+    account_id: optionalId(body, "account_id") ?? DEFAULT_ACCOUNT_ID,
+    instrument,
+    unit: optionalChoice(body, "unit", (u): u is WeightUnit => isUnitOf(instrument, u), baseUnit(instrument)),
+    currency: optionalChoice(body, "currency", isCurrency, DEFAULT_CURRENCY),
+    buy_price: requireNumber(body, "buy_price"),
+    quantity: requireNumber(body, "quantity"),
+    buy_date: requireDate(body, "buy_date"),
+    buy_fee: optionalNumber(body, "buy_fee"),
+    spread: optionalNumber(body, "spread"),
+    premium: optionalNumber(body, "premium"),
+    target_price: nullableNumber(body, "target_price"),
+    stop_price: nullableNumber(body, "stop_price"),
+    notes: optionalText(body, "notes"),
+    tags: optionalTags(body, "tags"),
+  };
+}
+
+export function parseSellInput(body: Record<string, unknown>): SellInput {
+  return {
+    sell_price: requireNumber(body, "sell_price"),
+    quantity: requireNumber(body, "quantity"),
+    sell_date: requireDate(body, "sell_date"),
+    fee: requireNumber(body, "fee", { allowZero: true }),
+    notes: optionalText(body, "notes"),
+    tags: optionalTags(body, "tags"),
+    currency: optionalCurrency(body),
+  };
+}
+
+function parseBatchSellInput(body: Record<string, unknown>): BatchSellInput {
+  const tradeIds = body.trade_ids;
+  if (!Array.isArray(tradeIds) || tradeIds.some(id => !Number.isFinite(Number(id)))) {
+    throw new HttpError(400, "字段 trade_ids 无效");
+  }
+  return {
+    trade_ids: tradeIds.map(Number),
+    sell_price: requireNumber(body, "sell_price"),
+    sell_date: requireDate(body, "sell_date"),
+    fee: requireNumber(body, "fee", { allowZero: true }),
+    notes: optionalText(body, "notes"),
+    tags: optionalTags(body, "tags"),
+    currency: optionalCurrency(body),
+    fee_split: optionalFeeSplit(body),
+  };
+}
+
+function parseAllocatedSellInput(body: Record<string, unknown>): AllocatedSellInput {
+  if (typeof body.method !== "string" || !ALLOCATION_METHODS.includes(body.method)) {
+    throw new HttpError(400, "字段 method 无效");
+  }
+  const tradeIds = body.trade_ids;
+  if (tradeIds !== undefined && (!Array.isArray(tradeIds) || tradeIds.some(id => !Number.isFinite(Number(id))))) {
+    throw new HttpError(400, "字段 trade_ids 无效");
+  }
+  const allocations = body.allocations;
+  if (body.method === "manual" && !Array.isArray(allocations)) {
+    throw new HttpError(400, "手动分配需要提供 allocations");
+  }
+  return {
+    quantity: requireNumber(body, "quantity"),
+    sell_price: requireNumber(body, "sell_price"),
+    sell_date: requireDate(body, "sell_date"),
+    fee: requireNumber(body, "fee", { allowZero: true }),
+    notes: optionalText(body, "notes"),
+    tags: optionalTags(body, "tags"),
+    method: body.method as AllocatedSellInput["method"],
+    trade_ids: Array.isArray(tradeIds) ? tradeIds.map(Number) : undefined,
+    account_id: optionalId(body, "account_id"),
+    allocations: Array.isArray(allocations)
+      ? allocations.map(a => ({
+          trade_id: Number(a?.trade_id),
+          quantity: requireNumber(a ?? {}, "quantity", { allowZero: true }),
+        }))
+      : undefined,
+    currency: optionalCurrency(body),
+    fee_split: optionalFeeSplit(body),
+  };
+}
+
+export const tradesRouter = Router();
+
+tradesRouter.get("/trades", (_req, res) => {
+  res.json(listTrades());
+});
+
+tradesRouter.get("/trades/:id", (req, res) => {
+  res.json(getTrade(parseId(req.params.id)));
+});
+
+tradesRouter.get("/trades/:id/history", (req, res) => {
+  const id = parseId(req.params.id);
+  getTrade(id);
+  res.json(listTradeHistory(id));
+});
+
+tradesRouter.post("/trades", (req, res) => {
+  res.status(201).json(createTrade(parseTradeInput(req.body)));
+});
+
+tradesRouter.put("/trades/:id", (req, res) => {
+  res.json(updateTrade(parseId(req.params.id), parseTradeInput(req.body)));
+});
+
+tradesRouter.delete("/trades/:id", (req, res) => {
+  deleteTrade(parseId(req.params.id));
+  res.status(204).end();
+});
+
+tradesRouter.post("/trades/:id/sells", (req, res) => {
+  res.status(201).json(createSell(parseId(req.params.id), parseSellInput(req.body)));
+});
+
+tradesRouter.put("/trades/:id/sells/:sellId", (req, res) => {
+  res.json(updateSell(parseId(req.params.id), parseId(req.params.sellId), parseSellInput(req.body)));
+});
+
+tradesRouter.delete("/trades/:id/sells/:sellId", (req, res) => {
+  res.json(deleteSell(parseId(req.params.id), parseId(req.params.sellId)));
+});
+
+tradesRouter.delete("/trades/:id/batches/:batchId", (req, res) => {
+  res.json(deleteTradeBatchSells(parseId(req.params.id), req.params.batchId));
+});
+
+tradesRouter.post("/batch-sells", (req, res) => {
+  const batchId = createBatchSell(parseBatchSellInput(req.body));
+  res.status(201).json({ batch_id: batchId });
+});
+
+tradesRouter.post("/allocated-sells", (req, res) => {
+  const batchId = createAllocatedSell(parseAllocatedSellInput(req.body));
+  res.status(201).json({ batch_id: batchId });
+});
+
+tradesRouter.delete("/batch-sells/:batchId", (req, res) => {
+  deleteBatch(req.params.batchId);
+  res.status(204).end();
+});
@@ -0,0 +1,47 @@
+import { Router } from "express";
+import { parseId } from "../http.ts";
+import {
+  emptyTrash,
+  listTrash,
+  purgeSell,
+  purgeTrade,
+  restoreBatch,
+  restoreSell,
+  restoreTrade,
+} from "../trash.ts";
+
+export const trashRouter = Router();
+
+trashRouter.get("/trash", (_req, res) => {
+  res.json(listTrash());
+});
+
+trashRouter.post("/trash/trades/:id/restore", (req, res) => {
+  restoreTrade(parseId(req.params.id));
+  res.status(204).end();
+});
+
+trashRouter.post("/trash/sells/:id/restore", (req, res) => {
+  restoreSell(parseId(req.params.id));
+  res.status(204).end();
+});
+
+trashRouter.post("/trash/batches/:batchId/restore", (req, res) => {
+  restoreBatch(req.params.batchId);
+  res.status(204).end();
+});
+
+trashRouter.delete("/trash/trades/:id", (req, res) => {
+  purgeTrade(parseId(req.params.id));
+  res.status(204).end();
+});
+
+trashRouter.delete("/trash/sells/:id", (req, res) => {
+  purgeSell(parseId(req.params.id));
+  res.status(204).end();
+});
+
+trashRouter.delete("/trash", (_req, res) => {
+  emptyTrash();
+  res.status(204).end();
+});
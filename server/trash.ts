@@ -0,0 +1,121 @@
+import { db } from "./db.ts";
+import { HttpError } from "./http.ts";
+import { pruneAuditLog } from "./audit.ts";
+import { soldWeight, toSell, toTrade, type SellRow, type TradeRow } from "./ledger.ts";
+import { TRASH_RETENTION_DAYS, type TrashContents, type TrashedSell, type TrashedTrade } from "../src/types.ts";
+
+const EPSILON = 0.00001;
+
+// Permanently removes anything that has been in the trash longer than the retention period.
+export function purgeExpired() {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  db.transaction(() => {
+    db.prepare("DELETE FROM sells WHERE deleted_at < ?").run(cutoff);
+    db.prepare("DELETE FROM trades WHERE deleted_at < ?").run(cutoff);
+    pruneAuditLog();
+  })();
+}
+
+// Trashed trades carry the sells deleted together with them. Sells deleted on their own are
+// listed separately with their trade, which may itself be in the trash by now.
+export function listTrash(): TrashContents {
+  purgeExpired();
+  const tradeRows = db.prepare("SELECT * FROM trades WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC").all() as TradeRow[];
+  const sellRows = db
+    .prepare(
+      `SELECT s.*, t.deleted_at AS trade_deleted_at FROM sells s JOIN trades t ON t.id = s.trade_id
+       WHERE s.deleted_at IS NOT NULL ORDER BY s.deleted_at DESC`
+    )
+    .all() as (SellRow & { trade_deleted_at: string | null })[];
+  const tradesById = new Map(
+    (db.prepare("SELECT * FROM trades WHERE id IN (SELECT trade_id FROM sells WHERE deleted_at IS NOT NULL)").all() as TradeRow[])
+      .map(t => [t.id, t])
+  );
+
+  const trades: TrashedTrade[] = tradeRows.map(row => ({
+    ...toTrade(
+      row,
+      sellRows
+        .filter(s => s.trade_id === row.id && s.deleted_at === row.deleted_at)
+        .map(({ trade_deleted_at, ...sell }) => toSell(sell))
+    ),
+    deleted_at: row.deleted_at!,
+  }));
+  const sells: TrashedSell[] = sellRows
+    .filter(s => s.deleted_at !== s.trade_deleted_at)
+    .map(({ trade_deleted_at, ...row }) => ({
+      ...toSell(row),
+      deleted_at: row.deleted_at!,
+      trade: toTrade(tradesById.get(row.trade_id)!, []),
+      trade_deleted: trade_deleted_at !== null,
+    }));
+
+  return { trades, sells };
+}
+
+export const restoreTrade = db.transaction((id: number) => {
+  const row = db.prepare("SELECT deleted_at FROM trades WHERE id = ? AND deleted_at IS NOT NULL").get(id) as
+    | { deleted_at: string }
+    | undefined;
+  if (!row) {
+    throw new HttpError(404, "回收站中没有该买入记录");
+  }
+  db.prepare("UPDATE sells SET deleted_at = NULL WHERE trade_id = ? AND deleted_at = ?").run(id, row.deleted_at);
+  db.prepare("UPDATE trades SET deleted_at = NULL WHERE id = ?").run(id);
+});
+
+export const restoreSell = db.transaction((id: number) => {
+  const sell = db
+    .prepare(
+      `SELECT s.trade_id, s.quantity, t.quantity AS trade_quantity, t.deleted_at AS trade_deleted_at
+       FROM sells s JOIN trades t ON t.id = s.trade_id WHERE s.id = ? AND s.deleted_at IS NOT NULL`
+    )
+    .get(id) as { trade_id: number; quantity: number; trade_quantity: number; trade_deleted_at: string | null } | undefined;
+  if (!sell) {
+    throw new HttpError(404, "回收站中没有该卖出记录");
+  }
+  if (sell.trade_deleted_at !== null) {
+    throw new HttpError(400, "所属买入记录已删除，请先恢复买入记录");
+  }
+  if (sell.quantity > sell.trade_quantity - soldWeight(sell.trade_id) + EPSILON) {
+    throw new HttpError(400, "恢复后卖出数量将超过剩余持仓");
+  }
+  db.prepare("UPDATE sells SET deleted_at = NULL WHERE id = ?").run(id);
+});
+
+// Restores every trashed trade and sell of a batch, which puts the batch card back together.
+export const restoreBatch = db.transaction((batchId: string) => {
+  const tradeIds = db
+    .prepare(
+      `SELECT DISTINCT t.id FROM trades t JOIN sells s ON s.trade_id = t.id
+       WHERE s.batch_id = ? AND s.deleted_at = t.deleted_at`
+    )
+    .all(batchId) as { id: number }[];
+  tradeIds.forEach(t => restoreTrade(t.id));
+  const sellIds = db.prepare("SELECT id FROM sells WHERE batch_id = ? AND deleted_at IS NOT NULL").all(batchId) as { id: number }[];
+  if (tradeIds.length === 0 && sellIds.length === 0) {
+    throw new HttpError(404, "回收站中没有该合并卖出记录");
+  }
+  sellIds.forEach(s => restoreSell(s.id));
+});
+
+export function purgeTrade(id: number) {
+  const result = db.prepare("DELETE FROM trades WHERE id = ? AND deleted_at IS NOT NULL").run(id);
+  if (result.changes === 0) {
+    throw new HttpError(404, "回收站中没有该买入记录");
+  }
+  pruneAuditLog();
+}
+
+export function purgeSell(id: number) {
+  const result = db.prepare("DELETE FROM sells WHERE id = ? AND deleted_at IS NOT NULL").run(id);
+  if (result.changes === 0) {
+    throw new HttpError(404, "回收站中没有该卖出记录");
+  }
+}
+
+export const emptyTrash = db.transaction(() => {
+  db.prepare("DELETE FROM sells WHERE deleted_at IS NOT NULL").run();
+  db.prepare("DELETE FROM trades WHERE deleted_at IS NOT NULL").run();
+  pruneAuditLog();
+});
@@ -16,7 +16,20 @@ import {
   Square,
   Layers,
   Search,
-  ChevronLeft
+  ChevronLeft,
+  FileSpreadsheet,
+  DatabaseBackup,
+  Percent,
+  Undo2,
+  Redo2,
+  Wallet,
+  Settings2,
+  Bell,
+  Calculator,
+  BarChart3,
+  FileText,
+  ArrowUpDown,
+  SlidersHorizontal
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { 
@@ -35,36 +48,77 @@ import {
   LabelList
 } from 'recharts';
 import { format } from 'date-fns';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
-
-// Utility for tailwind classes
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
-
-interface Sell {
-  id: number;
-  trade_id: number;
-  sell_price: number;
-  quantity: number;
-  sell_date: string;
-  fee: number;
-  notes: string | null;
-  batch_id?: string; // Added for grouping batch sells
-}
-
-interface Trade {
-  id: number;
-  buy_price: number;
-  quantity: number;
-  buy_date: string;
-  notes: string | null;
-  sells: Sell[];
-}
+import { api } from './api.ts';
+import { cn } from './utils.ts';
+import { requestNotificationPermission, useAlertNotifications, usePersistentState, usePriceQuote, useUndoHistory, useUrlState } from './hooks.ts';
+import { breakEvenPrice, effectiveCost, estimateSellFee, holdingDays, remainingWeight, unrealizedProfit } from './ledger.ts';
+import { daysHeld, portfolioCashFlows, realizedReturn, returnMetrics, weightedDays, xirr, type ReturnMetrics } from './returns.ts';
+import { allocateSell, COST_METHOD_LABELS, openLots, replayCostBasis, validateManualAllocations } from './costBasis.ts';
+import { reachedLotLevels } from './alerts.ts';
+import { monthlyActivity } from './statements.ts';
+import { knownTags, normalizeTags } from './tags.ts';
+import {
+  clearFilters,
+  DEFAULT_LIST_FILTERS,
+  hasActiveFilters,
+  inDateRange,
+  inRange,
+  LIST_SORT_LABELS,
+  LIST_STATUS_LABELS,
+  matchesQuantity,
+  matchesSearch,
+  matchesTag,
+  type ListFilters,
+  type ListSortKey,
+  type ListStatus
+} from './listFilters.ts';
+import { readLegacyLedger } from './legacyLedger.ts';
+import { LedgerMigrationModal } from './components/LedgerMigrationModal.tsx';
+import { CsvImportWizard } from './components/CsvImportWizard.tsx';
+import { ExportMenu } from './components/ExportMenu.tsx';
+import { BackupModal } from './components/BackupModal.tsx';
+import { PriceTicker } from './components/PriceTicker.tsx';
+import { PriceHistoryChart } from './components/PriceHistoryChart.tsx';
+import { PortfolioSellModal } from './components/PortfolioSellModal.tsx';
+import { BatchAllocation, type BatchAllocationMode } from './components/BatchAllocation.tsx';
+import { FeeSettingsModal } from './components/FeeSettingsModal.tsx';
+import { FeeInput } from './components/FeeInput.tsx';
+import { UndoToast } from './components/UndoToast.tsx';
+import { TrashModal } from './components/TrashModal.tsx';
+import { TradeHistory } from './components/TradeHistory.tsx';
+import { AccountsModal } from './components/AccountsModal.tsx';
+import { FxRatesModal } from './components/FxRatesModal.tsx';
+import { PriceAlertsModal } from './components/PriceAlertsModal.tsx';
+import { AlertToasts } from './components/AlertToasts.tsx';
+import { TargetProfitCalculator } from './components/TargetProfitCalculator.tsx';
+import { TagChip, TagPicker } from './components/TagPicker.tsx';
+import { AnalyticsModal } from './components/AnalyticsModal.tsx';
+import { StatementModal } from './components/StatementModal.tsx';
+import { computeFee, DEFAULT_FEE_PLATFORMS } from './fees.ts';
+import { createFx, CURRENCIES, currenciesWithoutRates, DEFAULT_CURRENCY, type Fx } from './currencies.ts';
+import { baseUnit, DEFAULT_INSTRUMENT, INSTRUMENTS, toBaseQuantity, unitFactor, UNITS } from './instruments.ts';
+import {
+  DEFAULT_ACCOUNT_ID,
+  type Account,
+  type CostMethod,
+  type Currency,
+  type FeeSplit,
+  type FxRate,
+  type Instrument,
+  type PriceAlert,
+  type Sell,
+  type Trade,
+  type WeightUnit
+} from './types.ts';
 
 export default function App() {
   const [trades, setTrades] = useState<Trade[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [isAccountsOpen, setIsAccountsOpen] = useState(false);
+  // 'all' shows every account with combined totals
+  const [accountView, setAccountView] = usePersistentState('gold_account', { id: 'all' as number | 'all' });
+  // Holdings of different instruments can't be added up, so the ledger shows one at a time
+  const [instrumentView, setInstrumentView] = usePersistentState('gold_instrument', { id: DEFAULT_INSTRUMENT as Instrument });
   const [isAdding, setIsAdding] = useState(false);
   const [sellingTradeId, setSellingTradeId] = useState<number | null>(null);
   const [selectedTradeIds, setSelectedTradeIds] = useState<number[]>([]);
@@ -72,10 +126,59 @@ export default function App() {
   const [editingTrade, setEditingTrade] = useState<Trade | null>(null);
   const [editingSell, setEditingSell] = useState<{ sell: Sell, tradeId: number } | null>(null);
   const [loading, setLoading] = useState(true);
+  const [legacyLedger, setLegacyLedger] = useState<unknown[] | null>(null);
+  const [isImportingCsv, setIsImportingCsv] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isFeeSettingsOpen, setIsFeeSettingsOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [fxRates, setFxRates] = useState<FxRate[]>([]);
+  const [isFxRatesOpen, setIsFxRatesOpen] = useState(false);
+  const [isAnalyticsOpen, setIsAnalyticsOpen] = useState(false);
+  const [isStatementOpen, setIsStatementOpen] = useState(false);
+  const [priceAlerts, setPriceAlerts] = useState<PriceAlert[]>([]);
+  const [isAlertsOpen, setIsAlertsOpen] = useState(false);
+  const alertNotifications = useAlertNotifications();
+  // The top-level fields value gold (the only instrument the feed quotes); `others` holds the
+  // manual prices of every other instrument, per its base unit.
+  const [valuation, setValuation] = usePersistentState('gold_valuation', {
+    price: '',
+    feeRate: '0',
+    auto: false,
+    others: {} as Partial<Record<Instrument, { price: string, feeRate: string }>>
+  });
+  // While the manual price is being typed its value is only partly entered
+  const [isEditingPrice, setIsEditingPrice] = useState(false);
+  const { quote, error: quoteError } = usePriceQuote();
+  // Totals, the price inputs and exports are in the base currency
+  const [settings, setSettings] = usePersistentState('gold_settings', {
+    costMethod: 'specific' as CostMethod,
+    baseCurrency: DEFAULT_CURRENCY as Currency
+  });
+  const fx = useMemo(() => createFx(fxRates, settings.baseCurrency), [fxRates, settings.baseCurrency]);
+  const baseSymbol = CURRENCIES[settings.baseCurrency].symbol;
+  const [feeSettings, setFeeSettings] = usePersistentState('gold_fees', {
+    platforms: DEFAULT_FEE_PLATFORMS,
+    activeId: DEFAULT_FEE_PLATFORMS[0].id,
+    split: 'grams' as FeeSplit
+  });
+  const feePlatform = feeSettings.platforms.find(p => p.id === feeSettings.activeId) ?? feeSettings.platforms[0];
+  const activeAccount = accounts.find(a => a.id === accountView.id) ?? null;
+  // Where new trades and CSV imports go when no single account is selected
+  const defaultAccount = activeAccount ?? accounts.find(a => a.id === DEFAULT_ACCOUNT_ID) ?? accounts[0] ?? null;
+  // Accounts without a platform of their own use the default one from the fee settings
+  const platformFor = (accountId: number | undefined) => {
+    const platformId = accounts.find(a => a.id === accountId)?.platform_id;
+    return feeSettings.platforms.find(p => p.id === platformId) ?? feePlatform;
+  };
+  // Selling by holdings allocates within one account: the selected one, or the only one there is
+  const portfolioAccount = activeAccount ?? (accounts.length === 1 ? accounts[0] : null);
+  const [isPortfolioSelling, setIsPortfolioSelling] = useState(false);
   const [isChartVisible, setIsChartVisible] = useState(true);
-  const [chartType, setChartType] = useState<'trend' | 'monthly'>('monthly');
-  const [filterQuantity, setFilterQuantity] = useState('');
-  const [filterDate, setFilterDate] = useState('');
+  const [chartType, setChartType] = useState<'trend' | 'monthly' | 'price'>('monthly');
+  const [filters, setFilters] = useUrlState(DEFAULT_LIST_FILTERS);
+  const [showMoreFilters, setShowMoreFilters] = useState(false);
+  const isFiltered = hasActiveFilters(filters);
+  const updateFilters = (patch: Partial<ListFilters>) => setFilters(prev => ({ ...prev, ...patch }));
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
   
@@ -103,107 +206,197 @@ export default function App() {
     });
   };
 
+  // Like the sell form, the buy fee follows the active platform's buy rule until overridden.
   const [formData, setFormData] = useState({
+    account_id: DEFAULT_ACCOUNT_ID,
+    instrument: DEFAULT_INSTRUMENT as Instrument,
+    unit: baseUnit(DEFAULT_INSTRUMENT) as WeightUnit,
+    currency: DEFAULT_CURRENCY as Currency,
     buy_price: '',
     quantity: '',
     buy_date: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
-    notes: ''
+    buy_fee: '',
+    feeAuto: true,
+    spread: '',
+    premium: '',
+    target_price: '',
+    stop_price: '',
+    notes: '',
+    tags: [] as string[]
   });
   
+  // While feeAuto is set the fee follows the active platform's sell rule instead of `fee`.
+  // The currency starts out as the lot's own whenever a sell form opens
   const [sellFormData, setSellFormData] = useState({
     sell_price: '',
     quantity: '',
     sell_date: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
-    fee: '0',
-    notes: ''
+    fee: '',
+    feeAuto: true,
+    currency: DEFAULT_CURRENCY as Currency,
+    notes: '',
+    tags: [] as string[]
   });
+  const [batchMode, setBatchMode] = useState<BatchAllocationMode>('fifo');
+  const [manualAllocations, setManualAllocations] = useState<Record<number, string>>({});
 
-  // Load from localStorage
+  // Load from server
   useEffect(() => {
-    const saved = localStorage.getItem('gold_trades_v2');
-    if (saved) {
-      try {
-        setTrades(JSON.parse(saved));
-      } catch (e) {
-        console.error('Failed to parse saved trades', e);
-      }
-    }
-    setLoading(false);
+    Promise.all([api.listTrades(), api.listAccounts(), api.listFxRates()])
+      .then(([trades, accounts, fxRates]) => {
+        setTrades(trades);
+        setAccounts(accounts);
+        setFxRates(fxRates);
+      })
+      .catch(e => alert(`加载交易记录失败: ${e.message}`))
+      .finally(() => setLoading(false));
+    // Offer to upload a ledger left over from the localStorage-only days
+    setLegacyLedger(readLegacyLedger());
   }, []);
 
-  // Sync to localStorage
   useEffect(() => {
-    if (!loading) {
-      localStorage.setItem('gold_trades_v2', JSON.stringify(trades));
-    }
-  }, [trades, loading]);
+    setCurrentPage(1);
+  }, [filters, accountView.id, instrumentView.id]);
 
+  // A batch sell never spans accounts or instruments, so switching either drops the selection
   useEffect(() => {
-    setCurrentPage(1);
-  }, [filterQuantity, filterDate]);
+    setSelectedTradeIds([]);
+  }, [accountView.id, instrumentView.id]);
+
+  // The price history only covers gold
+  useEffect(() => {
+    if (instrumentView.id !== 'Au') setChartType(prev => prev === 'price' ? 'monthly' : prev);
+  }, [instrumentView.id]);
+
+  const reloadAccounts = () => api.listAccounts()
+    .then(setAccounts)
+    .catch(e => alert(`加载账户失败: ${e.message}`));
+
+  const reloadFxRates = () => api.listFxRates()
+    .then(setFxRates)
+    .catch(e => alert(`加载汇率失败: ${e.message}`));
+
+  const reloadPriceAlerts = () => api.listPriceAlerts()
+    .then(setPriceAlerts)
+    .catch(e => alert(`加载价格提醒失败: ${e.message}`));
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const reloadTrades = async () => {
+    setTrades(await api.listTrades());
+  };
+  const history = useUndoHistory(reloadTrades);
+  const [undoToast, setUndoToast] = useState<string | null>(null);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; form fields keep their native undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || target.closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [history]);
+
+  // Ledger changes made outside `mutate` (imports, restores) can't be replayed safely
+  const reloadAfterExternalChange = () => {
+    history.clear();
+    reloadTrades();
+    reloadAccounts();
+    reloadFxRates();
+  };
+
+  // Runs a server mutation, reloads the ledger and records the change on the undo stack.
+  // `toast` offers a one-click undo afterwards. Returns false if the server rejected it.
+  const mutate = async (label: string, action: () => Promise<unknown>, { toast }: { toast?: string } = {}) => {
+    try {
+      await action();
+      const next = await api.listTrades();
+      history.record(label, trades, next);
+      setTrades(next);
+      setUndoToast(toast ?? null);
+      return true;
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+      return false;
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const newTradeData = {
+      account_id: formData.account_id,
+      instrument: formData.instrument,
+      unit: formData.unit,
+      currency: formData.currency,
       buy_price: parseFloat(formData.buy_price),
       quantity: parseFloat(formData.quantity),
       buy_date: formData.buy_date,
-      notes: formData.notes || null
+      buy_fee: buyFee,
+      spread: parseFloat(formData.spread) || 0,
+      premium: parseFloat(formData.premium) || 0,
+      target_price: parseFloat(formData.target_price) || null,
+      stop_price: parseFloat(formData.stop_price) || null,
+      notes: formData.notes || null,
+      tags: formData.tags
     };
-
-    if (editingTrade) {
-      setTrades(prev => prev.map(t => t.id === editingTrade.id ? { ...t, ...newTradeData } : t));
-      setEditingTrade(null);
-    } else {
-      const newTrade: Trade = {
-        id: Date.now(),
-        ...newTradeData,
-        sells: []
-      };
-      setTrades(prev => [newTrade, ...prev]);
+    if (newTradeData.target_price !== null || newTradeData.stop_price !== null) {
+      requestNotificationPermission();
     }
 
+    const ok = await mutate(editingTrade ? '编辑买入记录' : '新增买入记录', () => editingTrade
+      ? api.updateTrade(editingTrade.id, newTradeData)
+      : api.createTrade(newTradeData)
+    );
+    if (!ok) return;
+
+    setEditingTrade(null);
     setIsAdding(false);
+    setInstrumentView({ id: formData.instrument });
     setFormData({
+      account_id: formData.account_id,
+      instrument: formData.instrument,
+      unit: formData.unit,
+      currency: formData.currency,
       buy_price: '',
       quantity: '',
       buy_date: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
-      notes: ''
+      buy_fee: '',
+      feeAuto: true,
+      spread: '',
+      premium: '',
+      target_price: '',
+      stop_price: '',
+      notes: '',
+      tags: []
     });
   };
 
-  const handleSellSubmit = (e: React.FormEvent) => {
+  const handleSellSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (isBatchSelling) {
-      const sellPrice = parseFloat(sellFormData.sell_price);
-      const sellDate = sellFormData.sell_date;
-      const totalFee = parseFloat(sellFormData.fee);
-      const notes = sellFormData.notes || null;
-      const batchId = `batch-${Date.now()}`;
-
-      const feePerTrade = totalFee / selectedTradeIds.length;
-
-      setTrades(prev => prev.map(t => {
-        if (selectedTradeIds.includes(t.id)) {
-          const soldWeight = t.sells.reduce((acc, s) => acc + s.quantity, 0);
-          const remaining = t.quantity - soldWeight;
-          if (remaining <= 0) return t;
-
-          const newSell: Sell = {
-            id: Date.now() + Math.random(),
-            trade_id: t.id,
-            sell_price: sellPrice,
-            quantity: remaining,
-            sell_date: sellDate,
-            fee: feePerTrade,
-            notes: notes,
-            batch_id: batchId
-          };
-          return { ...t, sells: [newSell, ...t.sells] };
-        }
-        return t;
+      if (batchPreview.error || batchPreview.allocations.length === 0) return;
+      const ok = await mutate('合并卖出', () => api.createAllocatedSell({
+        trade_ids: selectedTradeIds,
+        quantity: batchQuantity,
+        sell_price: parseFloat(sellFormData.sell_price),
+        sell_date: sellFormData.sell_date,
+        fee: sellFee,
+        notes: sellFormData.notes || null,
+        tags: sellFormData.tags,
+        currency: sellFormData.currency,
+        method: batchMode,
+        allocations: batchMode === 'manual' ? batchPreview.allocations : undefined,
+        fee_split: feeSettings.split
       }));
+      if (!ok) return;
 
       setIsBatchSelling(false);
       setSelectedTradeIds([]);
@@ -215,8 +408,10 @@ export default function App() {
         sell_price: parseFloat(sellFormData.sell_price),
         quantity: parseFloat(sellFormData.quantity),
         sell_date: sellFormData.sell_date,
-        fee: parseFloat(sellFormData.fee),
-        notes: sellFormData.notes || null
+        fee: sellFee,
+        currency: sellFormData.currency,
+        notes: sellFormData.notes || null,
+        tags: sellFormData.tags
       };
 
       const trade = trades.find(t => t.id === tradeId);
@@ -230,21 +425,13 @@ export default function App() {
         return;
       }
 
-      if (editingSell) {
-        setTrades(prev => prev.map(t => t.id === tradeId ? {
-          ...t,
-          sells: t.sells.map(s => s.id === editingSell.sell.id ? { ...s, ...sellData } : s)
-        } : t));
-        setEditingSell(null);
-      } else {
-        const newSell: Sell = {
-          id: Date.now(),
-          trade_id: tradeId,
-          ...sellData
-        };
-        setTrades(prev => prev.map(t => t.id === tradeId ? { ...t, sells: [newSell, ...t.sells] } : t));
-      }
+      const ok = await mutate(editingSell ? '编辑卖出记录' : '新增卖出记录', () => editingSell
+        ? api.updateSell(tradeId, editingSell.sell.id, sellData)
+        : api.createSell(tradeId, sellData)
+      );
+      if (!ok) return;
 
+      setEditingSell(null);
       setSellingTradeId(null);
     }
 
@@ -252,43 +439,66 @@ export default function App() {
       sell_price: '',
       quantity: '',
       sell_date: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
-      fee: '0',
-      notes: ''
+      fee: '',
+      feeAuto: true,
+      currency: sellFormData.currency,
+      notes: '',
+      tags: []
     });
   };
 
   const toggleSelection = (id: number) => {
+    const tradeOf = (tradeId: number) => trades.find(t => t.id === tradeId);
+    const adding = !selectedTradeIds.includes(id);
+    if (adding && selectedTradeIds.some(i => tradeOf(i)?.account_id !== tradeOf(id)?.account_id)) {
+      alert('合并卖出不能混合不同账户的持仓');
+      return;
+    }
+    if (adding && selectedTradeIds.some(i => tradeOf(i)?.instrument !== tradeOf(id)?.instrument || tradeOf(i)?.unit !== tradeOf(id)?.unit)) {
+      alert('合并卖出不能混合不同品种或单位的持仓');
+      return;
+    }
+    if (adding && selectedTradeIds.some(i => tradeOf(i)?.currency !== tradeOf(id)?.currency)) {
+      alert('合并卖出不能混合不同币种的持仓');
+      return;
+    }
     setSelectedTradeIds(prev => 
       prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]
     );
   };
 
-  const handleDelete = (id: number) => {
-    setTrades(prev => prev.filter(t => t.id !== id));
-    setSelectedTradeIds(prev => prev.filter(i => i !== id));
+  const handleDelete = async (id: number) => {
+    if (await mutate('删除买入记录', () => api.deleteTrade(id), { toast: '已删除买入记录' })) {
+      setSelectedTradeIds(prev => prev.filter(i => i !== id));
+    }
   };
 
   const handleDeleteSell = (tradeId: number, sellId: number) => {
-    setTrades(prev => prev.map(t => t.id === tradeId ? {
-      ...t,
-      sells: t.sells.filter(s => s.id !== sellId)
-    } : t));
+    mutate('删除卖出记录', () => api.deleteSell(tradeId, sellId), { toast: '已删除卖出记录' });
   };
 
-  const handleDeleteBatchSell = (tradeId: number, sellIds: number[]) => {
-    setTrades(prev => prev.map(t => t.id === tradeId ? {
-      ...t,
-      sells: t.sells.filter(s => !sellIds.includes(s.id))
-    } : t));
+  const handleDeleteBatchSell = (tradeId: number, batchId: string) => {
+    mutate('删除合并卖出', () => api.deleteTradeBatchSells(tradeId, batchId), { toast: '已删除合并卖出' });
   };
 
   const startEditTrade = (trade: Trade) => {
     setEditingTrade(trade);
     setFormData({
+      account_id: trade.account_id,
+      instrument: trade.instrument,
+      unit: trade.unit,
+      currency: trade.currency,
       buy_price: trade.buy_price.toString(),
       quantity: trade.quantity.toString(),
       buy_date: trade.buy_date,
-      notes: trade.notes || ''
+      buy_fee: trade.buy_fee.toString(),
+      feeAuto: false,
+      spread: trade.spread ? trade.spread.toString() : '',
+      premium: trade.premium ? trade.premium.toString() : '',
+      target_price: trade.target_price?.toString() ?? '',
+      stop_price: trade.stop_price?.toString() ?? '',
+      notes: trade.notes || '',
+      tags: trade.tags
     });
     setIsAdding(true);
   };
@@ -300,39 +510,134 @@ export default function App() {
       quantity: sell.quantity.toString(),
       sell_date: sell.sell_date,
       fee: sell.fee.toString(),
-      notes: sell.notes || ''
+      feeAuto: false,
+      currency: sell.currency,
+      notes: sell.notes || '',
+      tags: sell.tags
     });
   };
 
+  const isGoldView = instrumentView.id === 'Au';
+  const viewUnit = UNITS[baseUnit(instrumentView.id)];
+  const instrumentValuation = isGoldView
+    ? valuation
+    : { price: '', feeRate: '0', ...valuation.others[instrumentView.id], auto: false };
+  const updateValuation = (patch: { price?: string, feeRate?: string, auto?: boolean }) => setValuation(prev => isGoldView
+    ? { ...prev, ...patch }
+    : { ...prev, others: { ...prev.others, [instrumentView.id]: { price: instrumentValuation.price, feeRate: instrumentValuation.feeRate, ...patch } } });
+
+  // Current price per base unit in the base currency used to value open lots: the feed quote
+  // (in yuan) in auto mode (gold only), otherwise the manually entered price. null until either
+  // is available.
+  const feedPrice = quote ? fx.convert(quote.price, DEFAULT_CURRENCY, fx.base, new Date().toISOString()) : null;
+  const manualPrice = parseFloat(instrumentValuation.price) > 0 ? parseFloat(instrumentValuation.price) : null;
+  const currentPrice = instrumentValuation.auto ? feedPrice : manualPrice;
+  const sellFeeRate = (parseFloat(instrumentValuation.feeRate) || 0) / 100;
+
+  // The server checks the gold feed by itself; a manually entered price is reported to it (in
+  // yuan) so the same alerts fire, once the field is committed. Checking as it is typed could
+  // fire a level on the way to the real price ("5" before "580"), and alerts only fire once.
+  // Ledger changes re-check, since a new target or stop may already be reached.
+  useEffect(() => {
+    if (instrumentValuation.auto || manualPrice === null || isEditingPrice) return;
+    const yuan = fx.convert(manualPrice, fx.base, DEFAULT_CURRENCY, new Date().toISOString());
+    api.checkPriceAlerts(instrumentView.id, yuan)
+      .then(events => {
+        alertNotifications.show(events);
+        if (events.some(e => e.alert_id !== null)) reloadPriceAlerts();
+      })
+      .catch(e => console.error(e));
+  }, [manualPrice, isEditingPrice, instrumentValuation.auto, instrumentView.id, fx, trades]);
+
+  // The selected account's trades, or every trade in the combined view
+  const accountTrades = useMemo(
+    () => activeAccount ? trades.filter(t => t.account_id === activeAccount.id) : trades,
+    [trades, activeAccount]
+  );
+  const visibleTrades = useMemo(
+    () => accountTrades.filter(t => t.instrument === instrumentView.id),
+    [accountTrades, instrumentView.id]
+  );
+  // Tags offered in the pickers and the tag filter, across every account and instrument
+  const tagSuggestions = useMemo(() => knownTags(trades), [trades]);
+  // Tabs for every instrument in the ledger, plus the one being viewed even if it has no trades yet
+  const ledgerInstruments = (Object.keys(INSTRUMENTS) as Instrument[])
+    .filter(i => i === instrumentView.id || trades.some(t => t.instrument === i));
+
+  // Realized profit per sell and the cost of open holdings under the chosen cost method
+  const costBasis = useMemo(
+    () => replayCostBasis(visibleTrades, settings.costMethod, fx),
+    [visibleTrades, settings.costMethod, fx]
+  );
+  // Foreign-currency lots without any rate are valued 1:1, which is worth pointing out
+  const missingRates = currenciesWithoutRates(trades.map(t => t.currency), fxRates);
+  const hasForeignCurrency = visibleTrades.some(t => t.currency !== fx.base);
+
   const stats = useMemo(() => {
     let totalProfit = 0;
+    let fxProfit = 0;
     let activeWeight = 0;
+    // Cost of what was sold under the cost method: net proceeds less the realized profit
+    let realizedCost = 0;
+    const soldDays: { days: number, quantity: number }[] = [];
+    const openDays: { days: number, quantity: number }[] = [];
 
-    trades.forEach(t => {
+    visibleTrades.forEach(t => {
       const soldWeight = t.sells.reduce((acc, s) => acc + s.quantity, 0);
-      activeWeight += (t.quantity - soldWeight);
+      activeWeight += toBaseQuantity(t.quantity - soldWeight, t.unit);
+      openDays.push({ days: daysHeld(t), quantity: toBaseQuantity(t.quantity - soldWeight, t.unit) });
       
       t.sells.forEach(s => {
-        const profit = (s.sell_price - t.buy_price) * s.quantity - s.fee;
+        const profit = costBasis.profits.get(s.id) ?? 0;
         totalProfit += profit;
+        fxProfit += costBasis.fxProfits.get(s.id) ?? 0;
+        realizedCost += fx.convert(s.sell_price * s.quantity - s.fee, s.currency, fx.base, s.sell_date) - profit;
+        soldDays.push({ days: holdingDays(t, s), quantity: toBaseQuantity(s.quantity, t.unit) });
       });
     });
-    
+
+    const valued = currentPrice !== null;
+    const unrealized = valued
+      ? currentPrice * activeWeight - costBasis.openCost - estimateSellFee(currentPrice, activeWeight, sellFeeRate)
+      : 0;
+    const realizedDays = weightedDays(soldDays);
     return {
       totalProfit,
-      activeWeight
+      fxProfit,
+      activeWeight,
+      realizedReturn: returnMetrics(totalProfit, realizedCost, realizedDays),
+      openDays: weightedDays(openDays),
+      marketValue: valued ? currentPrice * activeWeight : null,
+      estimatedFee: valued ? estimateSellFee(currentPrice, activeWeight, sellFeeRate) : null,
+      unrealizedProfit: valued ? unrealized : null,
+      combinedProfit: valued ? totalProfit + unrealized : null
     };
-  }, [trades]);
+  }, [visibleTrades, costBasis, currentPrice, sellFeeRate, fx]);
+
+  // Money-weighted return of every buy and sell, with open holdings cashed out at today's value
+  // after the estimated sell fee. Without a price the open lots can't be valued, so there is none.
+  const portfolioXirr = useMemo(() => {
+    const flows = portfolioCashFlows(visibleTrades, fx);
+    if (stats.activeWeight > 0.0001) {
+      if (stats.marketValue === null || stats.estimatedFee === null) return null;
+      flows.push({ amount: stats.marketValue - stats.estimatedFee, date: new Date().toISOString() });
+    }
+    return xirr(flows);
+  }, [visibleTrades, fx, stats]);
 
   const displayItems = useMemo(() => {
-    const batches: Record<string, { id: string, trades: Trade[], batchDate: string, sellPrice: number, totalProfit: number, totalFee: number, totalQuantity: number, buyPrice: number }> = {};
+    const batches: Record<string, { id: string, trades: Trade[], batchDate: string, sellPrice: number, sellCurrency: Currency, totalProfit: number, totalFee: number, totalQuantity: number, buyPrice: number }> = {};
     const standaloneTrades: Trade[] = [];
 
-    trades.forEach(trade => {
-      // Find if this trade was sold in a batch
+    visibleTrades.forEach(trade => {
+      // Find if this trade was sold out in a single batch. Lots only partly sold in a batch
+      // (allocated sells) stay standalone and show the batch inside their sell list.
       const batchSell = trade.sells.find(s => s.batch_id);
+      const soldOutInBatch = batchSell
+        && remainingWeight(trade) < 0.0001
+        && trade.sells.every(s => s.batch_id === batchSell.batch_id);
       
-      if (batchSell && batchSell.batch_id) {
+      if (soldOutInBatch && batchSell.batch_id) {
         const bId = batchSell.batch_id;
         if (!batches[bId]) {
           batches[bId] = {
@@ -340,10 +645,11 @@ export default function App() {
             trades: [],
             batchDate: batchSell.sell_date,
             sellPrice: batchSell.sell_price,
+            sellCurrency: batchSell.currency,
             totalProfit: 0,
             totalFee: 0,
             totalQuantity: 0,
-            buyPrice: 0 // Weighted average buy price
+            buyPrice: 0 // Weighted average effective cost per gram
           };
         }
         batches[bId].trades.push(trade);
@@ -357,10 +663,10 @@ export default function App() {
     Object.values(batches).forEach(batch => {
       let totalBuyCost = 0;
       batch.trades.forEach(t => {
-        totalBuyCost += t.buy_price * t.quantity;
+        totalBuyCost += effectiveCost(t) * t.quantity;
         t.sells.forEach(s => {
           if (s.batch_id === batch.id) {
-            batch.totalProfit += (s.sell_price - t.buy_price) * s.quantity - s.fee;
+            batch.totalProfit += costBasis.profits.get(s.id) ?? 0;
             batch.totalFee += s.fee;
           }
         });
@@ -394,37 +700,53 @@ export default function App() {
     ];
 
     // Apply Filters
-    if (filterQuantity) {
-      const q = parseFloat(filterQuantity);
-      if (!isNaN(q)) {
-        items = items.filter(item => {
-          if (item.type === 'trade') {
-            return Math.abs(item.data.quantity - q) < 0.001;
-          } else {
-            return Math.abs(item.data.totalQuantity - q) < 0.001;
-          }
-        });
-      }
-    }
-
-    if (filterDate) {
-      items = items.filter(item => {
-        if (item.type === 'trade') {
-          return item.data.buy_date.startsWith(filterDate);
-        } else {
-          return item.data.trades.some(t => t.buy_date.startsWith(filterDate));
-        }
-      });
-    }
+    const itemTrades = (item: typeof items[number]) => item.type === 'trade' ? [item.data] : item.data.trades;
+    const itemSells = (item: typeof items[number]) => item.type === 'trade'
+      ? item.data.sells
+      : item.data.trades.flatMap(t => t.sells.filter(s => s.batch_id === item.data.id));
+    const itemQuantity = (item: typeof items[number]) => item.type === 'trade' ? item.data.quantity : item.data.totalQuantity;
+    const itemPrice = (item: typeof items[number]) => item.type === 'trade' ? item.data.buy_price : item.data.buyPrice;
+    const itemProfit = (item: typeof items[number]) => itemSells(item).reduce((acc, s) => acc + (costBasis.profits.get(s.id) ?? 0), 0);
+    const status = filters.status as ListStatus;
+
+    items = items.filter(item => {
+      const sells = itemSells(item);
+      return matchesQuantity(itemQuantity(item), filters.quantity)
+        && (!(filters.buyFrom || filters.buyTo) || itemTrades(item).some(t => inDateRange(t.buy_date, filters.buyFrom, filters.buyTo)))
+        && (!(filters.sellFrom || filters.sellTo) || sells.some(s => inDateRange(s.sell_date, filters.sellFrom, filters.sellTo)))
+        && inRange(itemPrice(item), filters.priceMin, filters.priceMax)
+        && (!(filters.profitMin || filters.profitMax) || (sells.length > 0 && inRange(itemProfit(item), filters.profitMin, filters.profitMax)))
+        && (status !== 'open' || !item.isFullySold)
+        && (status !== 'closed' || item.isFullySold)
+        && (status !== 'batch' || sells.some(s => s.batch_id))
+        && matchesSearch(itemTrades(item).flatMap(t => [t.notes, ...t.sells.map(s => s.notes)]), filters.search)
+        && matchesTag(itemTrades(item).flatMap(t => [...t.tags, ...t.sells.flatMap(s => s.tags)]), filters.tag);
+    });
 
-    // Sort: Unsold first, then by timestamp desc
+    // Sort: by default unsold first, then by latest activity, newest first
+    const sortValue: Record<Exclude<ListSortKey, 'default'>, (item: typeof items[number]) => number> = {
+      buy_date: item => item.buyTimestamp,
+      sell_date: item => item.timestamp,
+      quantity: itemQuantity,
+      price: itemPrice,
+      profit: itemProfit
+    };
+    const direction = filters.dir === 'asc' ? 1 : -1;
+    const sortKey = filters.sort as ListSortKey;
     return items.sort((a, b) => {
-      if (a.isFullySold !== b.isFullySold) {
-        return a.isFullySold ? 1 : -1;
+      if (sortKey === 'default' || !sortValue[sortKey]) {
+        if (a.isFullySold !== b.isFullySold) {
+          return a.isFullySold ? 1 : -1;
+        }
+        return (a.timestamp - b.timestamp) * direction;
       }
-      return b.timestamp - a.timestamp;
+      return (sortValue[sortKey](a) - sortValue[sortKey](b)) * direction;
     });
-  }, [trades, filterQuantity, filterDate]);
+  }, [visibleTrades, filters, costBasis]);
+
+  const displayedTrades = useMemo(() => {
+    return displayItems.flatMap(item => item.type === 'trade' ? [item.data] : item.data.trades);
+  }, [displayItems]);
 
   const paginatedItems = useMemo(() => {
     const start = (currentPage - 1) * itemsPerPage;
@@ -434,14 +756,14 @@ export default function App() {
   const totalPages = Math.ceil(displayItems.length / itemsPerPage);
 
   const handleDeleteBatch = (batchId: string) => {
-    setTrades(prev => prev.filter(t => !t.sells.some(s => s.batch_id === batchId)));
+    mutate('删除合并交易', () => api.deleteBatch(batchId), { toast: '已删除合并交易' });
   };
 
   const chartData = useMemo(() => {
-    const allSells = trades.flatMap(t => t.sells.map(s => ({
+    const allSells = visibleTrades.flatMap(t => t.sells.map(s => ({
       date: format(new Date(s.sell_date), 'MM/dd HH:mm'),
       timestamp: new Date(s.sell_date).getTime(),
-      profit: (s.sell_price - t.buy_price) * s.quantity - s.fee
+      profit: costBasis.profits.get(s.id) ?? 0
     })));
 
     return allSells
@@ -450,24 +772,15 @@ export default function App() {
         '日期': s.date,
         '收益': parseFloat(s.profit.toFixed(4))
       }));
-  }, [trades]);
+  }, [visibleTrades, costBasis]);
 
   const monthlyChartData = useMemo(() => {
-    const monthlyData: Record<string, number> = {};
-    
-    trades.forEach(t => {
-      t.sells.forEach(s => {
-        const month = format(new Date(s.sell_date), 'yyyy-MM');
-        const profit = (s.sell_price - t.buy_price) * s.quantity - s.fee;
-        monthlyData[month] = (monthlyData[month] || 0) + profit;
-      });
-    });
-
-    const data = Object.entries(monthlyData)
+    const data = [...monthlyActivity(visibleTrades, fx, costBasis.profits)]
+      .filter(([, activity]) => activity.sellQuantity > 0)
       .sort((a, b) => a[0].localeCompare(b[0]))
-      .map(([month, profit]) => ({
+      .map(([month, activity]) => ({
         month,
-        '月收益': parseFloat(profit.toFixed(4))
+        '月收益': parseFloat(activity.profit.toFixed(4))
       }));
 
     const totalProfit = data.reduce((acc, curr) => acc + curr['月收益'], 0);
@@ -477,7 +790,7 @@ export default function App() {
       data,
       averageProfit
     };
-  }, [trades]);
+  }, [visibleTrades, costBasis, fx]);
 
   const selectedTotalWeight = useMemo(() => {
     return trades
@@ -488,6 +801,82 @@ export default function App() {
       }, 0);
   }, [trades, selectedTradeIds]);
 
+  // Break-even and target prices for the position use the average cost of the open lots, or of
+  // just the lots selected for a batch sell (which share a currency and unit) when there are any.
+  const positionTarget = useMemo(() => {
+    const selected = trades.filter(t => selectedTradeIds.includes(t.id) && remainingWeight(t) > 0.0001);
+    if (selected.length > 0) {
+      const [first] = selected;
+      const quantity = selected.reduce((acc, t) => acc + remainingWeight(t), 0);
+      return {
+        scope: `已选 ${selected.length} 笔`,
+        cost: selected.reduce((acc, t) => acc + effectiveCost(t) * remainingWeight(t), 0) / quantity,
+        quantity,
+        currency: first.currency,
+        unit: first.unit,
+        currentPrice: currentPrice !== null && first.instrument === instrumentView.id
+          ? fx.convert(currentPrice, fx.base, first.currency, new Date().toISOString()) * unitFactor(first.unit)
+          : null
+      };
+    }
+    if (stats.activeWeight <= 0.0001) return null;
+    return {
+      scope: '全部持仓',
+      cost: costBasis.openCost / stats.activeWeight,
+      quantity: stats.activeWeight,
+      currency: fx.base,
+      unit: baseUnit(instrumentView.id),
+      currentPrice
+    };
+  }, [trades, selectedTradeIds, stats, costBasis, currentPrice, fx, instrumentView.id]);
+
+  const batchLots = useMemo(
+    () => openLots(trades.filter(t => selectedTradeIds.includes(t.id))),
+    [trades, selectedTradeIds]
+  );
+
+  // In manual mode the batch quantity is whatever the per-lot inputs add up to.
+  const batchQuantity = batchMode === 'manual'
+    ? batchLots.reduce((acc, l) => acc + (parseFloat(manualAllocations[l.id]) || 0), 0)
+    : parseFloat(sellFormData.quantity);
+
+  const batchPreview = useMemo(() => {
+    try {
+      if (batchMode === 'manual') {
+        const allocations = batchLots.map(l => ({ trade_id: l.id, quantity: parseFloat(manualAllocations[l.id]) || 0 }));
+        return { allocations: validateManualAllocations(batchLots, allocations), error: null };
+      }
+      if (!(batchQuantity > 0)) return { allocations: [], error: null };
+      return { allocations: allocateSell(batchLots, batchQuantity, batchMode), error: null };
+    } catch (e) {
+      return { allocations: [], error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [batchLots, batchMode, batchQuantity, manualAllocations]);
+
+  const buyPlatform = platformFor(formData.account_id);
+  const buyUnit = UNITS[formData.unit];
+  const autoBuyFee = computeFee(buyPlatform.buy, parseFloat(formData.buy_price), parseFloat(formData.quantity), unitFactor(formData.unit));
+  const buyFee = formData.feeAuto ? autoBuyFee : (parseFloat(formData.buy_fee) || 0);
+  const formCost = parseFloat(formData.quantity) > 0 && parseFloat(formData.buy_price) > 0
+    ? parseFloat(formData.buy_price) + (parseFloat(formData.spread) || 0) + (parseFloat(formData.premium) || 0)
+      + buyFee / parseFloat(formData.quantity)
+    : null;
+
+  // A batch's lots all share one account, so the first one decides the fee rule
+  const sellTradeId = isBatchSelling ? selectedTradeIds[0] : (sellingTradeId ?? editingSell?.tradeId);
+  const sellTrade = trades.find(t => t.id === sellTradeId);
+  const sellPlatform = platformFor(sellTrade?.account_id);
+  const sellUnit = UNITS[sellTrade?.unit ?? 'g'];
+  const sellCurrency = CURRENCIES[sellFormData.currency];
+  const buyCurrency = CURRENCIES[formData.currency];
+  const autoSellFee = computeFee(
+    sellPlatform.sell,
+    parseFloat(sellFormData.sell_price),
+    isBatchSelling ? batchQuantity : parseFloat(sellFormData.quantity),
+    unitFactor(sellTrade?.unit ?? 'g')
+  );
+  const sellFee = sellFormData.feeAuto ? autoSellFee : (parseFloat(sellFormData.fee) || 0);
+
   return (
     <div className="min-h-screen bg-[#0A0A0A] text-gray-100 font-sans selection:bg-yellow-500/30">
       {/* Header */}
@@ -498,13 +887,39 @@ export default function App() {
               <Scale className="text-black w-5 h-5" />
             </div>
             <h1 className="text-xl font-bold tracking-tight text-white">黄金交易助手</h1>
+            <div className="ml-3">
+              <PriceTicker quote={quote} error={quoteError} />
+            </div>
           </div>
           <div className="flex items-center gap-3">
+            <div className="flex items-center bg-[#1A1A1A] border border-[#262626] rounded-full pl-3">
+              <Wallet size={16} className="text-gray-500" />
+              <select
+                value={activeAccount ? String(activeAccount.id) : 'all'}
+                onChange={e => setAccountView({ id: e.target.value === 'all' ? 'all' : Number(e.target.value) })}
+                className="bg-transparent text-sm font-bold text-gray-300 pl-2 pr-1 py-2 outline-none cursor-pointer"
+              >
+                <option value="all">全部账户</option>
+                {accounts.map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setIsAccountsOpen(true)}
+                title="账户管理"
+                className="p-2 pr-3 text-gray-500 hover:text-white transition-all"
+              >
+                <Settings2 size={16} />
+              </button>
+            </div>
             {selectedTradeIds.length > 0 && (
               <button 
                 onClick={() => {
                   setIsBatchSelling(true);
-                  setSellFormData(prev => ({ ...prev, quantity: selectedTotalWeight.toFixed(4) }));
+                  setBatchMode('fifo');
+                  setManualAllocations({});
+                  const currency = trades.find(t => t.id === selectedTradeIds[0])?.currency ?? DEFAULT_CURRENCY;
+                  setSellFormData(prev => ({ ...prev, quantity: selectedTotalWeight.toFixed(4), feeAuto: true, currency }));
                 }}
                 className="flex items-center gap-2 bg-yellow-500 text-black px-4 py-2 rounded-full text-sm font-bold hover:bg-yellow-400 transition-all active:scale-95 shadow-lg shadow-yellow-500/20"
               >
@@ -512,14 +927,92 @@ export default function App() {
                 合并卖出 ({selectedTradeIds.length})
               </button>
             )}
+            {stats.activeWeight > 0.0001 && (
+              <button 
+                disabled={!portfolioAccount}
+                title={portfolioAccount ? undefined : '请先选择要卖出的账户'}
+                onClick={() => setIsPortfolioSelling(true)}
+                className="flex items-center gap-2 bg-[#1A1A1A] border border-yellow-500/40 text-yellow-500 px-4 py-2 rounded-full text-sm font-bold hover:bg-yellow-500/10 transition-all active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed disabled:active:scale-100"
+              >
+                <TrendingDown size={18} />
+                卖出
+              </button>
+            )}
+            <div className="flex items-center bg-[#1A1A1A] border border-[#262626] rounded-full">
+              <button
+                disabled={!history.undoLabel || history.busy}
+                onClick={() => history.undo()}
+                title={history.undoLabel ? `撤销: ${history.undoLabel} (Ctrl+Z)` : '没有可撤销的操作'}
+                className="p-2 pl-3 text-gray-300 hover:text-white transition-all disabled:text-gray-700 disabled:cursor-not-allowed"
+              >
+                <Undo2 size={18} />
+              </button>
+              <button
+                disabled={!history.redoLabel || history.busy}
+                onClick={() => history.redo()}
+                title={history.redoLabel ? `重做: ${history.redoLabel} (Ctrl+Shift+Z)` : '没有可重做的操作'}
+                className="p-2 pr-3 text-gray-300 hover:text-white transition-all disabled:text-gray-700 disabled:cursor-not-allowed"
+              >
+                <Redo2 size={18} />
+              </button>
+            </div>
+            <button 
+              onClick={() => {
+                reloadPriceAlerts();
+                setIsAlertsOpen(true);
+              }}
+              title="价格提醒"
+              className="flex items-center bg-[#1A1A1A] border border-[#262626] text-gray-300 p-2 rounded-full hover:text-white hover:bg-[#262626] transition-all active:scale-95"
+            >
+              <Bell size={18} />
+            </button>
+            <button 
+              onClick={() => setIsTrashOpen(true)}
+              title="回收站"
+              className="flex items-center bg-[#1A1A1A] border border-[#262626] text-gray-300 p-2 rounded-full hover:text-white hover:bg-[#262626] transition-all active:scale-95"
+            >
+              <Trash2 size={18} />
+            </button>
+            <button 
+              onClick={() => setIsFeeSettingsOpen(true)}
+              className="flex items-center gap-2 bg-[#1A1A1A] border border-[#262626] text-gray-300 px-4 py-2 rounded-full text-sm font-bold hover:text-white hover:bg-[#262626] transition-all active:scale-95"
+            >
+              <Percent size={18} />
+              手续费
+            </button>
+            <button 
+              onClick={() => setIsBackupOpen(true)}
+              className="flex items-center gap-2 bg-[#1A1A1A] border border-[#262626] text-gray-300 px-4 py-2 rounded-full text-sm font-bold hover:text-white hover:bg-[#262626] transition-all active:scale-95"
+            >
+              <DatabaseBackup size={18} />
+              备份/恢复
+            </button>
+            <button 
+              onClick={() => setIsImportingCsv(true)}
+              className="flex items-center gap-2 bg-[#1A1A1A] border border-[#262626] text-gray-300 px-4 py-2 rounded-full text-sm font-bold hover:text-white hover:bg-[#262626] transition-all active:scale-95"
+            >
+              <FileSpreadsheet size={18} />
+              导入CSV
+            </button>
             <button 
               onClick={() => {
                 setEditingTrade(null);
                 setFormData({
+                  account_id: defaultAccount?.id ?? DEFAULT_ACCOUNT_ID,
+                  instrument: instrumentView.id,
+                  unit: baseUnit(instrumentView.id),
+                  currency: settings.baseCurrency,
                   buy_price: '',
                   quantity: '',
                   buy_date: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
-                  notes: ''
+                  buy_fee: '',
+                  feeAuto: true,
+                  spread: '',
+                  premium: '',
+                  target_price: '',
+                  stop_price: '',
+                  notes: '',
+                  tags: []
                 });
                 setIsAdding(true);
               }}
@@ -533,23 +1026,158 @@ export default function App() {
       </header>
 
       <main className="max-w-5xl mx-auto px-4 py-8 space-y-8">
+        {/* Instrument and Cost Method */}
+        <div className="flex flex-wrap items-center justify-end gap-3 -mb-4">
+          {ledgerInstruments.length > 1 && (
+            <div className="flex bg-[#141414] p-1 rounded-lg border border-[#262626] mr-auto">
+              {ledgerInstruments.map(instrument => (
+                <button
+                  key={instrument}
+                  onClick={() => setInstrumentView({ id: instrument })}
+                  className={cn(
+                    "px-3 py-1 text-[10px] font-bold rounded-md transition-all",
+                    instrumentView.id === instrument ? "bg-yellow-500 text-black" : "text-gray-500 hover:text-gray-300"
+                  )}
+                >
+                  {INSTRUMENTS[instrument].label}
+                </button>
+              ))}
+            </div>
+          )}
+          <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">收益成本计算</span>
+          <div className="flex bg-[#141414] p-1 rounded-lg border border-[#262626]">
+            {(Object.keys(COST_METHOD_LABELS) as CostMethod[]).map(method => (
+              <button 
+                key={method}
+                onClick={() => setSettings(prev => ({ ...prev, costMethod: method }))}
+                className={cn(
+                  "px-3 py-1 text-[10px] font-bold rounded-md transition-all",
+                  settings.costMethod === method ? "bg-yellow-500 text-black" : "text-gray-500 hover:text-gray-300"
+                )}
+              >
+                {COST_METHOD_LABELS[method]}
+              </button>
+            ))}
+          </div>
+          <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">本位币</span>
+          <div className="flex items-center bg-[#141414] p-1 rounded-lg border border-[#262626]">
+            <select
+              value={settings.baseCurrency}
+              onChange={e => setSettings(prev => ({ ...prev, baseCurrency: e.target.value as Currency }))}
+              className="bg-transparent text-[10px] font-bold text-gray-300 px-2 py-1 outline-none cursor-pointer"
+            >
+              {(Object.keys(CURRENCIES) as Currency[]).map(c => (
+                <option key={c} value={c}>{CURRENCIES[c].label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setIsFxRatesOpen(true)}
+              className={cn(
+                "px-3 py-1 text-[10px] font-bold rounded-md transition-all",
+                missingRates.length > 0 ? "text-amber-500 hover:text-amber-400" : "text-gray-500 hover:text-gray-300"
+              )}
+              title={missingRates.length > 0 ? `${missingRates.join('、')} 尚无汇率，按 1:1 折算` : '汇率管理'}
+            >
+              汇率
+            </button>
+          </div>
+        </div>
+
         {/* Stats Grid */}
-        <section className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <section className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <StatCard 
             label="累计净收益" 
-            value={`¥${stats.totalProfit.toLocaleString(undefined, { minimumFractionDigits: 2 })}`}
+            value={`${baseSymbol}${stats.totalProfit.toLocaleString(undefined, { minimumFractionDigits: 2 })}`}
             icon={<TrendingUp className={cn("w-5 h-5", stats.totalProfit >= 0 ? "text-rose-500" : "text-emerald-500")} />}
             trend={stats.totalProfit >= 0 ? "positive" : "negative"}
+            hint={hasForeignCurrency ? `其中汇兑损益 ${baseSymbol}${stats.fxProfit.toFixed(2)}` : undefined}
           />
           <StatCard 
             label="当前持仓" 
-            value={`${stats.activeWeight.toFixed(4)}g`}
+            value={`${stats.activeWeight.toFixed(4)}${viewUnit.symbol}`}
             icon={<Scale className="w-5 h-5 text-yellow-500" />}
           />
+          <CurrentPriceCard
+            label={isGoldView
+              ? `当前金价 (${CURRENCIES[fx.base].unitLabel}/克)`
+              : `当前${INSTRUMENTS[instrumentView.id].label}价格 (${CURRENCIES[fx.base].unitLabel}/${viewUnit.label})`}
+            price={instrumentValuation.price}
+            feeRate={instrumentValuation.feeRate}
+            auto={instrumentValuation.auto}
+            canAuto={isGoldView}
+            feedPrice={feedPrice}
+            onChange={updateValuation}
+            onEditingChange={setIsEditingPrice}
+          />
+          <StatCard 
+            label="持仓市值" 
+            value={stats.marketValue !== null ? `${baseSymbol}${stats.marketValue.toLocaleString(undefined, { minimumFractionDigits: 2 })}` : '--'}
+            icon={<DollarSign className="w-5 h-5 text-blue-400" />}
+            hint={stats.estimatedFee !== null ? `预估卖出费用 ${baseSymbol}${stats.estimatedFee.toFixed(2)}` : '输入当前金价后计算'}
+          />
+          <StatCard 
+            label="未实现盈亏" 
+            value={stats.unrealizedProfit !== null ? `${baseSymbol}${stats.unrealizedProfit.toLocaleString(undefined, { minimumFractionDigits: 2 })}` : '--'}
+            icon={<TrendingUp className={cn("w-5 h-5", (stats.unrealizedProfit ?? 0) >= 0 ? "text-rose-500" : "text-emerald-500")} />}
+            trend={stats.unrealizedProfit !== null ? (stats.unrealizedProfit >= 0 ? "positive" : "negative") : undefined}
+            hint={hasForeignCurrency
+              ? `已扣除预估卖出费用，含汇兑损益 ${baseSymbol}${costBasis.openFxGain.toFixed(2)}`
+              : '已扣除预估卖出费用'}
+          />
+          <StatCard 
+            label="总盈亏 (已实现+未实现)" 
+            value={stats.combinedProfit !== null ? `${baseSymbol}${stats.combinedProfit.toLocaleString(undefined, { minimumFractionDigits: 2 })}` : '--'}
+            icon={<LayoutDashboard className="w-5 h-5 text-yellow-500" />}
+            trend={stats.combinedProfit !== null ? (stats.combinedProfit >= 0 ? "positive" : "negative") : undefined}
+          />
+          <StatCard
+            label="资金加权年化 (XIRR)"
+            value={formatPercent(portfolioXirr)}
+            icon={<Percent className="w-5 h-5 text-yellow-500" />}
+            trend={portfolioXirr !== null ? (portfolioXirr >= 0 ? "positive" : "negative") : undefined}
+            hint={stats.activeWeight > 0.0001
+              ? (stats.marketValue !== null ? '按全部买卖现金流计算，持仓按当前市值计' : '输入当前价格后计算')
+              : '按全部买卖现金流计算'}
+          />
+          <StatCard
+            label="已实现收益率"
+            value={formatPercent(stats.realizedReturn.returnOnCost)}
+            icon={<TrendingUp className={cn("w-5 h-5", (stats.realizedReturn.returnOnCost ?? 0) >= 0 ? "text-rose-500" : "text-emerald-500")} />}
+            trend={stats.realizedReturn.returnOnCost !== null ? (stats.realizedReturn.returnOnCost >= 0 ? "positive" : "negative") : undefined}
+            hint={`年化 ${formatPercent(stats.realizedReturn.annualized)}`}
+          />
+          <StatCard
+            label="平均持有天数"
+            value={stats.realizedReturn.returnOnCost !== null ? `${stats.realizedReturn.days.toFixed(0)} 天` : '--'}
+            icon={<Calendar className="w-5 h-5 text-yellow-500" />}
+            hint={stats.activeWeight > 0.0001 ? `当前持仓平均已持有 ${stats.openDays.toFixed(0)} 天` : '按卖出数量加权'}
+          />
         </section>
 
+        {positionTarget && (
+          <section className="bg-[#141414] p-6 rounded-2xl border border-[#262626] shadow-sm space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold text-gray-500 uppercase tracking-wider flex items-center gap-2">
+                <Calculator size={14} />
+                目标收益 · {positionTarget.scope}
+              </span>
+              <span className="text-[10px] text-gray-500">
+                持仓均价 {CURRENCIES[positionTarget.currency].symbol}{positionTarget.cost.toFixed(4)}/{UNITS[positionTarget.unit].label}
+              </span>
+            </div>
+            <TargetProfitCalculator
+              cost={positionTarget.cost}
+              quantity={positionTarget.quantity}
+              feeRate={sellFeeRate}
+              currentPrice={positionTarget.currentPrice}
+              symbol={CURRENCIES[positionTarget.currency].symbol}
+              unit={UNITS[positionTarget.unit]}
+            />
+          </section>
+        )}
+
         {/* Chart Section */}
-        {chartData.length > 0 && (
+        {visibleTrades.length > 0 && (
           <section className="bg-[#141414] rounded-2xl border border-[#262626] shadow-sm overflow-hidden">
             <div className="p-6 flex items-center justify-between border-b border-[#262626]">
               <div className="flex items-center gap-6">
@@ -559,7 +1187,7 @@ export default function App() {
                 >
                   <h2 className="text-sm font-bold uppercase tracking-wider text-gray-400 flex items-center gap-2">
                     <LayoutDashboard size={16} />
-                    {chartType === 'monthly' ? '月度收益统计' : '收益走势 (单笔卖出)'}
+                    {chartType === 'monthly' ? '月度收益统计' : chartType === 'trend' ? '收益走势 (单笔卖出)' : '金价走势与买卖点'}
                   </h2>
                   <ChevronRight size={16} className={cn("text-gray-500 transition-transform", isChartVisible && "rotate-90")} />
                 </button>
@@ -568,7 +1196,7 @@ export default function App() {
                   <div className="flex items-center gap-2 px-2 py-1 bg-[#0A0A0A] rounded-lg border border-[#262626]">
                     <span className="hidden xs:inline text-[10px] text-gray-500 uppercase font-bold tracking-wider">月均:</span>
                     <span className="text-xs font-mono font-bold text-rose-500">
-                      ¥{monthlyChartData.averageProfit.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
+                      {baseSymbol}{monthlyChartData.averageProfit.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
                     </span>
                   </div>
                 )}
@@ -593,6 +1221,17 @@ export default function App() {
                 >
                   走势图
                 </button>
+                {isGoldView && (
+                  <button 
+                    onClick={() => setChartType('price')}
+                    className={cn(
+                      "px-3 py-1 text-[10px] font-bold uppercase tracking-wider rounded-md transition-all",
+                      chartType === 'price' ? "bg-yellow-500 text-black" : "text-gray-500 hover:text-gray-300"
+                    )}
+                  >
+                    金价图
+                  </button>
+                )}
               </div>
             </div>
             
@@ -605,77 +1244,81 @@ export default function App() {
                   className="px-6 pb-6 pt-6"
                 >
                   <div className="h-[300px] w-full relative">
-                    <ResponsiveContainer width="100%" height="100%">
-                      {chartType === 'trend' ? (
-                        <AreaChart data={chartData}>
-                          <defs>
-                            <linearGradient id="colorProfit" x1="0" y1="0" x2="0" y2="1">
-                              <stop offset="5%" stopColor="#F43F5E" stopOpacity={0.2}/>
-                              <stop offset="95%" stopColor="#F43F5E" stopOpacity={0}/>
-                            </linearGradient>
-                          </defs>
-                          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#262626" />
-                          <XAxis 
-                            dataKey="日期" 
-                            axisLine={false} 
-                            tickLine={false} 
-                            tick={{ fontSize: 10, fill: '#525252' }}
-                          />
-                          <YAxis 
-                            axisLine={false} 
-                            tickLine={false} 
-                            tick={{ fontSize: 12, fill: '#525252' }}
-                          />
-                          <Tooltip 
-                            contentStyle={{ backgroundColor: '#1A1A1A', borderRadius: '12px', border: '1px solid #333', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.5)' }}
-                            itemStyle={{ color: '#F43F5E' }}
-                            labelStyle={{ fontWeight: 'bold', marginBottom: '4px', color: '#FFF' }}
-                          />
-                          <Area 
-                            type="monotone" 
-                            dataKey="收益" 
-                            stroke="#F43F5E" 
-                            strokeWidth={2}
-                            fillOpacity={1} 
-                            fill="url(#colorProfit)" 
-                          />
-                        </AreaChart>
-                      ) : (
-                        <BarChart data={monthlyChartData.data} margin={{ top: 20, right: 10, left: 10, bottom: 0 }}>
-                          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#262626" />
-                          <XAxis 
-                            dataKey="month" 
-                            axisLine={false} 
-                            tickLine={false} 
-                            tick={{ fontSize: 10, fill: '#525252' }}
-                          />
-                          <YAxis 
-                            axisLine={false} 
-                            tickLine={false} 
-                            tick={{ fontSize: 12, fill: '#525252' }}
-                          />
-                          <Tooltip 
-                            contentStyle={{ backgroundColor: '#1A1A1A', borderRadius: '12px', border: '1px solid #333', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.5)' }}
-                            itemStyle={{ color: '#F43F5E' }}
-                            labelStyle={{ fontWeight: 'bold', marginBottom: '4px', color: '#FFF' }}
-                          />
-                          <Bar 
-                            dataKey="月收益" 
-                            fill="#F43F5E" 
-                            radius={[4, 4, 0, 0]}
-                            barSize={40}
-                          >
-                            <LabelList 
+                    {chartType === 'price' ? (
+                      <PriceHistoryChart trades={visibleTrades} fx={fx} />
+                    ) : (
+                      <ResponsiveContainer width="100%" height="100%">
+                        {chartType === 'trend' ? (
+                          <AreaChart data={chartData}>
+                            <defs>
+                              <linearGradient id="colorProfit" x1="0" y1="0" x2="0" y2="1">
+                                <stop offset="5%" stopColor="#F43F5E" stopOpacity={0.2}/>
+                                <stop offset="95%" stopColor="#F43F5E" stopOpacity={0}/>
+                              </linearGradient>
+                            </defs>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#262626" />
+                            <XAxis 
+                              dataKey="日期" 
+                              axisLine={false} 
+                              tickLine={false} 
+                              tick={{ fontSize: 10, fill: '#525252' }}
+                            />
+                            <YAxis 
+                              axisLine={false} 
+                              tickLine={false} 
+                              tick={{ fontSize: 12, fill: '#525252' }}
+                            />
+                            <Tooltip 
+                              contentStyle={{ backgroundColor: '#1A1A1A', borderRadius: '12px', border: '1px solid #333', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.5)' }}
+                              itemStyle={{ color: '#F43F5E' }}
+                              labelStyle={{ fontWeight: 'bold', marginBottom: '4px', color: '#FFF' }}
+                            />
+                            <Area 
+                              type="monotone" 
+                              dataKey="收益" 
+                              stroke="#F43F5E" 
+                              strokeWidth={2}
+                              fillOpacity={1} 
+                              fill="url(#colorProfit)" 
+                            />
+                          </AreaChart>
+                        ) : (
+                          <BarChart data={monthlyChartData.data} margin={{ top: 20, right: 10, left: 10, bottom: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#262626" />
+                            <XAxis 
+                              dataKey="month" 
+                              axisLine={false} 
+                              tickLine={false} 
+                              tick={{ fontSize: 10, fill: '#525252' }}
+                            />
+                            <YAxis 
+                              axisLine={false} 
+                              tickLine={false} 
+                              tick={{ fontSize: 12, fill: '#525252' }}
+                            />
+                            <Tooltip 
+                              contentStyle={{ backgroundColor: '#1A1A1A', borderRadius: '12px', border: '1px solid #333', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.5)' }}
+                              itemStyle={{ color: '#F43F5E' }}
+                              labelStyle={{ fontWeight: 'bold', marginBottom: '4px', color: '#FFF' }}
+                            />
+                            <Bar 
                               dataKey="月收益" 
-                              position="top" 
                               fill="#F43F5E" 
-                              fontSize={10} 
-                              formatter={(value: number) => `¥${value.toFixed(0)}`}
-                            />
-                          </Bar>
-                        </BarChart>
-                      )}
-                    </ResponsiveContainer>
+                              radius={[4, 4, 0, 0]}
+                              barSize={40}
+                            >
+                              <LabelList 
+                                dataKey="月收益" 
+                                position="top" 
+                                fill="#F43F5E" 
+                                fontSize={10} 
+                                formatter={(value: number) => `${baseSymbol}${value.toFixed(0)}`}
+                              />
+                            </Bar>
+                          </BarChart>
+                        )}
+                      </ResponsiveContainer>
+                    )}
                   </div>
                 </motion.div>
               )}
@@ -692,31 +1335,101 @@ export default function App() {
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" size={14} />
                 <input 
-                  type="number" 
-                  step="0.0001"
-                  placeholder="按克数查询..."
-                  value={filterQuantity}
-                  onChange={(e) => setFilterQuantity(e.target.value)}
-                  className="bg-[#141414] border border-[#262626] rounded-full pl-9 pr-4 py-1.5 text-xs text-white focus:ring-1 focus:ring-yellow-500 outline-none w-32"
+                  type="search"
+                  placeholder="搜索备注..."
+                  value={filters.search}
+                  onChange={(e) => updateFilters({ search: e.target.value })}
+                  className="bg-[#141414] border border-[#262626] rounded-full pl-9 pr-4 py-1.5 text-xs text-white focus:ring-1 focus:ring-yellow-500 outline-none w-36"
                 />
               </div>
               <div className="relative">
-                <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" size={14} />
+                <Scale className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" size={14} />
                 <input 
-                  type="date" 
-                  value={filterDate}
-                  onChange={(e) => setFilterDate(e.target.value)}
-                  className="bg-[#141414] border border-[#262626] rounded-full pl-9 pr-4 py-1.5 text-xs text-white focus:ring-1 focus:ring-yellow-500 outline-none w-36"
+                  type="number" 
+                  step="0.0001"
+                  placeholder="按数量查询..."
+                  value={filters.quantity}
+                  onChange={(e) => updateFilters({ quantity: e.target.value })}
+                  className="bg-[#141414] border border-[#262626] rounded-full pl-9 pr-4 py-1.5 text-xs text-white focus:ring-1 focus:ring-yellow-500 outline-none w-32"
                 />
               </div>
-              {(filterQuantity || filterDate) && (
+              <select
+                value={filters.status}
+                onChange={(e) => updateFilters({ status: e.target.value })}
+                className="bg-[#141414] border border-[#262626] rounded-full px-3 py-1.5 text-xs text-gray-300 focus:ring-1 focus:ring-yellow-500 outline-none cursor-pointer"
+              >
+                {(Object.keys(LIST_STATUS_LABELS) as ListStatus[]).map(s => (
+                  <option key={s} value={s}>{LIST_STATUS_LABELS[s]}</option>
+                ))}
+              </select>
+              <select
+                value={filters.tag}
+                onChange={(e) => updateFilters({ tag: e.target.value })}
+                className="bg-[#141414] border border-[#262626] rounded-full px-3 py-1.5 text-xs text-gray-300 focus:ring-1 focus:ring-yellow-500 outline-none cursor-pointer"
+              >
+                <option value="">全部标签</option>
+                {[...new Set([...tagSuggestions, ...(filters.tag ? [filters.tag] : [])])].map(tag => (
+                  <option key={tag} value={tag}>#{tag}</option>
+                ))}
+              </select>
+              <div className="flex items-center bg-[#141414] border border-[#262626] rounded-full">
+                <select
+                  value={filters.sort}
+                  onChange={(e) => updateFilters({ sort: e.target.value })}
+                  className="bg-transparent pl-3 pr-1 py-1.5 text-xs text-gray-300 outline-none cursor-pointer"
+                >
+                  {(Object.keys(LIST_SORT_LABELS) as ListSortKey[]).map(k => (
+                    <option key={k} value={k}>{LIST_SORT_LABELS[k]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => updateFilters({ dir: filters.dir === 'asc' ? 'desc' : 'asc' })}
+                  title={filters.dir === 'asc' ? '升序' : '降序'}
+                  className="p-1.5 pr-3 text-gray-500 hover:text-white transition-colors"
+                >
+                  <ArrowUpDown size={14} className={cn(filters.dir === 'asc' && "rotate-180")} />
+                </button>
+              </div>
+              <button
+                onClick={() => setShowMoreFilters(!showMoreFilters)}
+                className={cn(
+                  "flex items-center gap-1.5 text-[10px] font-bold uppercase transition-colors",
+                  showMoreFilters ? "text-yellow-500" : "text-gray-400 hover:text-white"
+                )}
+              >
+                <SlidersHorizontal size={14} />
+                更多筛选
+              </button>
+              {isFiltered && (
                 <button 
-                  onClick={() => { setFilterQuantity(''); setFilterDate(''); }}
+                  onClick={() => setFilters(clearFilters)}
                   className="text-[10px] font-bold text-rose-500 uppercase hover:underline"
                 >
                   清除筛选
                 </button>
               )}
+              <ExportMenu
+                trades={accountTrades}
+                filteredTrades={displayedTrades}
+                isFiltered={isFiltered}
+                fx={fx}
+              />
+              <button
+                onClick={() => setIsAnalyticsOpen(true)}
+                disabled={!displayedTrades.some(t => t.sells.length > 0)}
+                className="flex items-center gap-1.5 text-[10px] font-bold text-gray-400 uppercase hover:text-white transition-colors disabled:opacity-30"
+              >
+                <BarChart3 size={14} />
+                分析
+              </button>
+              <button
+                onClick={() => setIsStatementOpen(true)}
+                disabled={visibleTrades.length === 0}
+                className="flex items-center gap-1.5 text-[10px] font-bold text-gray-400 uppercase hover:text-white transition-colors disabled:opacity-30"
+              >
+                <FileText size={14} />
+                对账单
+              </button>
               <div className="h-4 w-px bg-[#262626] mx-1" />
               <span className="text-xs text-gray-400 font-mono uppercase tracking-widest">
                 {displayItems.length} ITEMS
@@ -724,6 +1437,47 @@ export default function App() {
             </div>
           </div>
 
+          <AnimatePresence>
+            {showMoreFilters && (
+              <motion.div
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: 'auto', opacity: 1 }}
+                exit={{ height: 0, opacity: 0 }}
+                className="overflow-hidden"
+              >
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 p-4 bg-[#141414] rounded-2xl border border-[#262626]">
+                  {([
+                    { label: '买入日期', type: 'date', from: 'buyFrom', to: 'buyTo' },
+                    { label: '卖出日期', type: 'date', from: 'sellFrom', to: 'sellTo' },
+                    { label: '买入单价', type: 'number', from: 'priceMin', to: 'priceMax' },
+                    { label: `已实现收益 (${baseSymbol})`, type: 'number', from: 'profitMin', to: 'profitMax' }
+                  ] as const).map(range => (
+                    <div key={range.label} className="flex items-center gap-2">
+                      <span className="w-24 shrink-0 text-[10px] font-bold text-gray-500 uppercase">{range.label}</span>
+                      <input
+                        type={range.type}
+                        step="any"
+                        placeholder="不限"
+                        value={filters[range.from]}
+                        onChange={(e) => updateFilters({ [range.from]: e.target.value })}
+                        className="flex-1 min-w-0 bg-[#0A0A0A] border border-[#262626] rounded-lg px-2 py-1.5 text-xs text-white focus:ring-1 focus:ring-yellow-500 outline-none"
+                      />
+                      <span className="text-gray-600 text-xs">至</span>
+                      <input
+                        type={range.type}
+                        step="any"
+                        placeholder="不限"
+                        value={filters[range.to]}
+                        onChange={(e) => updateFilters({ [range.to]: e.target.value })}
+                        className="flex-1 min-w-0 bg-[#0A0A0A] border border-[#262626] rounded-lg px-2 py-1.5 text-xs text-white focus:ring-1 focus:ring-yellow-500 outline-none"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
           <div className="grid gap-6">
             <AnimatePresence mode="popLayout">
               {paginatedItems.map((item) => (
@@ -736,19 +1490,27 @@ export default function App() {
                     onDelete={() => handleDelete(item.data.id)}
                     onEdit={() => startEditTrade(item.data)}
                     onDeleteSell={(sellId) => handleDeleteSell(item.data.id, sellId)}
-                    onDeleteBatchSell={(sellIds) => handleDeleteBatchSell(item.data.id, sellIds)}
+                    onDeleteBatchSell={(batchId) => handleDeleteBatchSell(item.data.id, batchId)}
                     onEditSell={(sell) => startEditSell(item.data.id, sell)}
                     onSell={() => {
                       setSellingTradeId(item.data.id);
                       const remaining = item.data.quantity - item.data.sells.reduce((acc, s) => acc + s.quantity, 0);
-                      setSellFormData(prev => ({ ...prev, quantity: remaining.toString() }));
+                      setSellFormData(prev => ({ ...prev, quantity: remaining.toString(), feeAuto: true, currency: item.data.currency }));
                     }}
                     askConfirmation={askConfirmation}
+                    currentPrice={currentPrice}
+                    sellFeeRate={sellFeeRate}
+                    fx={fx}
+                    profits={costBasis.profits}
+                    accounts={accounts}
+                    showAccount={!activeAccount && accounts.length > 1}
                   />
                 ) : (
                   <BatchItem 
                     key={item.id}
                     batch={item.data}
+                    fx={fx}
+                    profits={costBasis.profits}
                     onDelete={() => handleDeleteBatch(item.data.id)}
                     askConfirmation={askConfirmation}
                   />
@@ -799,9 +1561,9 @@ export default function App() {
                 <div className="flex flex-col items-center gap-3 text-gray-500">
                   <AlertCircle size={40} strokeWidth={1.5} />
                   <p className="font-bold">暂无符合条件的交易记录</p>
-                  {(filterQuantity || filterDate) && (
+                  {isFiltered && (
                     <button 
-                      onClick={() => { setFilterQuantity(''); setFilterDate(''); }}
+                      onClick={() => setFilters(clearFilters)}
                       className="text-yellow-500 text-sm font-bold hover:text-yellow-400 transition-colors"
                     >
                       清除筛选条件
@@ -838,9 +1600,66 @@ export default function App() {
                 </button>
               </div>
               <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                {accounts.length > 1 && (
+                  <div className="space-y-1.5">
+                    <label className="text-xs font-bold text-gray-500 uppercase">账户</label>
+                    <select
+                      value={formData.account_id}
+                      onChange={e => setFormData({...formData, account_id: Number(e.target.value)})}
+                      className="w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all"
+                    >
+                      {accounts.map(a => (
+                        <option key={a.id} value={a.id}>{a.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-1.5">
+                    <label className="text-xs font-bold text-gray-500 uppercase">品种</label>
+                    <select
+                      value={formData.instrument}
+                      disabled={!!editingTrade && editingTrade.sells.length > 0}
+                      onChange={e => {
+                        const instrument = e.target.value as Instrument;
+                        setFormData({...formData, instrument, unit: baseUnit(instrument)});
+                      }}
+                      className="w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all disabled:opacity-50"
+                    >
+                      {(Object.keys(INSTRUMENTS) as Instrument[]).map(i => (
+                        <option key={i} value={i}>{INSTRUMENTS[i].label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1.5">
+                    <label className="text-xs font-bold text-gray-500 uppercase">单位</label>
+                    <select
+                      value={formData.unit}
+                      disabled={!!editingTrade && editingTrade.sells.length > 0}
+                      onChange={e => setFormData({...formData, unit: e.target.value as WeightUnit})}
+                      className="w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all disabled:opacity-50"
+                    >
+                      {INSTRUMENTS[formData.instrument].units.map(u => (
+                        <option key={u} value={u}>{UNITS[u].label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1.5">
+                    <label className="text-xs font-bold text-gray-500 uppercase">币种</label>
+                    <select
+                      value={formData.currency}
+                      onChange={e => setFormData({...formData, currency: e.target.value as Currency})}
+                      className="w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all"
+                    >
+                      {(Object.keys(CURRENCIES) as Currency[]).map(c => (
+                        <option key={c} value={c}>{CURRENCIES[c].label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-1.5">
-                    <label className="text-xs font-bold text-gray-500 uppercase">买入克重 (克)</label>
+                    <label className="text-xs font-bold text-gray-500 uppercase">买入数量 ({buyUnit.label})</label>
                     <input 
                       required
                       type="number" 
@@ -852,7 +1671,7 @@ export default function App() {
                     />
                   </div>
                   <div className="space-y-1.5">
-                    <label className="text-xs font-bold text-gray-500 uppercase">买入单价 (元/克)</label>
+                    <label className="text-xs font-bold text-gray-500 uppercase">买入单价 ({buyCurrency.unitLabel}/{buyUnit.label})</label>
                     <input 
                       required
                       type="number" 
@@ -876,6 +1695,72 @@ export default function App() {
                   />
                 </div>
 
+                <div className="grid grid-cols-3 gap-4">
+                  <FeeInput
+                    label={`买入手续费 (${buyCurrency.unitLabel})`}
+                    auto={formData.feeAuto}
+                    value={formData.buy_fee}
+                    computed={autoBuyFee}
+                    platformName={buyPlatform.name}
+                    onChange={buy_fee => setFormData({...formData, buy_fee, feeAuto: false})}
+                    onAuto={() => setFormData({...formData, feeAuto: true})}
+                  />
+                  <div className="space-y-1.5">
+                    <label className="text-xs font-bold text-gray-500 uppercase">点差 ({buyCurrency.unitLabel}/{buyUnit.label})</label>
+                    <input 
+                      type="number" 
+                      step="0.01"
+                      min="0"
+                      value={formData.spread}
+                      onChange={e => setFormData({...formData, spread: e.target.value})}
+                      className="w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all"
+                      placeholder="0.00"
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <label className="text-xs font-bold text-gray-500 uppercase">溢价 ({buyCurrency.unitLabel}/{buyUnit.label})</label>
+                    <input 
+                      type="number" 
+                      step="0.01"
+                      min="0"
+                      value={formData.premium}
+                      onChange={e => setFormData({...formData, premium: e.target.value})}
+                      className="w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all"
+                      placeholder="0.00"
+                    />
+                  </div>
+                </div>
+                {formCost !== null && (
+                  <p className="text-[10px] text-gray-500 -mt-2">实际成本 {buyCurrency.symbol}{formCost.toFixed(4)}/{buyUnit.label}，盈亏均按此计算</p>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-1.5">
+                    <label className="text-xs font-bold text-gray-500 uppercase">止盈价 ({buyCurrency.unitLabel}/{buyUnit.label})</label>
+                    <input 
+                      type="number" 
+                      step="0.01"
+                      min="0"
+                      value={formData.target_price}
+                      onChange={e => setFormData({...formData, target_price: e.target.value})}
+                      className="w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all"
+                      placeholder="选填"
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <label className="text-xs font-bold text-gray-500 uppercase">止损价 ({buyCurrency.unitLabel}/{buyUnit.label})</label>
+                    <input 
+                      type="number" 
+                      step="0.01"
+                      min="0"
+                      value={formData.stop_price}
+                      onChange={e => setFormData({...formData, stop_price: e.target.value})}
+                      className="w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all"
+                      placeholder="选填"
+                    />
+                  </div>
+                </div>
+
                 <div className="space-y-1.5">
                   <label className="text-xs font-bold text-gray-500 uppercase">备注</label>
                   <textarea 
@@ -886,6 +1771,8 @@ export default function App() {
                   />
                 </div>
 
+                <TagPicker value={formData.tags} suggestions={tagSuggestions} onChange={tags => setFormData({...formData, tags})} />
+
                 <button 
                   type="submit"
                   className="w-full bg-yellow-500 text-black py-4 rounded-2xl font-bold hover:bg-yellow-400 transition-all active:scale-[0.98] shadow-xl shadow-yellow-500/10"
@@ -931,26 +1818,26 @@ export default function App() {
                   <Plus className="rotate-45" />
                 </button>
               </div>
-              <form onSubmit={handleSellSubmit} className="p-6 space-y-4">
+              <form onSubmit={handleSellSubmit} className="p-6 space-y-4 max-h-[80vh] overflow-y-auto">
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-1.5">
-                    <label className="text-xs font-bold text-gray-500 uppercase">卖出克重 (克)</label>
+                    <label className="text-xs font-bold text-gray-500 uppercase">卖出数量 ({sellUnit.label})</label>
                     <input 
                       required
                       type="number" 
                       step="0.0001"
-                      disabled={isBatchSelling}
-                      value={sellFormData.quantity}
+                      disabled={isBatchSelling && batchMode === 'manual'}
+                      value={isBatchSelling && batchMode === 'manual' ? batchQuantity.toFixed(4) : sellFormData.quantity}
                       onChange={e => setSellFormData({...sellFormData, quantity: e.target.value})}
                       className={cn(
                         "w-full border border-[#262626] text-white rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all",
-                        isBatchSelling ? "bg-[#0D0D0D] text-gray-600 cursor-not-allowed" : "bg-[#1A1A1A]"
+                        isBatchSelling && batchMode === 'manual' ? "bg-[#0D0D0D] text-gray-600 cursor-not-allowed" : "bg-[#1A1A1A]"
                       )}
                       placeholder="0.0000"
                     />
                   </div>
                   <div className="space-y-1.5">
-                    <label className="text-xs font-bold text-gray-500 uppercase">卖出单价 (元/克)</label>
+                    <label className="text-xs font-bold text-gray-500 uppercase">卖出单价 ({sellCurrency.unitLabel}/{sellUnit.label})</label>
                     <input 
                       required
                       type="number" 
@@ -964,32 +1851,58 @@ export default function App() {
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
+                  <FeeInput
+                    label={isBatchSelling ? `总手续费 (${sellCurrency.unitLabel})` : `手续费 (${sellCurrency.unitLabel})`}
+                    auto={sellFormData.feeAuto}
+                    value={sellFormData.fee}
+                    computed={autoSellFee}
+                    platformName={sellPlatform.name}
+                    onChange={fee => setSellFormData({...sellFormData, fee, feeAuto: false})}
+                    onAuto={() => setSellFormData({...sellFormData, feeAuto: true})}
+                  />
                   <div className="space-y-1.5">
-                    <label className="text-xs font-bold text-gray-500 uppercase">
-                      {isBatchSelling ? '总手续费 (元)' : '手续费 (元)'}
-                    </label>
-                    <input 
-                      required
-                      type="number" 
-                      step="0.01"
-                      value={sellFormData.fee}
-                      onChange={e => setSellFormData({...sellFormData, fee: e.target.value})}
-                      className="w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all"
-                      placeholder="0.00"
-                    />
-                  </div>
-                  <div className="space-y-1.5">
-                    <label className="text-xs font-bold text-gray-500 uppercase">卖出时间</label>
-                    <input 
-                      required
-                      type="datetime-local" 
-                      value={sellFormData.sell_date}
-                      onChange={e => setSellFormData({...sellFormData, sell_date: e.target.value})}
+                    <label className="text-xs font-bold text-gray-500 uppercase">币种</label>
+                    <select
+                      value={sellFormData.currency}
+                      onChange={e => setSellFormData({...sellFormData, currency: e.target.value as Currency})}
                       className="w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all"
-                    />
+                    >
+                      {(Object.keys(CURRENCIES) as Currency[]).map(c => (
+                        <option key={c} value={c}>{CURRENCIES[c].label}</option>
+                      ))}
+                    </select>
                   </div>
                 </div>
 
+                <div className="space-y-1.5">
+                  <label className="text-xs font-bold text-gray-500 uppercase">卖出时间</label>
+                  <input 
+                    required
+                    type="datetime-local" 
+                    value={sellFormData.sell_date}
+                    onChange={e => setSellFormData({...sellFormData, sell_date: e.target.value})}
+                    className="w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all"
+                  />
+                </div>
+
+                {isBatchSelling && (
+                  <BatchAllocation
+                    lots={batchLots}
+                    unit={sellUnit}
+                    currency={CURRENCIES[sellTrade?.currency ?? DEFAULT_CURRENCY]}
+                    mode={batchMode}
+                    manual={manualAllocations}
+                    allocations={batchPreview.allocations}
+                    error={batchPreview.error}
+                    sellPrice={parseFloat(sellFormData.sell_price)}
+                    fee={sellFee}
+                    feeSplit={feeSettings.split}
+                    onModeChange={setBatchMode}
+                    onFeeSplitChange={split => setFeeSettings({ ...feeSettings, split })}
+                    onManualChange={(tradeId, value) => setManualAllocations(prev => ({ ...prev, [tradeId]: value }))}
+                  />
+                )}
+
                 <div className="space-y-1.5">
                   <label className="text-xs font-bold text-gray-500 uppercase">备注</label>
                   <textarea 
@@ -1000,9 +1913,12 @@ export default function App() {
                   />
                 </div>
 
+                <TagPicker value={sellFormData.tags} suggestions={tagSuggestions} onChange={tags => setSellFormData({...sellFormData, tags})} />
+
                 <button 
                   type="submit"
-                  className="w-full bg-yellow-500 text-black py-4 rounded-2xl font-bold hover:bg-yellow-400 transition-all active:scale-[0.98] shadow-xl shadow-yellow-500/10"
+                  disabled={isBatchSelling && (!!batchPreview.error || batchPreview.allocations.length === 0)}
+                  className="w-full bg-yellow-500 text-black py-4 rounded-2xl font-bold hover:bg-yellow-400 transition-all active:scale-[0.98] shadow-xl shadow-yellow-500/10 disabled:opacity-40 disabled:cursor-not-allowed"
                 >
                   {isBatchSelling ? '确认合并卖出' : (editingSell ? '更新卖出' : '确认卖出')}
                 </button>
@@ -1012,6 +1928,161 @@ export default function App() {
         )}
       </AnimatePresence>
 
+      {/* Portfolio Sell Modal */}
+      <AnimatePresence>
+        {isPortfolioSelling && portfolioAccount && (
+          <PortfolioSellModal
+            trades={trades.filter(t => t.account_id === portfolioAccount.id && t.instrument === instrumentView.id)}
+            defaultMethod={settings.costMethod === 'specific' ? 'fifo' : settings.costMethod}
+            feeRule={platformFor(portfolioAccount.id).sell}
+            platformName={platformFor(portfolioAccount.id).name}
+            feeSplit={feeSettings.split}
+            tagSuggestions={tagSuggestions}
+            onSubmit={(input) => mutate('按持仓卖出', () => api.createAllocatedSell({ ...input, account_id: portfolioAccount.id }))}
+            onClose={() => setIsPortfolioSelling(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* CSV Import Wizard */}
+      <AnimatePresence>
+        {isImportingCsv && defaultAccount && (
+          <CsvImportWizard
+            trades={trades.filter(t => t.account_id === defaultAccount.id)}
+            account={defaultAccount}
+            onImported={reloadAfterExternalChange}
+            onClose={() => setIsImportingCsv(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Backup / Restore Modal */}
+      <AnimatePresence>
+        {isBackupOpen && (
+          <BackupModal
+            onRestored={reloadAfterExternalChange}
+            onClose={() => setIsBackupOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Undo Toast */}
+      <AnimatePresence>
+        {undoToast && (
+          <UndoToast
+            message={undoToast}
+            onUndo={() => history.undo()}
+            onDismiss={() => setUndoToast(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Trash Modal */}
+      <AnimatePresence>
+        {isTrashOpen && (
+          <TrashModal
+            onRestore={(label, action) => mutate(label, action)}
+            onClose={() => setIsTrashOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Accounts Modal */}
+      <AnimatePresence>
+        {isAccountsOpen && (
+          <AccountsModal
+            accounts={accounts}
+            platforms={feeSettings.platforms}
+            defaultPlatformName={feePlatform.name}
+            onChanged={reloadAccounts}
+            onClose={() => setIsAccountsOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Price Alerts Modal */}
+      <AnimatePresence>
+        {isAlertsOpen && (
+          <PriceAlertsModal
+            alerts={priceAlerts}
+            instrument={instrumentView.id}
+            onChanged={reloadPriceAlerts}
+            onClose={() => setIsAlertsOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AlertToasts events={alertNotifications.toasts} onDismiss={alertNotifications.dismiss} />
+
+      {/* FX Rates Modal */}
+      <AnimatePresence>
+        {isFxRatesOpen && (
+          <FxRatesModal
+            rates={fxRates}
+            onChanged={reloadFxRates}
+            onClose={() => setIsFxRatesOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Analytics Modal */}
+      <AnimatePresence>
+        {isAnalyticsOpen && (
+          <AnalyticsModal
+            trades={displayedTrades}
+            profits={costBasis.profits}
+            isFiltered={isFiltered}
+            symbol={baseSymbol}
+            unit={viewUnit}
+            onClose={() => setIsAnalyticsOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Statement Modal */}
+      <AnimatePresence>
+        {isStatementOpen && (
+          <StatementModal
+            trades={visibleTrades}
+            costMethod={settings.costMethod}
+            fx={fx}
+            profits={costBasis.profits}
+            fxProfits={costBasis.fxProfits}
+            header={{
+              scope: `${activeAccount?.name ?? '全部账户'} · ${INSTRUMENTS[instrumentView.id].label}`,
+              costMethod: COST_METHOD_LABELS[settings.costMethod],
+              currency: CURRENCIES[fx.base].label,
+              symbol: baseSymbol,
+              unit: viewUnit.symbol
+            }}
+            onClose={() => setIsStatementOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Fee Settings Modal */}
+      <AnimatePresence>
+        {isFeeSettingsOpen && (
+          <FeeSettingsModal
+            platforms={feeSettings.platforms}
+            activeId={feePlatform.id}
+            onSave={(platforms, activeId) => setFeeSettings({ ...feeSettings, platforms, activeId })}
+            onClose={() => setIsFeeSettingsOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Local Ledger Migration Modal */}
+      <AnimatePresence>
+        {legacyLedger && (
+          <LedgerMigrationModal
+            ledger={legacyLedger}
+            onImported={reloadAfterExternalChange}
+            onClose={() => setLegacyLedger(null)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Confirmation Modal */}
       <AnimatePresence>
         {confirmConfig.isOpen && (
@@ -1062,8 +2133,14 @@ export default function App() {
   );
 }
 
-const BatchItem = ({ batch, onDelete, askConfirmation }: { batch: any, onDelete: () => void, askConfirmation: (title: string, message: string, onConfirm: () => void) => void, key?: React.Key }) => {
+const BatchItem = ({ batch, fx, profits, onDelete, askConfirmation }: { batch: any, fx: Fx, profits: Map<number, number>, onDelete: () => void, askConfirmation: (title: string, message: string, onConfirm: () => void) => void, key?: React.Key }) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const unit = UNITS[(batch.trades[0] as Trade).unit];
+  const currency = CURRENCIES[(batch.trades[0] as Trade).currency];
+  const batchTags = normalizeTags((batch.trades as Trade[]).flatMap(t => [...t.tags, ...t.sells.flatMap(s => s.tags)]));
+  const sellCurrency = CURRENCIES[batch.sellCurrency as Currency];
+  const baseSymbol = CURRENCIES[fx.base].symbol;
+  const batchReturn = realizedReturn((batch.trades as Trade[]).flatMap(trade => trade.sells.map(sell => ({ trade, sell }))), profits, fx);
   
   return (
     <motion.div 
@@ -1080,16 +2157,17 @@ const BatchItem = ({ batch, onDelete, askConfirmation }: { batch: any, onDelete:
             </div>
             <div>
               <div className="flex items-center gap-2">
-                <span className="font-bold text-lg text-white">合并卖出 {batch.totalQuantity.toFixed(4)}g</span>
+                <span className="font-bold text-lg text-white">合并卖出 {batch.totalQuantity.toFixed(4)}{unit.symbol}</span>
                 <span className="text-[10px] px-2 py-0.5 rounded-full font-bold uppercase tracking-wider bg-rose-500/20 text-rose-500">
                   已结清
                 </span>
+                {batchTags.map(tag => <TagChip key={tag} tag={tag} />)}
               </div>
               <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500 mt-0.5">
                 <div className="flex items-center gap-2">
-                  <span className="font-bold px-2 py-0.5 rounded text-yellow-500 bg-yellow-500/10">均价: ¥{batch.buyPrice.toFixed(4)}</span>
+                  <span className="font-bold px-2 py-0.5 rounded text-yellow-500 bg-yellow-500/10">均价: {currency.symbol}{batch.buyPrice.toFixed(4)}</span>
                   <span className="text-gray-700">|</span>
-                  <span className="font-bold px-2 py-0.5 rounded text-blue-400 bg-blue-400/10">总成本: ¥{(batch.buyPrice * batch.totalQuantity).toFixed(4)}</span>
+                  <span className="font-bold px-2 py-0.5 rounded text-blue-400 bg-blue-400/10">总成本: {currency.symbol}{(batch.buyPrice * batch.totalQuantity).toFixed(4)}</span>
                 </div>
                 <span className="text-gray-600">包含 {batch.trades.length} 笔买入记录</span>
               </div>
@@ -1103,8 +2181,9 @@ const BatchItem = ({ batch, onDelete, askConfirmation }: { batch: any, onDelete:
                 "font-bold text-lg",
                 batch.totalProfit >= 0 ? "text-rose-500" : "text-emerald-500"
               )}>
-                {batch.totalProfit >= 0 ? '+' : ''}{batch.totalProfit.toFixed(4)}
+                {formatProfit(batch.totalProfit, baseSymbol)}
               </span>
+              <ReturnSummary metrics={batchReturn} />
             </div>
 
             <div className="flex items-center gap-1 bg-[#1A1A1A] p-1 rounded-xl border border-[#262626]">
@@ -1114,7 +2193,7 @@ const BatchItem = ({ batch, onDelete, askConfirmation }: { batch: any, onDelete:
                   e.stopPropagation(); 
                   askConfirmation(
                     '确认删除合并交易？',
-                    '确定要删除这笔合并交易记录吗？此操作将删除该批次下所有的买入和卖出记录。此操作不可撤销。',
+                    '确定要删除这笔合并交易记录吗？此操作将删除该批次下所有的买入和卖出记录，删除后可撤销。',
                     () => onDelete()
                   );
                 }}
@@ -1153,7 +2232,7 @@ const BatchItem = ({ batch, onDelete, askConfirmation }: { batch: any, onDelete:
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-[#141414] rounded-2xl border border-[#262626]">
                   <div className="space-y-1">
                     <div className="text-[10px] text-gray-500 uppercase font-bold">卖出单价</div>
-                    <div className="text-sm font-bold text-white">¥{batch.sellPrice.toFixed(4)}</div>
+                    <div className="text-sm font-bold text-white">{sellCurrency.symbol}{batch.sellPrice.toFixed(4)}</div>
                   </div>
                   <div className="space-y-1">
                     <div className="text-[10px] text-gray-500 uppercase font-bold">卖出时间</div>
@@ -1161,11 +2240,11 @@ const BatchItem = ({ batch, onDelete, askConfirmation }: { batch: any, onDelete:
                   </div>
                   <div className="space-y-1">
                     <div className="text-[10px] text-gray-500 uppercase font-bold">总手续费</div>
-                    <div className="text-sm font-bold text-gray-400">¥{batch.totalFee.toFixed(4)}</div>
+                    <div className="text-sm font-bold text-gray-400">{sellCurrency.symbol}{batch.totalFee.toFixed(4)}</div>
                   </div>
                   <div className="space-y-1">
                     <div className="text-[10px] text-gray-500 uppercase font-bold">卖出总额</div>
-                    <div className="text-sm font-bold text-blue-400">¥{(batch.sellPrice * batch.totalQuantity).toFixed(4)}</div>
+                    <div className="text-sm font-bold text-blue-400">{sellCurrency.symbol}{(batch.sellPrice * batch.totalQuantity).toFixed(4)}</div>
                   </div>
                 </div>
 
@@ -1178,13 +2257,13 @@ const BatchItem = ({ batch, onDelete, askConfirmation }: { batch: any, onDelete:
                           <Scale size={14} />
                         </div>
                         <div>
-                          <div className="font-bold text-gray-300">{t.quantity.toFixed(4)}g @ ¥{t.buy_price.toFixed(4)}</div>
+                          <div className="font-bold text-gray-300">{t.quantity.toFixed(4)}{unit.symbol} @ {currency.symbol}{t.buy_price.toFixed(4)}</div>
                           <div className="text-[10px] text-gray-600">{format(new Date(t.buy_date), 'yyyy-MM-dd')}</div>
                         </div>
                       </div>
                       <div className="text-right">
-                        <div className="text-[10px] text-gray-600 uppercase">买入总价</div>
-                        <div className="font-mono text-gray-400">¥{(t.buy_price * t.quantity).toFixed(4)}</div>
+                        <div className="text-[10px] text-gray-600 uppercase">买入成本</div>
+                        <div className="font-mono text-gray-400">{currency.symbol}{(effectiveCost(t) * t.quantity).toFixed(4)}</div>
                       </div>
                     </div>
                   ))}
@@ -1198,7 +2277,23 @@ const BatchItem = ({ batch, onDelete, askConfirmation }: { batch: any, onDelete:
   );
 }
 
-function StatCard({ label, value, icon, trend }: { label: string, value: string, icon: React.ReactNode, trend?: 'positive' | 'negative' }) {
+// Realized profits follow the cost method and are in the base currency; a lot's floating
+// profit is in the lot's own currency. Each carries the symbol of the currency it is in.
+const formatProfit = (value: number, symbol: string) =>
+  `${value >= 0 ? '+' : '-'}${symbol}${Math.abs(value).toFixed(4)}`;
+
+const formatPercent = (value: number | null) =>
+  value !== null ? `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%` : '--';
+
+function ReturnSummary({ metrics }: { metrics: ReturnMetrics }) {
+  return (
+    <span className="text-[10px] text-gray-500">
+      持有 {metrics.days.toFixed(0)} 天 · 收益率 {formatPercent(metrics.returnOnCost)} · 年化 {formatPercent(metrics.annualized)}
+    </span>
+  );
+}
+
+function StatCard({ label, value, icon, trend, hint }: { label: string, value: string, icon: React.ReactNode, trend?: 'positive' | 'negative', hint?: string }) {
   return (
     <div className="bg-[#141414] p-6 rounded-2xl border border-[#262626] shadow-sm hover:shadow-md transition-shadow">
       <div className="flex items-center justify-between mb-4">
@@ -1215,6 +2310,75 @@ function StatCard({ label, value, icon, trend }: { label: string, value: string,
           </span>
         )}
       </div>
+      {hint && <div className="mt-1 text-[10px] text-gray-500">{hint}</div>}
+    </div>
+  );
+}
+
+interface CurrentPriceCardProps {
+  label: string;
+  price: string;
+  feeRate: string;
+  auto: boolean;
+  canAuto: boolean; // only gold has a price feed
+  feedPrice: number | null;
+  onChange: (patch: { price?: string, feeRate?: string, auto?: boolean }) => void;
+  onEditingChange: (editing: boolean) => void; // the price field gained or lost focus; Enter commits it too
+}
+
+function CurrentPriceCard({ label, price, feeRate, auto, canAuto, feedPrice, onChange, onEditingChange }: CurrentPriceCardProps) {
+  return (
+    <div className="bg-[#141414] p-6 rounded-2xl border border-[#262626] shadow-sm hover:shadow-md transition-shadow">
+      <div className="flex items-center justify-between mb-4">
+        <span className="text-xs font-bold text-gray-500 uppercase tracking-wider">{label}</span>
+        {canAuto && (
+          <div className="flex bg-[#0A0A0A] p-1 rounded-lg border border-[#262626]">
+            {[false, true].map(mode => (
+              <button 
+                key={String(mode)}
+                onClick={() => onChange({ auto: mode })}
+                className={cn(
+                  "px-2 py-0.5 text-[10px] font-bold rounded-md transition-all",
+                  auto === mode ? "bg-yellow-500 text-black" : "text-gray-500 hover:text-gray-300"
+                )}
+              >
+                {mode ? '行情' : '手动'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {auto ? (
+        <div className="text-2xl font-black tracking-tight text-white">
+          {feedPrice !== null ? feedPrice.toFixed(2) : '--'}
+        </div>
+      ) : (
+        <input 
+          type="number" 
+          step="0.01"
+          value={price}
+          onChange={e => onChange({ price: e.target.value })}
+          onFocus={() => onEditingChange(true)}
+          onBlur={() => onEditingChange(false)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          className="w-full bg-transparent text-2xl font-black tracking-tight text-white outline-none placeholder:text-gray-700"
+          placeholder="0.00"
+        />
+      )}
+      <label className="mt-1 flex items-center gap-1 text-[10px] text-gray-500">
+        预估卖出费率
+        <input 
+          type="number" 
+          step="0.01"
+          min="0"
+          value={feeRate}
+          onChange={e => onChange({ feeRate: e.target.value })}
+          className="w-14 bg-[#1A1A1A] border border-[#262626] rounded px-1.5 py-0.5 text-gray-300 outline-none focus:ring-1 focus:ring-yellow-500"
+        />
+        %
+      </label>
     </div>
   );
 }
@@ -1226,22 +2390,43 @@ interface TradeItemProps {
   onDelete: () => void;
   onEdit: () => void;
   onDeleteSell: (sellId: number) => void;
-  onDeleteBatchSell: (sellIds: number[]) => void;
+  onDeleteBatchSell: (batchId: string) => void;
   onEditSell: (sell: Sell) => void;
   onSell: () => void;
   askConfirmation: (title: string, message: string, onConfirm: () => void) => void;
+  currentPrice: number | null; // per base unit of the trade's instrument, in the base currency
+  sellFeeRate: number;
+  fx: Fx;
+  profits: Map<number, number>; // realized profit per sell under the cost method, in the base currency
+  accounts: Account[];
+  showAccount: boolean; // in the combined view, label which account the lot is in
   key?: React.Key;
 }
 
-const TradeItem = ({ trade, isSelected, onSelect, onDelete, onEdit, onDeleteSell, onDeleteBatchSell, onEditSell, onSell, askConfirmation }: TradeItemProps) => {
+const TradeItem = ({ trade, isSelected, onSelect, onDelete, onEdit, onDeleteSell, onDeleteBatchSell, onEditSell, onSell, askConfirmation, currentPrice, sellFeeRate, fx, profits, accounts, showAccount }: TradeItemProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showCalculator, setShowCalculator] = useState(false);
   const soldWeight = trade.sells.reduce((acc, s) => acc + s.quantity, 0);
   const remainingWeight = trade.quantity - soldWeight;
   const isFullySold = remainingWeight < 0.0001;
   
-  const totalProfit = trade.sells.reduce((acc, s) => {
-    return acc + ((s.sell_price - trade.buy_price) * s.quantity - s.fee);
-  }, 0);
+  const totalProfit = trade.sells.reduce((acc, s) => acc + (profits.get(s.id) ?? 0), 0);
+  const cost = effectiveCost(trade);
+  const hasExtraCosts = trade.buy_fee > 0 || trade.spread > 0 || trade.premium > 0;
+  const unit = UNITS[trade.unit];
+  const currency = CURRENCIES[trade.currency];
+  const baseSymbol = CURRENCIES[fx.base].symbol;
+  const withTrade = (sells: Sell[]) => sells.map(sell => ({ trade, sell }));
+
+  // Per-lot figures stay in the lot's own currency and unit
+  const lotPrice = !isFullySold && currentPrice !== null
+    ? fx.convert(currentPrice, fx.base, trade.currency, new Date().toISOString()) * unitFactor(trade.unit)
+    : null;
+  const floatingProfit = lotPrice !== null ? unrealizedProfit(trade, lotPrice, sellFeeRate) : null;
+  const breakEven = breakEvenPrice(cost, sellFeeRate);
+  // A lot whose take-profit or stop-loss the current price has reached is highlighted
+  const reachedLevels = lotPrice !== null ? reachedLotLevels(trade, lotPrice) : [];
 
   // Group sells by batch_id
   const groupedSells = useMemo(() => {
@@ -1268,6 +2453,8 @@ const TradeItem = ({ trade, isSelected, onSelect, onDelete, onEdit, onDeleteSell
       className={cn(
         "group bg-[#141414] rounded-2xl border transition-all overflow-hidden relative",
         isFullySold ? "border-[#262626] opacity-60 grayscale-[0.5]" : "border-[#262626] shadow-sm hover:border-yellow-500/30",
+        reachedLevels.includes('target') && "ring-2 ring-rose-500 border-rose-500",
+        reachedLevels.includes('stop') && "ring-2 ring-emerald-500 border-emerald-500",
         isSelected && "ring-2 ring-yellow-500 border-yellow-500"
       )}
     >
@@ -1293,13 +2480,36 @@ const TradeItem = ({ trade, isSelected, onSelect, onDelete, onEdit, onDeleteSell
             </div>
             <div>
               <div className="flex items-center gap-2">
-                <span className={cn("font-bold text-lg text-white", isFullySold && "text-gray-500")}>买入 {trade.quantity.toFixed(4)}g</span>
+                <span className={cn("font-bold text-lg text-white", isFullySold && "text-gray-500")}>买入 {trade.quantity.toFixed(4)}{unit.symbol}</span>
                 <span className={cn(
                   "text-[10px] px-2 py-0.5 rounded-full font-bold uppercase tracking-wider",
                   isFullySold ? "bg-[#262626] text-gray-500" : "bg-yellow-500/20 text-yellow-500"
                 )}>
-                  {isFullySold ? '已售罄' : `剩余 ${remainingWeight.toFixed(4)}g`}
+                  {isFullySold ? '已售罄' : `剩余 ${remainingWeight.toFixed(4)}${unit.symbol}`}
                 </span>
+                {showAccount && (
+                  <span className="flex items-center gap-1 text-[10px] px-2 py-0.5 rounded-full font-bold bg-[#262626] text-gray-400">
+                    <Wallet size={10} />
+                    {accounts.find(a => a.id === trade.account_id)?.name}
+                  </span>
+                )}
+                {!isFullySold && trade.target_price !== null && (
+                  <span className={cn(
+                    "text-[10px] px-2 py-0.5 rounded-full font-bold",
+                    reachedLevels.includes('target') ? "bg-rose-500 text-white" : "bg-rose-500/10 text-rose-400"
+                  )}>
+                    止盈 {currency.symbol}{trade.target_price}
+                  </span>
+                )}
+                {!isFullySold && trade.stop_price !== null && (
+                  <span className={cn(
+                    "text-[10px] px-2 py-0.5 rounded-full font-bold",
+                    reachedLevels.includes('stop') ? "bg-emerald-500 text-white" : "bg-emerald-500/10 text-emerald-400"
+                  )}>
+                    止损 {currency.symbol}{trade.stop_price}
+                  </span>
+                )}
+                {trade.tags.map(tag => <TagChip key={tag} tag={tag} />)}
               </div>
               <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500 mt-0.5">
                 <span className="flex items-center gap-1"><Calendar size={12} /> {format(new Date(trade.buy_date), 'yyyy-MM-dd HH:mm')}</span>
@@ -1307,26 +2517,59 @@ const TradeItem = ({ trade, isSelected, onSelect, onDelete, onEdit, onDeleteSell
                   <span className={cn(
                     "font-bold px-2 py-0.5 rounded",
                     isFullySold ? "bg-[#262626] text-gray-500" : "text-yellow-500 bg-yellow-500/10"
-                  )}>单价: ¥{trade.buy_price.toFixed(4)}</span>
+                  )}>单价: {currency.symbol}{trade.buy_price.toFixed(4)}</span>
                   <span className="text-gray-700">|</span>
                   <span className={cn(
                     "font-bold px-2 py-0.5 rounded",
                     isFullySold ? "bg-[#262626] text-gray-500" : "text-blue-400 bg-blue-400/10"
-                  )}>总价: ¥{(trade.buy_price * trade.quantity).toFixed(4)}</span>
+                  )}>总价: {currency.symbol}{(trade.buy_price * trade.quantity).toFixed(4)}</span>
+                  {hasExtraCosts && (
+                    <>
+                      <span className="text-gray-700">|</span>
+                      <span
+                        title={`手续费 ${currency.symbol}${trade.buy_fee.toFixed(2)} · 点差 ${currency.symbol}${trade.spread}/${unit.label} · 溢价 ${currency.symbol}${trade.premium}/${unit.label}`}
+                        className={cn(
+                          "font-bold px-2 py-0.5 rounded",
+                          isFullySold ? "bg-[#262626] text-gray-500" : "text-orange-400 bg-orange-400/10"
+                        )}
+                      >成本: {currency.symbol}{cost.toFixed(4)}/{unit.label}</span>
+                    </>
+                  )}
+                  {!isFullySold && breakEven !== null && (
+                    <>
+                      <span className="text-gray-700">|</span>
+                      <span
+                        title="扣除预估卖出费用后不亏损的最低卖价"
+                        className="font-bold px-2 py-0.5 rounded text-gray-300 bg-[#262626]"
+                      >保本: {currency.symbol}{breakEven.toFixed(4)}/{unit.label}</span>
+                    </>
+                  )}
                 </div>
               </div>
             </div>
           </div>
 
           <div className="flex items-center justify-between md:justify-end gap-6">
+            {floatingProfit !== null && (
+              <div className="flex flex-col items-end">
+                <span className="text-[10px] font-bold text-gray-500 uppercase">浮动盈亏</span>
+                <span className={cn(
+                  "font-bold text-lg",
+                  floatingProfit >= 0 ? "text-rose-500" : "text-emerald-500"
+                )}>
+                  {formatProfit(floatingProfit, currency.symbol)}
+                </span>
+              </div>
+            )}
             <div className="flex flex-col items-end">
               <span className="text-[10px] font-bold text-gray-500 uppercase">累计净收益</span>
               <span className={cn(
                 "font-bold text-lg",
                 isFullySold ? "text-gray-500" : (totalProfit >= 0 ? "text-rose-500" : "text-emerald-500")
               )}>
-                {totalProfit >= 0 ? '+' : ''}{totalProfit.toFixed(4)}
+                {formatProfit(totalProfit, baseSymbol)}
               </span>
+              {trade.sells.length > 0 && <ReturnSummary metrics={realizedReturn(withTrade(trade.sells), profits, fx)} />}
             </div>
             
             <div className="flex items-center gap-2">
@@ -1350,13 +2593,43 @@ const TradeItem = ({ trade, isSelected, onSelect, onDelete, onEdit, onDeleteSell
                 >
                   <Pencil size={16} className="pointer-events-none" />
                 </button>
+                {!isFullySold && (
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowCalculator(!showCalculator);
+                    }}
+                    className={cn(
+                      "p-2 rounded-lg transition-all cursor-pointer",
+                      showCalculator ? "text-yellow-500 bg-yellow-500/10" : "text-gray-500 hover:text-white hover:bg-[#262626]"
+                    )}
+                    title="目标收益"
+                  >
+                    <Calculator size={16} className="pointer-events-none" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setShowHistory(!showHistory);
+                  }}
+                  className={cn(
+                    "p-2 rounded-lg transition-all cursor-pointer",
+                    showHistory ? "text-yellow-500 bg-yellow-500/10" : "text-gray-500 hover:text-white hover:bg-[#262626]"
+                  )}
+                  title="修改历史"
+                >
+                  <History size={16} className="pointer-events-none" />
+                </button>
                 <button 
                   type="button"
                   onClick={(e) => { 
                     e.stopPropagation(); 
                     askConfirmation(
                       '确认删除买入记录？',
-                      '确定要删除这条买入记录及其所有卖出记录吗？此操作将永久删除数据，不可撤销。',
+                      '确定要删除这条买入记录及其所有卖出记录吗？删除后可撤销。',
                       () => onDelete()
                     );
                   }}
@@ -1404,7 +2677,9 @@ const TradeItem = ({ trade, isSelected, onSelect, onDelete, onEdit, onDeleteSell
                     const totalBatchQuantity = sells.reduce((acc, s) => acc + s.quantity, 0);
                     const totalBatchFee = sells.reduce((acc, s) => acc + s.fee, 0);
                     const avgPrice = sells[0].sell_price; // Batch sells share price
-                    const totalBatchProfit = sells.reduce((acc, s) => acc + ((s.sell_price - trade.buy_price) * s.quantity - s.fee), 0);
+                    const totalBatchProfit = sells.reduce((acc, s) => acc + (profits.get(s.id) ?? 0), 0);
+                    const batchReturn = realizedReturn(withTrade(sells), profits, fx);
+                    const sellCurrency = CURRENCIES[sells[0].currency];
                     
                     return (
                       <div key={batchId} className="bg-[#141414] p-3 rounded-xl border border-[#262626] shadow-sm text-sm">
@@ -1418,26 +2693,29 @@ const TradeItem = ({ trade, isSelected, onSelect, onDelete, onEdit, onDeleteSell
                             </div>
                             <div>
                               <div className="font-bold flex items-center gap-2 text-white">
-                                {totalBatchQuantity.toFixed(4)}g 
+                                {totalBatchQuantity.toFixed(4)}{unit.symbol} 
                                 <span className="text-rose-400 bg-rose-400/10 px-2 py-0.5 rounded text-[10px]">合并卖出</span>
-                                <span className="text-blue-400 bg-blue-400/10 px-2 py-0.5 rounded text-[10px] font-bold">总价: ¥{(avgPrice * totalBatchQuantity).toFixed(4)}</span>
+                                <span className="text-blue-400 bg-blue-400/10 px-2 py-0.5 rounded text-[10px] font-bold">总价: {sellCurrency.symbol}{(avgPrice * totalBatchQuantity).toFixed(4)}</span>
+                                {sells[0].tags.map(tag => <TagChip key={tag} tag={tag} />)}
                               </div>
                               <div className="text-[10px] text-gray-500 flex items-center gap-2">
                                 {format(new Date(sells[0].sell_date), 'yyyy-MM-dd HH:mm')}
                                 <span className="text-gray-700">|</span>
-                                单价: ¥{avgPrice.toFixed(4)}
+                                单价: {sellCurrency.symbol}{avgPrice.toFixed(4)}
+                                <span className="text-gray-700">|</span>
+                                <ReturnSummary metrics={batchReturn} />
                               </div>
                             </div>
                           </div>
                           <div className="flex items-center gap-6">
                             <div className="flex flex-col items-end">
                               <span className="text-[10px] text-gray-500 uppercase">总手续费</span>
-                              <span className="font-mono text-xs text-gray-300">¥{totalBatchFee.toFixed(4)}</span>
+                              <span className="font-mono text-xs text-gray-300">{sellCurrency.symbol}{totalBatchFee.toFixed(4)}</span>
                             </div>
                             <div className="flex flex-col items-end min-w-[80px]">
                               <span className="text-[10px] text-gray-500 uppercase">净收益</span>
                               <span className={cn("font-bold", totalBatchProfit >= 0 ? "text-rose-500" : "text-emerald-500")}>
-                                {totalBatchProfit >= 0 ? '+' : ''}{totalBatchProfit.toFixed(4)}
+                                {formatProfit(totalBatchProfit, baseSymbol)}
                               </span>
                             </div>
                             <div className="flex items-center gap-1 relative z-20">
@@ -1448,7 +2726,7 @@ const TradeItem = ({ trade, isSelected, onSelect, onDelete, onEdit, onDeleteSell
                                   askConfirmation(
                                     '确认删除合并卖出记录？',
                                     '确定要删除这笔合并卖出记录吗？确认删除该合并卖出项下的所有记录？',
-                                    () => onDeleteBatchSell(sells.map(s => s.id))
+                                    () => onDeleteBatchSell(batchId)
                                   );
                                 }}
                                 className="p-1.5 min-w-[32px] min-h-[32px] flex items-center justify-center text-gray-600 hover:text-rose-500 transition-all cursor-pointer"
@@ -1464,34 +2742,40 @@ const TradeItem = ({ trade, isSelected, onSelect, onDelete, onEdit, onDeleteSell
 
                   {/* Render Individual Sells */}
                   {groupedSells.individual.map(sell => {
-                    const sellProfit = (sell.sell_price - trade.buy_price) * sell.quantity - sell.fee;
+                    const profit = profits.get(sell.id) ?? 0;
+                    const sellCurrency = CURRENCIES[sell.currency];
                     return (
                       <div key={sell.id} className="flex items-center justify-between bg-[#141414] p-3 rounded-xl border border-[#262626] shadow-sm text-sm">
                         <div className="flex items-center gap-4">
                           <div className={cn(
                             "w-8 h-8 rounded-lg flex items-center justify-center",
-                            sellProfit >= 0 ? "bg-rose-500/10 text-rose-500" : "bg-emerald-500/10 text-emerald-500"
+                            profit >= 0 ? "bg-rose-500/10 text-rose-500" : "bg-emerald-500/10 text-emerald-500"
                           )}>
-                            {sellProfit >= 0 ? <TrendingUp size={16} /> : <TrendingDown size={16} />}
+                            {profit >= 0 ? <TrendingUp size={16} /> : <TrendingDown size={16} />}
                           </div>
                           <div>
                             <div className="font-bold flex items-center gap-2 text-white">
-                              {sell.quantity.toFixed(4)}g 
-                              <span className="text-rose-400 bg-rose-400/10 px-2 py-0.5 rounded text-[10px]">单价: ¥{sell.sell_price.toFixed(4)}</span>
-                              <span className="text-blue-400 bg-blue-400/10 px-2 py-0.5 rounded text-[10px] font-bold">总价: ¥{(sell.sell_price * sell.quantity).toFixed(4)}</span>
+                              {sell.quantity.toFixed(4)}{unit.symbol} 
+                              <span className="text-rose-400 bg-rose-400/10 px-2 py-0.5 rounded text-[10px]">单价: {sellCurrency.symbol}{sell.sell_price.toFixed(4)}</span>
+                              <span className="text-blue-400 bg-blue-400/10 px-2 py-0.5 rounded text-[10px] font-bold">总价: {sellCurrency.symbol}{(sell.sell_price * sell.quantity).toFixed(4)}</span>
+                              {sell.tags.map(tag => <TagChip key={tag} tag={tag} />)}
+                            </div>
+                            <div className="text-[10px] text-gray-500 flex items-center gap-2">
+                              {format(new Date(sell.sell_date), 'yyyy-MM-dd HH:mm')}
+                              <span className="text-gray-700">|</span>
+                              <ReturnSummary metrics={realizedReturn(withTrade([sell]), profits, fx)} />
                             </div>
-                            <div className="text-[10px] text-gray-500">{format(new Date(sell.sell_date), 'yyyy-MM-dd HH:mm')}</div>
                           </div>
                         </div>
                         <div className="flex items-center gap-6">
                           <div className="flex flex-col items-end">
                             <span className="text-[10px] text-gray-500 uppercase">手续费</span>
-                            <span className="font-mono text-xs text-gray-300">¥{sell.fee.toFixed(4)}</span>
+                            <span className="font-mono text-xs text-gray-300">{sellCurrency.symbol}{sell.fee.toFixed(4)}</span>
                           </div>
                           <div className="flex flex-col items-end min-w-[80px]">
                             <span className="text-[10px] text-gray-500 uppercase">净收益</span>
-                            <span className={cn("font-bold", sellProfit >= 0 ? "text-rose-500" : "text-emerald-500")}>
-                              {sellProfit >= 0 ? '+' : ''}{sellProfit.toFixed(4)}
+                            <span className={cn("font-bold", profit >= 0 ? "text-rose-500" : "text-emerald-500")}>
+                              {formatProfit(profit, baseSymbol)}
                             </span>
                           </div>
                           <div className="flex items-center gap-1 relative z-20">
@@ -1527,6 +2811,47 @@ const TradeItem = ({ trade, isSelected, onSelect, onDelete, onEdit, onDeleteSell
           </AnimatePresence>
         </div>
       )}
+
+      <AnimatePresence>
+        {showCalculator && !isFullySold && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden bg-[#0D0D0D]"
+          >
+            <div className="p-4 space-y-2">
+              <div className="text-[10px] font-bold text-gray-500 uppercase tracking-widest px-1">目标收益</div>
+              <div className="bg-[#141414] px-3 py-3 rounded-xl border border-[#262626]">
+                <TargetProfitCalculator
+                  cost={cost}
+                  quantity={remainingWeight}
+                  feeRate={sellFeeRate}
+                  currentPrice={lotPrice}
+                  symbol={currency.symbol}
+                  unit={unit}
+                />
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showHistory && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden bg-[#0D0D0D]"
+          >
+            <div className="p-4 space-y-2">
+              <div className="text-[10px] font-bold text-gray-500 uppercase tracking-widest px-1">修改历史</div>
+              <TradeHistory trade={trade} accounts={accounts} />
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </motion.div>
   );
 }
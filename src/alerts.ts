@@ -0,0 +1,37 @@
+import { INSTRUMENTS } from './instruments.ts';
+import type { AlertDirection, AlertEvent, Trade } from './types.ts';
+
+export const ALERT_KIND_LABELS: Record<AlertEvent['kind'], string> = {
+  above: '价格升破',
+  below: '价格跌破',
+  target: '达到止盈价',
+  stop: '触及止损价'
+};
+
+export const ALERT_DIRECTION_LABELS: Record<AlertDirection, string> = {
+  above: '高于',
+  below: '低于'
+};
+
+export const alertReached = (direction: AlertDirection, price: number, level: number) =>
+  direction === 'above' ? price >= level : price <= level;
+
+// Take-profit fires on the way up, stop-loss on the way down
+export const lotAlertDirection = (kind: 'target' | 'stop'): AlertDirection => kind === 'target' ? 'above' : 'below';
+
+// Which of a lot's levels the price (per unit of the lot, in its currency) has reached
+export function reachedLotLevels(trade: Trade, price: number): ('target' | 'stop')[] {
+  const levels = [['target', trade.target_price], ['stop', trade.stop_price]] as const;
+  return levels
+    .filter(([kind, level]) => level !== null && alertReached(lotAlertDirection(kind), price, level))
+    .map(([kind]) => kind);
+}
+
+export function describeAlertEvent(event: AlertEvent): { title: string; body: string } {
+  const instrument = INSTRUMENTS[event.instrument].label;
+  const scope = event.trade_id !== null ? `${instrument}持仓 #${event.trade_id} ` : instrument;
+  return {
+    title: `${scope}${ALERT_KIND_LABELS[event.kind]} ${event.level.toFixed(2)}`,
+    body: `当前价格 ${event.price.toFixed(2)}`
+  };
+}
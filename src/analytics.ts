@@ -0,0 +1,118 @@
+import { holdingDays } from './ledger.ts';
+import { toBaseQuantity } from './instruments.ts';
+import type { Trade } from './types.ts';
+
+export interface SellOutcome {
+  id: number;
+  date: string;
+  profit: number; // realized profit in the base currency, under the cost method
+  quantity: number; // in the instrument's base unit
+  days: number;
+}
+
+export interface DrawdownInfo {
+  amount: number;
+  peakDate: string | null;
+  troughDate: string | null;
+}
+
+export interface HoldingBucket {
+  label: string;
+  count: number;
+  profit: number;
+}
+
+export interface TradingAnalytics {
+  count: number;
+  wins: number;
+  losses: number;
+  winRate: number | null;
+  averageWin: number | null;
+  averageLoss: number | null; // a negative amount
+  profitFactor: number | null; // Infinity when there are gains but no losses
+  profitPerUnit: number | null;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  maxDrawdown: DrawdownInfo;
+  curve: { date: string; cumulative: number }[];
+  holdingBuckets: HoldingBucket[];
+}
+
+// Upper bounds in days, inclusive
+const HOLDING_BUCKETS: { label: string; max: number }[] = [
+  { label: '7 天内', max: 7 },
+  { label: '8–30 天', max: 30 },
+  { label: '31–90 天', max: 90 },
+  { label: '91–180 天', max: 180 },
+  { label: '181–365 天', max: 365 },
+  { label: '1 年以上', max: Infinity }
+];
+
+// One outcome per sell, oldest first; `profits` is the cost-basis replay keyed by sell id.
+export function sellOutcomes(trades: Trade[], profits: Map<number, number>): SellOutcome[] {
+  return trades
+    .flatMap(t => t.sells.map(s => ({
+      id: s.id,
+      date: s.sell_date,
+      profit: profits.get(s.id) ?? 0,
+      quantity: toBaseQuantity(s.quantity, t.unit),
+      days: holdingDays(t, s)
+    })))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+}
+
+// A sell that broke exactly even counts as neither a win nor a loss and ends any streak.
+export function analyzeSells(outcomes: SellOutcome[]): TradingAnalytics {
+  const gains = outcomes.filter(o => o.profit > 0);
+  const losses = outcomes.filter(o => o.profit < 0);
+  const grossGain = gains.reduce((acc, o) => acc + o.profit, 0);
+  const grossLoss = -losses.reduce((acc, o) => acc + o.profit, 0);
+  const totalProfit = grossGain - grossLoss;
+  const totalQuantity = outcomes.reduce((acc, o) => acc + o.quantity, 0);
+
+  let winStreak = 0;
+  let lossStreak = 0;
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+  let cumulative = 0;
+  let peak = { value: 0, date: null as string | null };
+  const maxDrawdown: DrawdownInfo = { amount: 0, peakDate: null, troughDate: null };
+  const curve: TradingAnalytics['curve'] = [];
+
+  outcomes.forEach(o => {
+    winStreak = o.profit > 0 ? winStreak + 1 : 0;
+    lossStreak = o.profit < 0 ? lossStreak + 1 : 0;
+    longestWinStreak = Math.max(longestWinStreak, winStreak);
+    longestLossStreak = Math.max(longestLossStreak, lossStreak);
+
+    cumulative += o.profit;
+    curve.push({ date: o.date, cumulative });
+    if (cumulative > peak.value) {
+      peak = { value: cumulative, date: o.date };
+    } else if (peak.value - cumulative > maxDrawdown.amount) {
+      maxDrawdown.amount = peak.value - cumulative;
+      maxDrawdown.peakDate = peak.date;
+      maxDrawdown.troughDate = o.date;
+    }
+  });
+
+  return {
+    count: outcomes.length,
+    wins: gains.length,
+    losses: losses.length,
+    winRate: outcomes.length > 0 ? gains.length / outcomes.length : null,
+    averageWin: gains.length > 0 ? grossGain / gains.length : null,
+    averageLoss: losses.length > 0 ? -grossLoss / losses.length : null,
+    profitFactor: grossLoss > 0 ? grossGain / grossLoss : grossGain > 0 ? Infinity : null,
+    profitPerUnit: totalQuantity > 0 ? totalProfit / totalQuantity : null,
+    longestWinStreak,
+    longestLossStreak,
+    maxDrawdown,
+    curve,
+    holdingBuckets: HOLDING_BUCKETS.map((bucket, i) => {
+      const min = i > 0 ? HOLDING_BUCKETS[i - 1].max : -Infinity;
+      const inBucket = outcomes.filter(o => o.days > min && o.days <= bucket.max);
+      return { label: bucket.label, count: inBucket.length, profit: inBucket.reduce((acc, o) => acc + o.profit, 0) };
+    })
+  };
+}
@@ -0,0 +1,85 @@
+import type {
+  Account,
+  AccountInput,
+  AlertEvent,
+  AllocatedSellInput,
+  AuditEntry,
+  BackupFile,
+  BatchSellInput,
+  CsvImportRow,
+  Currency,
+  FxRate,
+  ImportReport,
+  Instrument,
+  PriceAlert,
+  PriceAlertInput,
+  PricePoint,
+  PriceQuote,
+  RestoreMode,
+  RestoreResult,
+  SellInput,
+  Trade,
+  TradeInput,
+  TrashContents
+} from './types.ts';
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(`/api${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || `请求失败 (${res.status})`);
+  }
+  return res.status === 204 ? (undefined as T) : res.json();
+}
+
+const send = <T>(method: string, path: string, body?: unknown) =>
+  request<T>(path, { method, body: body === undefined ? undefined : JSON.stringify(body) });
+
+export const api = {
+  listTrades: () => request<Trade[]>('/trades'),
+  createTrade: (input: TradeInput) => send<Trade>('POST', '/trades', input),
+  updateTrade: (id: number, input: TradeInput) => send<Trade>('PUT', `/trades/${id}`, input),
+  deleteTrade: (id: number) => send<void>('DELETE', `/trades/${id}`),
+  getTradeHistory: (id: number) => request<AuditEntry[]>(`/trades/${id}/history`),
+  createSell: (tradeId: number, input: SellInput) => send<Trade>('POST', `/trades/${tradeId}/sells`, input),
+  updateSell: (tradeId: number, sellId: number, input: SellInput) =>
+    send<Trade>('PUT', `/trades/${tradeId}/sells/${sellId}`, input),
+  deleteSell: (tradeId: number, sellId: number) => send<Trade>('DELETE', `/trades/${tradeId}/sells/${sellId}`),
+  deleteTradeBatchSells: (tradeId: number, batchId: string) =>
+    send<Trade>('DELETE', `/trades/${tradeId}/batches/${encodeURIComponent(batchId)}`),
+  createBatchSell: (input: BatchSellInput) => send<{ batch_id: string }>('POST', '/batch-sells', input),
+  createAllocatedSell: (input: AllocatedSellInput) => send<{ batch_id: string }>('POST', '/allocated-sells', input),
+  deleteBatch: (batchId: string) => send<void>('DELETE', `/batch-sells/${encodeURIComponent(batchId)}`),
+  importLedger: (trades: unknown[]) => send<ImportReport>('POST', '/import/ledger', { trades }),
+  importTrades: (rows: CsvImportRow[]) => send<{ imported: number }>('POST', '/import/trades', { rows }),
+  getBackup: () => request<BackupFile>('/backup'),
+  restoreBackup: (backup: unknown, mode: RestoreMode, dryRun: boolean) =>
+    send<RestoreResult>('POST', '/backup/restore', { backup, mode, dryRun }),
+  getPrice: () => request<PriceQuote>('/price'),
+  listPrices: (interval: 'day' | 'raw' = 'day') => request<PricePoint[]>(`/prices?interval=${interval}`),
+  importPrices: (points: PricePoint[]) => send<{ imported: number }>('POST', '/prices/import', { points }),
+  listTrash: () => request<TrashContents>('/trash'),
+  restoreTrashedTrade: (id: number) => send<void>('POST', `/trash/trades/${id}/restore`),
+  restoreTrashedSell: (id: number) => send<void>('POST', `/trash/sells/${id}/restore`),
+  restoreTrashedBatch: (batchId: string) => send<void>('POST', `/trash/batches/${encodeURIComponent(batchId)}/restore`),
+  purgeTrashedTrade: (id: number) => send<void>('DELETE', `/trash/trades/${id}`),
+  purgeTrashedSell: (id: number) => send<void>('DELETE', `/trash/sells/${id}`),
+  emptyTrash: () => send<void>('DELETE', '/trash'),
+  listAccounts: () => request<Account[]>('/accounts'),
+  createAccount: (input: AccountInput) => send<Account>('POST', '/accounts', input),
+  updateAccount: (id: number, input: AccountInput) => send<Account>('PUT', `/accounts/${id}`, input),
+  deleteAccount: (id: number) => send<void>('DELETE', `/accounts/${id}`),
+  listFxRates: () => request<FxRate[]>('/fx-rates'),
+  saveFxRates: (rates: FxRate[]) => send<{ saved: number }>('POST', '/fx-rates', { rates }),
+  deleteFxRate: (currency: Currency, date: string) => send<void>('DELETE', `/fx-rates/${currency}/${date}`),
+  listPriceAlerts: () => request<PriceAlert[]>('/alerts'),
+  createPriceAlert: (input: PriceAlertInput) => send<PriceAlert>('POST', '/alerts', input),
+  rearmPriceAlert: (id: number) => send<PriceAlert>('POST', `/alerts/${id}/rearm`),
+  deletePriceAlert: (id: number) => send<void>('DELETE', `/alerts/${id}`),
+  checkPriceAlerts: (instrument: Instrument, price: number) => send<AlertEvent[]>('POST', '/alerts/check', { instrument, price }),
+  listAlertEvents: (unseenOnly = false) => request<AlertEvent[]>(`/alert-events${unseenOnly ? '?unseen=1' : ''}`),
+  markAlertEventsSeen: (ids: number[]) => send<void>('POST', '/alert-events/seen', { ids })
+};
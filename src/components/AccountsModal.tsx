@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Wallet } from 'lucide-react';
+import { motion } from 'motion/react';
+import { api } from '../api.ts';
+import type { FeePlatform } from '../fees.ts';
+import type { Account, AccountInput } from '../types.ts';
+
+interface AccountsModalProps {
+  accounts: Account[];
+  platforms: FeePlatform[];
+  defaultPlatformName: string;
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+// Edits are saved right away: names when the field loses focus, platforms when picked.
+export function AccountsModal({ accounts, platforms, defaultPlatformName, onChanged, onClose }: AccountsModalProps) {
+  const [names, setNames] = useState<Record<number, string>>({});
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+    onChanged();
+  };
+
+  const save = (account: Account, patch: Partial<AccountInput>) =>
+    run(() => api.updateAccount(account.id, { name: account.name, platform_id: account.platform_id, ...patch }));
+
+  const commitName = (account: Account) => {
+    const name = names[account.id]?.trim();
+    setNames(({ [account.id]: _, ...rest }) => rest);
+    if (name && name !== account.name) save(account, { name });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-lg bg-[#141414] rounded-3xl shadow-2xl overflow-hidden border border-[#262626] max-h-[90vh] flex flex-col"
+      >
+        <div className="p-6 border-b border-[#262626] flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-white">账户管理</h3>
+            <p className="text-[10px] text-gray-500 mt-1">每个账户按所选平台的规则计算手续费</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white">
+            <Plus className="rotate-45" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-2 overflow-y-auto">
+          {accounts.map(account => (
+            <div key={account.id} className="flex items-center gap-3 bg-[#1A1A1A] px-3 py-2.5 rounded-lg border border-[#262626]">
+              <div className="w-7 h-7 shrink-0 rounded bg-[#0A0A0A] flex items-center justify-center text-gray-500">
+                <Wallet size={14} />
+              </div>
+              <input
+                value={names[account.id] ?? account.name}
+                onChange={e => setNames(prev => ({ ...prev, [account.id]: e.target.value }))}
+                onBlur={() => commitName(account)}
+                onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className="flex-1 min-w-0 bg-transparent text-sm font-bold text-white outline-none focus:ring-1 focus:ring-yellow-500 rounded px-1"
+              />
+              <select
+                value={account.platform_id ?? ''}
+                onChange={e => save(account, { platform_id: e.target.value || null })}
+                className="bg-[#0A0A0A] border border-[#262626] text-xs text-gray-300 rounded-lg px-2 py-1.5 outline-none focus:ring-1 focus:ring-yellow-500"
+              >
+                <option value="">默认 ({defaultPlatformName})</option>
+                {platforms.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+              <button
+                title="删除账户"
+                disabled={accounts.length <= 1}
+                onClick={() => {
+                  if (confirm(`确定要删除账户「${account.name}」吗？`)) run(() => api.deleteAccount(account.id));
+                }}
+                className="p-1.5 text-gray-500 hover:text-rose-500 transition-colors disabled:opacity-30 disabled:hover:text-gray-500"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={() => run(() => api.createAccount({ name: '新账户', platform_id: null }))}
+            className="w-full flex items-center justify-center gap-2 py-2.5 rounded-lg border border-dashed border-[#333] text-xs font-bold text-gray-500 hover:text-yellow-500 hover:border-yellow-500/40 transition-colors"
+          >
+            <Plus size={14} />
+            添加账户
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import React from 'react';
+import { BellRing, Plus } from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+import { describeAlertEvent } from '../alerts.ts';
+import { cn } from '../utils.ts';
+import type { AlertEvent } from '../types.ts';
+
+interface AlertToastsProps {
+  events: AlertEvent[];
+  onDismiss: (id: number) => void;
+}
+
+// In-app stand-in for system notifications, used when the browser has none or they are blocked.
+// Alerts stay until dismissed, since they may have fired while the user was away.
+export function AlertToasts({ events, onDismiss }: AlertToastsProps) {
+  return (
+    <div className="fixed top-20 right-4 z-[60] flex flex-col gap-2 w-80">
+      <AnimatePresence>
+        {events.map(event => {
+          const { title, body } = describeAlertEvent(event);
+          const rising = event.kind === 'above' || event.kind === 'target';
+          return (
+            <motion.div
+              key={event.id}
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 20 }}
+              className="flex items-start gap-3 bg-[#1A1A1A] border border-[#333] rounded-2xl p-4 shadow-2xl"
+            >
+              <BellRing size={18} className={cn("shrink-0 mt-0.5", rising ? "text-rose-500" : "text-emerald-500")} />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-bold text-white">{title}</div>
+                <div className="text-[10px] text-gray-500 mt-0.5">{body}</div>
+              </div>
+              <button onClick={() => onDismiss(event.id)} className="text-gray-500 hover:text-white">
+                <Plus size={16} className="rotate-45" />
+              </button>
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+}
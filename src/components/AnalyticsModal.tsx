@@ -0,0 +1,217 @@
+import React, { useMemo } from 'react';
+import { Plus } from 'lucide-react';
+import { motion } from 'motion/react';
+import {
+  AreaChart,
+  Area,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { format } from 'date-fns';
+import { analyzeSells, sellOutcomes } from '../analytics.ts';
+import { tagBreakdown } from '../tags.ts';
+import { cn } from '../utils.ts';
+import type { UnitInfo } from '../instruments.ts';
+import type { Trade } from '../types.ts';
+
+interface AnalyticsModalProps {
+  trades: Trade[]; // the lots the list currently shows
+  profits: Map<number, number>; // realized profit per sell id, in the base currency
+  isFiltered: boolean;
+  symbol: string; // of the base currency
+  unit: UnitInfo; // the instrument's base unit
+  onClose: () => void;
+}
+
+const TOOLTIP_STYLE = { backgroundColor: '#1A1A1A', borderRadius: '12px', border: '1px solid #333', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.5)' };
+
+const formatAmount = (symbol: string, value: number | null) =>
+  value !== null ? `${value >= 0 ? '' : '-'}${symbol}${Math.abs(value).toFixed(2)}` : '--';
+
+function Metric({ label, value, hint, tone }: { label: string, value: string, hint?: string, tone?: 'positive' | 'negative' }) {
+  return (
+    <div className="bg-[#1A1A1A] p-3 rounded-xl border border-[#262626]">
+      <div className="text-[10px] text-gray-500 uppercase font-bold">{label}</div>
+      <div className={cn(
+        "text-lg font-black tracking-tight",
+        tone === 'positive' ? "text-rose-500" : tone === 'negative' ? "text-emerald-500" : "text-white"
+      )}>{value}</div>
+      {hint && <div className="text-[10px] text-gray-600">{hint}</div>}
+    </div>
+  );
+}
+
+// Performance of the realized sells of the lots in the list, so the list's filters apply here too.
+export function AnalyticsModal({ trades, profits, isFiltered, symbol, unit, onClose }: AnalyticsModalProps) {
+  const analytics = useMemo(() => analyzeSells(sellOutcomes(trades, profits)), [trades, profits]);
+  const curve = analytics.curve.map(p => ({ '日期': format(new Date(p.date), 'MM/dd'), '累计收益': parseFloat(p.cumulative.toFixed(2)) }));
+  const buckets = analytics.holdingBuckets.map(b => ({ '持有期': b.label, '笔数': b.count }));
+  const { maxDrawdown } = analytics;
+  const tagRows = useMemo(() => tagBreakdown(trades, profits), [trades, profits]);
+  const hasTags = tagRows.some(r => r.tag !== null);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-3xl bg-[#141414] rounded-3xl shadow-2xl overflow-hidden border border-[#262626] max-h-[90vh] flex flex-col"
+      >
+        <div className="p-6 border-b border-[#262626] flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-white">交易分析</h3>
+            <p className="text-[10px] text-gray-500 mt-1">
+              基于 {analytics.count} 笔卖出的已实现收益{isFiltered && '（已按当前筛选条件过滤）'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white">
+            <Plus className="rotate-45" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {analytics.count === 0 ? (
+            <p className="text-xs text-gray-600 text-center py-10">暂无卖出记录</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <Metric
+                  label="胜率"
+                  value={analytics.winRate !== null ? `${(analytics.winRate * 100).toFixed(1)}%` : '--'}
+                  hint={`盈利 ${analytics.wins} 笔 · 亏损 ${analytics.losses} 笔`}
+                />
+                <Metric label="平均盈利" value={formatAmount(symbol, analytics.averageWin)} tone="positive" />
+                <Metric label="平均亏损" value={formatAmount(symbol, analytics.averageLoss)} tone="negative" />
+                <Metric
+                  label="盈亏比 (Profit Factor)"
+                  value={analytics.profitFactor === null ? '--' : Number.isFinite(analytics.profitFactor) ? analytics.profitFactor.toFixed(2) : '∞'}
+                  hint="总盈利 ÷ 总亏损"
+                />
+                <Metric
+                  label={`每${unit.label}收益`}
+                  value={formatAmount(symbol, analytics.profitPerUnit)}
+                  tone={(analytics.profitPerUnit ?? 0) >= 0 ? 'positive' : 'negative'}
+                />
+                <Metric label="最长连胜" value={`${analytics.longestWinStreak} 笔`} />
+                <Metric label="最长连亏" value={`${analytics.longestLossStreak} 笔`} />
+                <Metric
+                  label="最大回撤"
+                  value={formatAmount(symbol, -maxDrawdown.amount)}
+                  tone={maxDrawdown.amount > 0 ? 'negative' : undefined}
+                  hint={maxDrawdown.troughDate
+                    ? `${maxDrawdown.peakDate ? format(new Date(maxDrawdown.peakDate), 'yyyy-MM-dd') : '起始'} → ${format(new Date(maxDrawdown.troughDate), 'yyyy-MM-dd')}`
+                    : '累计收益未曾回落'}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">累计已实现收益</div>
+                <div className="h-[200px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={curve}>
+                      <defs>
+                        <linearGradient id="colorCumulative" x1="0" y1="0" x2="0" y2="1">
+                          <stop offset="5%" stopColor="#EAB308" stopOpacity={0.2}/>
+                          <stop offset="95%" stopColor="#EAB308" stopOpacity={0}/>
+                        </linearGradient>
+                      </defs>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#262626" />
+                      <XAxis dataKey="日期" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#525252' }} />
+                      <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#525252' }} />
+                      <Tooltip
+                        contentStyle={TOOLTIP_STYLE}
+                        itemStyle={{ color: '#EAB308' }}
+                        labelStyle={{ fontWeight: 'bold', marginBottom: '4px', color: '#FFF' }}
+                      />
+                      <Area type="monotone" dataKey="累计收益" stroke="#EAB308" strokeWidth={2} fillOpacity={1} fill="url(#colorCumulative)" />
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">持有期分布</div>
+                <div className="h-[180px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={buckets}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#262626" />
+                      <XAxis dataKey="持有期" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#525252' }} />
+                      <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#525252' }} />
+                      <Tooltip
+                        contentStyle={TOOLTIP_STYLE}
+                        itemStyle={{ color: '#60A5FA' }}
+                        labelStyle={{ fontWeight: 'bold', marginBottom: '4px', color: '#FFF' }}
+                        cursor={{ fill: '#1A1A1A' }}
+                      />
+                      <Bar dataKey="笔数" fill="#60A5FA" radius={[4, 4, 0, 0]} barSize={32} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+                  {analytics.holdingBuckets.map(b => (
+                    <div key={b.label} className="text-center">
+                      <div className="text-[10px] text-gray-500">{b.label}</div>
+                      <div className={cn("text-xs font-mono font-bold", b.profit >= 0 ? "text-rose-500" : "text-emerald-500")}>
+                        {b.count > 0 ? formatAmount(symbol, b.profit) : '--'}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {hasTags && (
+                <div className="space-y-2">
+                  <div className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">按标签</div>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-[10px] text-gray-500 uppercase">
+                        <th className="text-left font-bold py-1.5">标签</th>
+                        <th className="text-right font-bold py-1.5">卖出笔数</th>
+                        <th className="text-right font-bold py-1.5">胜率</th>
+                        <th className="text-right font-bold py-1.5">卖出数量</th>
+                        <th className="text-right font-bold py-1.5">已实现收益</th>
+                        <th className="text-right font-bold py-1.5">持仓笔数</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {tagRows.map(r => (
+                        <tr key={r.tag ?? ''} className="border-t border-[#262626]">
+                          <td className={cn("py-1.5 font-bold", r.tag === null ? "text-gray-500" : "text-yellow-500")}>
+                            {r.tag === null ? '未加标签' : `#${r.tag}`}
+                          </td>
+                          <td className="py-1.5 text-right font-mono text-gray-300">{r.sells}</td>
+                          <td className="py-1.5 text-right font-mono text-gray-300">
+                            {r.sells > 0 ? `${(r.wins / r.sells * 100).toFixed(1)}%` : '--'}
+                          </td>
+                          <td className="py-1.5 text-right font-mono text-gray-300">{r.quantity.toFixed(4)}{unit.symbol}</td>
+                          <td className={cn("py-1.5 text-right font-mono font-bold", r.profit >= 0 ? "text-rose-500" : "text-emerald-500")}>
+                            {r.sells > 0 ? formatAmount(symbol, r.profit) : '--'}
+                          </td>
+                          <td className="py-1.5 text-right font-mono text-gray-300">{r.openLots}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-[10px] text-gray-600">卖出计入其自身及所属买入记录的标签，带多个标签时会在各行重复计算</p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Download, Upload, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format } from 'date-fns';
+import { api } from '../api.ts';
+import { cn, downloadFile } from '../utils.ts';
+import type { RestoreMode, RestoreResult } from '../types.ts';
+
+interface BackupModalProps {
+  onRestored: () => void;
+  onClose: () => void;
+}
+
+export function BackupModal({ onRestored, onClose }: BackupModalProps) {
+  const [backup, setBackup] = useState<unknown>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [preview, setPreview] = useState<RestoreResult | null>(null);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Every file/mode change re-runs a server-side dry run so the preview matches what a restore would do.
+  useEffect(() => {
+    if (backup === null) return;
+    let cancelled = false;
+    setPreview(null);
+    setError(null);
+    api.restoreBackup(backup, mode, true)
+      .then(r => { if (!cancelled) setPreview(r); })
+      .catch(e => { if (!cancelled) setError(e.message); });
+    return () => { cancelled = true; };
+  }, [backup, mode]);
+
+  const handleDownload = async () => {
+    setIsBusy(true);
+    try {
+      const file = await api.getBackup();
+      downloadFile(
+        JSON.stringify(file, null, 2),
+        `黄金交易备份-v${file.schemaVersion}-${format(new Date(), 'yyyyMMdd-HHmm')}.json`,
+        'application/json'
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setResult(null);
+    setFileName(file.name);
+    try {
+      setBackup(JSON.parse(await file.text()));
+    } catch {
+      setBackup(null);
+      setPreview(null);
+      setError('文件不是有效的 JSON，无法恢复');
+    }
+  };
+
+  const handleRestore = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      setResult(await api.restoreBackup(backup, mode, false));
+      setBackup(null);
+      setPreview(null);
+      onRestored();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const summary = result ?? preview;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-md bg-[#141414] rounded-3xl shadow-2xl overflow-hidden border border-[#262626]"
+      >
+        <div className="p-6 border-b border-[#262626] flex items-center justify-between">
+          <h3 className="text-xl font-bold text-white">备份 / 恢复</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white">
+            <Plus className="rotate-45" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-gray-500 uppercase">备份</label>
+            <button
+              disabled={isBusy}
+              onClick={handleDownload}
+              className="w-full flex items-center justify-center gap-2 bg-[#1A1A1A] border border-[#262626] text-gray-300 py-3 rounded-2xl font-bold text-sm hover:text-white hover:bg-[#262626] transition-all disabled:opacity-50"
+            >
+              <Download size={16} /> 下载 JSON 备份
+            </button>
+          </div>
+
+          <div className="space-y-3">
+            <label className="text-xs font-bold text-gray-500 uppercase">恢复</label>
+            <label className="w-full flex items-center justify-center gap-2 border border-dashed border-[#333] text-gray-400 py-3 rounded-2xl text-sm hover:border-yellow-500/50 hover:text-gray-200 transition-all cursor-pointer">
+              <Upload size={16} /> {fileName || '选择备份文件 (.json)'}
+              <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+            </label>
+
+            <div className="flex bg-[#0A0A0A] p-1 rounded-lg border border-[#262626]">
+              {(['merge', 'replace'] as const).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={cn(
+                    "flex-1 px-3 py-1.5 text-xs font-bold rounded-md transition-all",
+                    mode === m ? "bg-yellow-500 text-black" : "text-gray-500 hover:text-gray-300"
+                  )}
+                >
+                  {m === 'merge' ? '合并 (跳过已有记录)' : '替换 (清空现有数据)'}
+                </button>
+              ))}
+            </div>
+
+            {error && (
+              <div className="flex items-start gap-2 text-xs text-rose-500 bg-rose-500/10 rounded-lg px-3 py-2">
+                <AlertCircle size={14} className="shrink-0 mt-0.5" /> {error}
+              </div>
+            )}
+
+            {summary && (
+              <div className="bg-[#1A1A1A] border border-[#262626] rounded-xl p-3 space-y-1 text-xs text-gray-400">
+                <div className="flex items-center gap-2 font-bold text-gray-200">
+                  {result && <CheckCircle2 size={14} className="text-yellow-500" />}
+                  {result ? '恢复完成' : '恢复预览'} · 备份格式 v{summary.fromVersion}
+                </div>
+                <div>{result ? '已导入' : '将导入'}: 买入 {summary.imported.trades} 笔，卖出 {summary.imported.sells} 笔</div>
+                <div>已存在跳过: 买入 {summary.skipped.trades} 笔，卖出 {summary.skipped.sells} 笔</div>
+                {summary.rejected.length > 0 && (
+                  <div className="text-rose-500">无效记录 {summary.rejected.length} 条，修正前无法恢复</div>
+                )}
+              </div>
+            )}
+
+            {preview && !result && (
+              <button
+                disabled={isBusy || preview.rejected.length > 0}
+                onClick={handleRestore}
+                className={cn(
+                  "w-full py-4 rounded-2xl font-bold transition-all active:scale-[0.98] disabled:opacity-40 disabled:cursor-not-allowed",
+                  mode === 'replace'
+                    ? "bg-rose-500 text-white hover:bg-rose-600 shadow-xl shadow-rose-500/10"
+                    : "bg-yellow-500 text-black hover:bg-yellow-400 shadow-xl shadow-yellow-500/10"
+                )}
+              >
+                {mode === 'replace' ? '清空并恢复' : '确认合并恢复'}
+              </button>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
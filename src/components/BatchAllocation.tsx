@@ -0,0 +1,141 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { cn } from '../utils.ts';
+import { FEE_SPLIT_LABELS, splitFee } from '../fees.ts';
+import type { Allocation, OpenLot } from '../costBasis.ts';
+import type { CurrencyInfo } from '../currencies.ts';
+import type { UnitInfo } from '../instruments.ts';
+import type { FeeSplit } from '../types.ts';
+
+export type BatchAllocationMode = 'fifo' | 'average' | 'manual';
+
+const MODE_LABELS: Record<BatchAllocationMode, string> = {
+  fifo: '先进先出',
+  average: '按比例',
+  manual: '手动分配'
+};
+
+interface BatchAllocationProps {
+  lots: OpenLot[];
+  unit: UnitInfo; // every lot of a batch shares one unit
+  currency: CurrencyInfo; // and one currency
+  mode: BatchAllocationMode;
+  manual: Record<number, string>;
+  allocations: Allocation[];
+  error: string | null;
+  sellPrice: number;
+  fee: number;
+  feeSplit: FeeSplit;
+  onModeChange: (mode: BatchAllocationMode) => void;
+  onManualChange: (tradeId: number, value: string) => void;
+  onFeeSplitChange: (split: FeeSplit) => void;
+}
+
+// Per-lot split of a batch sell. In manual mode every lot gets its own quantity input;
+// otherwise the rows preview what the chosen method will take from each lot.
+export function BatchAllocation({
+  lots,
+  unit,
+  currency,
+  mode,
+  manual,
+  allocations,
+  error,
+  sellPrice,
+  fee,
+  feeSplit,
+  onModeChange,
+  onManualChange,
+  onFeeSplitChange
+}: BatchAllocationProps) {
+  const lotFees = splitFee(
+    fee,
+    allocations.map(a => ({ quantity: a.quantity, cost: lots.find(l => l.id === a.trade_id)?.cost ?? 0 })),
+    feeSplit
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-bold text-gray-500 uppercase">分配方式</label>
+        <div className="flex bg-[#0A0A0A] p-1 rounded-lg border border-[#262626]">
+          {(Object.keys(MODE_LABELS) as BatchAllocationMode[]).map(m => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => onModeChange(m)}
+              className={cn(
+                "px-2.5 py-1 text-[10px] font-bold rounded-md transition-all",
+                mode === m ? "bg-yellow-500 text-black" : "text-gray-500 hover:text-gray-300"
+              )}
+            >
+              {MODE_LABELS[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1.5 max-h-56 overflow-y-auto">
+        {lots.map(lot => {
+          const index = allocations.findIndex(a => a.trade_id === lot.id);
+          const quantity = index >= 0 ? allocations[index].quantity : 0;
+          const lotFee = index >= 0 ? lotFees[index] : 0;
+          const profit = sellPrice > 0 && quantity > 0 ? (sellPrice - lot.cost) * quantity - lotFee : null;
+          return (
+            <div key={lot.id} className="flex items-center justify-between gap-3 bg-[#1A1A1A] px-3 py-2 rounded-lg border border-[#262626] text-xs">
+              <div className="min-w-0">
+                <div className="text-gray-300">
+                  剩余 {lot.remaining.toFixed(4)}{unit.symbol} <span className="text-gray-500">@ 成本 {currency.symbol}{lot.cost.toFixed(4)}</span>
+                </div>
+                <div className="text-[10px] text-gray-600">{format(new Date(lot.buy_date), 'yyyy-MM-dd')}</div>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                {profit !== null && (
+                  <span className={cn("font-bold font-mono", profit >= 0 ? "text-rose-500" : "text-emerald-500")}>
+                    {profit >= 0 ? '+' : ''}{profit.toFixed(2)}
+                  </span>
+                )}
+                {mode === 'manual' ? (
+                  <input
+                    type="number"
+                    step="0.0001"
+                    min="0"
+                    value={manual[lot.id] ?? ''}
+                    onChange={e => onManualChange(lot.id, e.target.value)}
+                    className="w-24 bg-[#0A0A0A] border border-[#262626] text-white rounded-lg px-2 py-1 text-right focus:ring-2 focus:ring-yellow-500 outline-none"
+                    placeholder="0.0000"
+                  />
+                ) : (
+                  <span className={cn("w-24 text-right font-bold", quantity > 0 ? "text-gray-200" : "text-gray-600")}>
+                    {quantity.toFixed(4)}{unit.symbol}
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-bold text-gray-500 uppercase">手续费分摊</label>
+        <div className="flex bg-[#0A0A0A] p-1 rounded-lg border border-[#262626]">
+          {(Object.keys(FEE_SPLIT_LABELS) as FeeSplit[]).map(s => (
+            <button
+              key={s}
+              type="button"
+              onClick={() => onFeeSplitChange(s)}
+              className={cn(
+                "px-2.5 py-1 text-[10px] font-bold rounded-md transition-all",
+                feeSplit === s ? "bg-yellow-500 text-black" : "text-gray-500 hover:text-gray-300"
+              )}
+            >
+              {FEE_SPLIT_LABELS[s]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-rose-500">{error}</p>}
+    </div>
+  );
+}
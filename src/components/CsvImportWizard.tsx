@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import { FileSpreadsheet, Plus, AlertCircle, CheckSquare, Square, Copy } from 'lucide-react';
+import { motion } from 'motion/react';
+import { api } from '../api.ts';
+import { parseCsv } from '../csv.ts';
+import { buildPreview, CSV_FIELDS, guessMapping, type CsvMapping } from '../csvImport.ts';
+import { INSTRUMENTS, UNITS } from '../instruments.ts';
+import { CURRENCIES } from '../currencies.ts';
+import { cn } from '../utils.ts';
+import type { Account, Trade } from '../types.ts';
+
+interface CsvImportWizardProps {
+  trades: Trade[]; // the target account's trades, for the duplicate check
+  account: Account;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview';
+
+export function CsvImportWizard({ trades, account, onImported, onClose }: CsvImportWizardProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [included, setIncluded] = useState<Set<number>>(new Set());
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = useMemo(
+    () => (mapping && step === 'preview' ? buildPreview(rows, mapping, trades, account.id) : []),
+    [rows, mapping, trades, account.id, step]
+  );
+
+  const missingRequired = mapping
+    ? CSV_FIELDS.filter(f => f.required && mapping[f.key] === null).map(f => f.label)
+    : [];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const parsed = parseCsv(await file.text());
+    if (parsed.length < 2) {
+      setError('CSV 文件至少需要一行表头和一行数据');
+      return;
+    }
+    setError(null);
+    setFileName(file.name);
+    setHeaders(parsed[0]);
+    setRows(parsed.slice(1));
+    setMapping(guessMapping(parsed[0]));
+    setStep('mapping');
+  };
+
+  const goToPreview = () => {
+    if (!mapping) return;
+    // Valid, non-duplicate rows are selected by default; duplicates can be opted in.
+    const next = buildPreview(rows, mapping, trades, account.id);
+    setIncluded(new Set(next.filter(r => r.row && !r.duplicate).map(r => r.line)));
+    setStep('preview');
+  };
+
+  const toggleLine = (line: number) => {
+    setIncluded(prev => {
+      const next = new Set(prev);
+      if (next.has(line)) next.delete(line); else next.add(line);
+      return next;
+    });
+  };
+
+  const handleCommit = async () => {
+    const selected = preview.filter(r => r.row && included.has(r.line)).map(r => r.row!);
+    if (selected.length === 0) return;
+    setIsCommitting(true);
+    setError(null);
+    try {
+      await api.importTrades(selected);
+      onImported();
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const invalidCount = preview.filter(r => !r.row).length;
+  const duplicateCount = preview.filter(r => r.duplicate).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className={cn(
+          "relative w-full bg-[#141414] rounded-3xl shadow-2xl overflow-hidden border border-[#262626] max-h-[90vh] flex flex-col",
+          step === 'preview' ? "max-w-3xl" : "max-w-md"
+        )}
+      >
+        <div className="p-6 border-b border-[#262626] flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-white">导入 CSV</h3>
+            <p className="text-[10px] text-gray-500 uppercase font-bold tracking-wider mt-1">
+              {step === 'upload' ? '1. 选择文件' : step === 'mapping' ? '2. 对应列' : '3. 预览并确认'}
+              {fileName && ` · ${fileName}`}
+              {` · 导入到 ${account.name}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white">
+            <Plus className="rotate-45" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="flex items-center gap-2 text-xs text-rose-500 bg-rose-500/10 rounded-lg px-3 py-2">
+              <AlertCircle size={14} className="shrink-0" /> {error}
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center gap-3 py-12 rounded-2xl border border-dashed border-[#333] text-gray-500 hover:border-yellow-500/50 hover:text-gray-300 transition-all cursor-pointer">
+              <FileSpreadsheet size={40} strokeWidth={1.5} />
+              <span className="text-sm font-bold">点击选择 CSV 文件</span>
+              <span className="text-[10px]">第一行为表头，日期支持 2024-01-05 / 2024/1/5 9:30 / 20240105</span>
+              <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+            </label>
+          )}
+
+          {step === 'mapping' && mapping && (
+            <>
+              <div className="space-y-2">
+                {CSV_FIELDS.map(field => (
+                  <div key={field.key} className="flex items-center justify-between gap-4">
+                    <label className="text-xs font-bold text-gray-500 uppercase">
+                      {field.label}{field.required && <span className="text-rose-500"> *</span>}
+                    </label>
+                    <select
+                      value={mapping[field.key] ?? ''}
+                      onChange={e => setMapping({ ...mapping, [field.key]: e.target.value === '' ? null : Number(e.target.value) })}
+                      className="w-48 bg-[#1A1A1A] border border-[#262626] text-white rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-yellow-500 outline-none"
+                    >
+                      <option value="">不导入</option>
+                      {headers.map((h, i) => (
+                        <option key={i} value={i}>{h || `第 ${i + 1} 列`}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <p className="text-[10px] text-gray-500">
+                填写了卖出单价或卖出时间的行会同时生成一条卖出记录；未对应卖出克重时默认全部卖出。
+              </p>
+              <button
+                disabled={missingRequired.length > 0}
+                onClick={goToPreview}
+                className="w-full bg-yellow-500 text-black py-4 rounded-2xl font-bold hover:bg-yellow-400 transition-all active:scale-[0.98] shadow-xl shadow-yellow-500/10 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {missingRequired.length > 0 ? `请对应: ${missingRequired.join('、')}` : `预览 ${rows.length} 行`}
+              </button>
+            </>
+          )}
+
+          {step === 'preview' && (
+            <>
+              <div className="flex flex-wrap items-center gap-3 text-xs">
+                <span className="text-gray-400">共 {preview.length} 行</span>
+                <span className="text-rose-500 font-bold">{invalidCount} 行有错误</span>
+                <span className="text-yellow-500 font-bold">{duplicateCount} 行疑似重复</span>
+                <span className="text-white font-bold">已选择 {included.size} 行</span>
+              </div>
+              <div className="rounded-xl border border-[#262626] overflow-hidden">
+                <table className="w-full text-xs">
+                  <thead className="bg-[#1A1A1A] text-[10px] text-gray-500 uppercase">
+                    <tr>
+                      <th className="p-2 w-8" />
+                      <th className="p-2 text-left">行</th>
+                      <th className="p-2 text-left">买入时间</th>
+                      <th className="p-2 text-right">数量</th>
+                      <th className="p-2 text-right">单价</th>
+                      <th className="p-2 text-left">卖出</th>
+                      <th className="p-2 text-left">状态</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.map(r => (
+                      <tr key={r.line} className={cn("border-t border-[#262626]", !r.row && "bg-rose-500/5")}>
+                        <td className="p-2">
+                          {r.row && (
+                            <button onClick={() => toggleLine(r.line)} className={included.has(r.line) ? "text-yellow-500" : "text-gray-600"}>
+                              {included.has(r.line) ? <CheckSquare size={14} /> : <Square size={14} />}
+                            </button>
+                          )}
+                        </td>
+                        <td className="p-2 font-mono text-gray-500">{r.line}</td>
+                        <td className="p-2 text-gray-300">{r.row?.trade.buy_date.replace('T', ' ') ?? '-'}</td>
+                        <td className="p-2 text-right font-mono text-gray-300">
+                          {r.row ? `${INSTRUMENTS[r.row.trade.instrument].code} ${r.row.trade.quantity.toFixed(4)}${UNITS[r.row.trade.unit].symbol}` : '-'}
+                        </td>
+                        <td className="p-2 text-right font-mono text-gray-300">
+                          {r.row ? `${CURRENCIES[r.row.trade.currency].symbol}${r.row.trade.buy_price.toFixed(4)}` : '-'}
+                        </td>
+                        <td className="p-2 text-gray-400">
+                          {r.row?.sell ? `${r.row.sell.quantity.toFixed(4)}${UNITS[r.row.trade.unit].symbol} @ ${CURRENCIES[r.row.trade.currency].symbol}${r.row.sell.sell_price.toFixed(4)}` : '-'}
+                        </td>
+                        <td className="p-2">
+                          {r.errors.length > 0 ? (
+                            <span className="text-rose-500">{r.errors.join('；')}</span>
+                          ) : r.duplicate ? (
+                            <span className="flex items-center gap-1 text-yellow-500"><Copy size={12} /> 疑似重复</span>
+                          ) : (
+                            <span className="text-gray-500">正常</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  onClick={() => setStep('mapping')}
+                  className="px-4 py-3 rounded-2xl bg-[#262626] text-gray-300 font-bold text-sm hover:bg-[#333] transition-all"
+                >
+                  返回修改对应
+                </button>
+                <button
+                  disabled={included.size === 0 || isCommitting}
+                  onClick={handleCommit}
+                  className="px-4 py-3 rounded-2xl bg-yellow-500 text-black font-bold text-sm hover:bg-yellow-400 transition-all shadow-lg shadow-yellow-500/20 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {isCommitting ? '导入中...' : `导入 ${included.size} 行`}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
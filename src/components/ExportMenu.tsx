@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+import { exportLedgerCsv, exportLedgerXlsx } from '../ledgerExport.ts';
+import { cn } from '../utils.ts';
+import type { Fx } from '../currencies.ts';
+import type { Trade } from '../types.ts';
+
+interface ExportMenuProps {
+  trades: Trade[];
+  filteredTrades: Trade[];
+  isFiltered: boolean;
+  fx: Fx;
+}
+
+export function ExportMenu({ trades, filteredTrades, isFiltered, fx }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<'all' | 'filtered'>('all');
+
+  const target = scope === 'filtered' && isFiltered ? filteredTrades : trades;
+
+  const run = async (kind: 'csv' | 'xlsx') => {
+    setIsOpen(false);
+    try {
+      if (kind === 'csv') exportLedgerCsv(target, fx);
+      else await exportLedgerXlsx(target, fx);
+    } catch (e) {
+      alert(`导出失败: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={trades.length === 0}
+        className="flex items-center gap-1.5 text-[10px] font-bold text-gray-400 uppercase hover:text-white transition-colors disabled:opacity-30"
+      >
+        <Download size={14} />
+        导出
+      </button>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            className="absolute right-0 top-7 z-20 w-48 bg-[#1A1A1A] border border-[#262626] rounded-xl shadow-2xl p-2 space-y-2"
+          >
+            <div className="flex bg-[#0A0A0A] p-1 rounded-lg border border-[#262626]">
+              {(['all', 'filtered'] as const).map(s => (
+                <button
+                  key={s}
+                  disabled={s === 'filtered' && !isFiltered}
+                  onClick={() => setScope(s)}
+                  className={cn(
+                    "flex-1 px-2 py-1 text-[10px] font-bold rounded-md transition-all disabled:opacity-30",
+                    scope === s ? "bg-yellow-500 text-black" : "text-gray-500 hover:text-gray-300"
+                  )}
+                >
+                  {s === 'all' ? `全部 (${trades.length})` : `筛选 (${filteredTrades.length})`}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => run('csv')}
+              className="w-full text-left px-3 py-2 rounded-lg text-xs text-gray-300 hover:bg-[#262626] hover:text-white transition-colors"
+            >
+              CSV 明细
+            </button>
+            <button
+              onClick={() => run('xlsx')}
+              className="w-full text-left px-3 py-2 rounded-lg text-xs text-gray-300 hover:bg-[#262626] hover:text-white transition-colors"
+            >
+              XLSX (买入 / 卖出 / 月度汇总)
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
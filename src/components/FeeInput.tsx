@@ -0,0 +1,42 @@
+import React from 'react';
+import { cn } from '../utils.ts';
+
+interface FeeInputProps {
+  label: string;
+  auto: boolean;
+  value: string;
+  computed: number;
+  platformName: string;
+  onChange: (value: string) => void;
+  onAuto: () => void;
+}
+
+// Fee field that follows the platform's fee rule until the user types over it.
+export function FeeInput({ label, auto, value, computed, platformName, onChange, onAuto }: FeeInputProps) {
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-bold text-gray-500 uppercase">{label}</label>
+        {auto ? (
+          <span className="text-[10px] text-gray-600 truncate">按{platformName}</span>
+        ) : (
+          <button type="button" onClick={onAuto} className="text-[10px] font-bold text-yellow-500 hover:text-yellow-400">
+            自动计算
+          </button>
+        )}
+      </div>
+      <input
+        required
+        type="number"
+        step="0.01"
+        value={auto ? computed.toFixed(2) : value}
+        onChange={e => onChange(e.target.value)}
+        className={cn(
+          "w-full bg-[#1A1A1A] border border-[#262626] rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all",
+          auto ? "text-gray-400" : "text-white"
+        )}
+        placeholder="0.00"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { cn } from '../utils.ts';
+import { computeFee, EMPTY_FEE_RULE, type FeePlatform, type FeeRule } from '../fees.ts';
+
+interface FeeSettingsModalProps {
+  platforms: FeePlatform[];
+  activeId: string;
+  onSave: (platforms: FeePlatform[], activeId: string) => void;
+  onClose: () => void;
+}
+
+// Keeps the typed text so partial input like "0." survives; reports the parsed number upward.
+function NumberField({ value, onChange, className }: { value: number; onChange: (n: number) => void; className?: string }) {
+  const [text, setText] = useState(String(value));
+  return (
+    <input
+      type="number"
+      step="any"
+      min="0"
+      value={text}
+      onChange={e => {
+        setText(e.target.value);
+        onChange(parseFloat(e.target.value) || 0);
+      }}
+      className={cn(
+        "w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-yellow-500 outline-none",
+        className
+      )}
+    />
+  );
+}
+
+function RuleEditor({ rule, onChange }: { rule: FeeRule; onChange: (rule: FeeRule) => void }) {
+  const fields: { key: 'percent' | 'minimum' | 'fixed' | 'spreadPerGram'; label: string }[] = [
+    { key: 'percent', label: '费率 (%)' },
+    { key: 'minimum', label: '最低收费 (元)' },
+    { key: 'fixed', label: '固定费用 (元/笔)' },
+    { key: 'spreadPerGram', label: '点差 (元/克)' }
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        {fields.map(f => (
+          <div key={f.key} className="space-y-1">
+            <label className="text-[10px] font-bold text-gray-500 uppercase">{f.label}</label>
+            <NumberField value={rule[f.key]} onChange={n => onChange({ ...rule, [f.key]: n })} />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between">
+          <label className="text-[10px] font-bold text-gray-500 uppercase">阶梯费率 (按单笔金额)</label>
+          <button
+            type="button"
+            onClick={() => onChange({ ...rule, tiers: [...rule.tiers, { from: 0, percent: rule.percent }] })}
+            className="text-[10px] font-bold text-yellow-500 hover:text-yellow-400"
+          >
+            + 添加阶梯
+          </button>
+        </div>
+        {rule.tiers.map((tier, i) => (
+          <div key={i} className="flex items-center gap-2 text-xs text-gray-500">
+            <span className="shrink-0">金额 ≥</span>
+            <NumberField
+              value={tier.from}
+              onChange={n => onChange({ ...rule, tiers: rule.tiers.map((t, j) => j === i ? { ...t, from: n } : t) })}
+            />
+            <span className="shrink-0">费率</span>
+            <NumberField
+              value={tier.percent}
+              onChange={n => onChange({ ...rule, tiers: rule.tiers.map((t, j) => j === i ? { ...t, percent: n } : t) })}
+            />
+            <span className="shrink-0">%</span>
+            <button
+              type="button"
+              onClick={() => onChange({ ...rule, tiers: rule.tiers.filter((_, j) => j !== i) })}
+              className="p-1 text-gray-600 hover:text-rose-500"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function FeeSettingsModal({ platforms, activeId, onSave, onClose }: FeeSettingsModalProps) {
+  const [draft, setDraft] = useState(platforms);
+  const [active, setActive] = useState(activeId);
+  const [editingId, setEditingId] = useState(activeId);
+  const [side, setSide] = useState<'sell' | 'buy'>('sell');
+
+  const editing = draft.find(p => p.id === editingId) ?? draft[0];
+
+  const updateEditing = (patch: Partial<FeePlatform>) => {
+    setDraft(prev => prev.map(p => p.id === editing.id ? { ...p, ...patch } : p));
+  };
+
+  const addPlatform = () => {
+    const platform: FeePlatform = { id: `platform-${Date.now()}`, name: '新平台', buy: EMPTY_FEE_RULE, sell: EMPTY_FEE_RULE };
+    setDraft(prev => [...prev, platform]);
+    setEditingId(platform.id);
+  };
+
+  const removePlatform = (id: string) => {
+    const rest = draft.filter(p => p.id !== id);
+    setDraft(rest);
+    if (editingId === id) setEditingId(rest[0].id);
+    if (active === id) setActive(rest[0].id);
+  };
+
+  // A quick sanity check of the rule on a typical order
+  const sample = editing ? computeFee(editing[side], 500, 10) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-lg bg-[#141414] rounded-3xl shadow-2xl overflow-hidden border border-[#262626] max-h-[90vh] flex flex-col"
+      >
+        <div className="p-6 border-b border-[#262626] flex items-center justify-between">
+          <h3 className="text-xl font-bold text-white">手续费方案</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white">
+            <Plus className="rotate-45" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="space-y-1.5">
+            {draft.map(p => (
+              <div
+                key={p.id}
+                onClick={() => setEditingId(p.id)}
+                className={cn(
+                  "flex items-center gap-3 px-3 py-2 rounded-lg border cursor-pointer transition-all",
+                  p.id === editing?.id ? "border-yellow-500/50 bg-yellow-500/5" : "border-[#262626] bg-[#1A1A1A] hover:border-[#333]"
+                )}
+              >
+                <input
+                  type="radio"
+                  checked={active === p.id}
+                  onChange={() => setActive(p.id)}
+                  onClick={e => e.stopPropagation()}
+                  className="accent-yellow-500"
+                  title="设为默认"
+                />
+                <span className="flex-1 text-sm text-gray-200">{p.name}</span>
+                {active === p.id && <span className="text-[10px] font-bold text-yellow-500">默认</span>}
+                {draft.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={e => {
+                      e.stopPropagation();
+                      removePlatform(p.id);
+                    }}
+                    className="p-1 text-gray-600 hover:text-rose-500"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={addPlatform}
+              className="w-full border border-dashed border-[#333] text-gray-500 py-2 rounded-lg text-xs font-bold hover:text-gray-300 hover:border-yellow-500/50 transition-all"
+            >
+              + 添加平台
+            </button>
+          </div>
+
+          {editing && (
+            <div key={editing.id} className="space-y-4">
+              <div className="space-y-1">
+                <label className="text-[10px] font-bold text-gray-500 uppercase">平台名称</label>
+                <input
+                  value={editing.name}
+                  onChange={e => updateEditing({ name: e.target.value })}
+                  className="w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-yellow-500 outline-none"
+                />
+              </div>
+
+              <div className="flex bg-[#0A0A0A] p-1 rounded-lg border border-[#262626]">
+                {(['sell', 'buy'] as const).map(s => (
+                  <button
+                    key={s}
+                    type="button"
+                    onClick={() => setSide(s)}
+                    className={cn(
+                      "flex-1 px-3 py-1.5 text-xs font-bold rounded-md transition-all",
+                      side === s ? "bg-yellow-500 text-black" : "text-gray-500 hover:text-gray-300"
+                    )}
+                  >
+                    {s === 'sell' ? '卖出费用' : '买入费用'}
+                  </button>
+                ))}
+              </div>
+
+              {/* Remounting on side/tier changes resets the fields' typed text */}
+              <div key={`${side}-${editing[side].tiers.length}`}>
+                <RuleEditor rule={editing[side]} onChange={rule => updateEditing({ [side]: rule })} />
+              </div>
+
+              <p className="text-[10px] text-gray-500">示例: 10g @ ¥500 收费 ¥{sample.toFixed(2)}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-[#262626]">
+          <button
+            onClick={() => {
+              onSave(draft, active);
+              onClose();
+            }}
+            className="w-full bg-yellow-500 text-black py-4 rounded-2xl font-bold hover:bg-yellow-400 transition-all active:scale-[0.98] shadow-xl shadow-yellow-500/10"
+          >
+            保存
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
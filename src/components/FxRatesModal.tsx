@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format } from 'date-fns';
+import { api } from '../api.ts';
+import { CURRENCIES, DEFAULT_CURRENCY } from '../currencies.ts';
+import type { Currency, FxRate } from '../types.ts';
+
+interface FxRatesModalProps {
+  rates: FxRate[];
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+const FOREIGN_CURRENCIES = (Object.keys(CURRENCIES) as Currency[]).filter(c => c !== DEFAULT_CURRENCY);
+
+// Rates are yuan per unit of the foreign currency; saving a currency and date that already has
+// a rate replaces it.
+export function FxRatesModal({ rates, onChanged, onClose }: FxRatesModalProps) {
+  const [currency, setCurrency] = useState<Currency>(FOREIGN_CURRENCIES[0]);
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [rate, setRate] = useState('');
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+    onChanged();
+  };
+
+  const add = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => api.saveFxRates([{ currency, date, rate: parseFloat(rate) }]));
+    setRate('');
+  };
+
+  const sorted = [...rates].sort((a, b) => a.currency.localeCompare(b.currency) || b.date.localeCompare(a.date));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-lg bg-[#141414] rounded-3xl shadow-2xl overflow-hidden border border-[#262626] max-h-[90vh] flex flex-col"
+      >
+        <div className="p-6 border-b border-[#262626] flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-white">汇率</h3>
+            <p className="text-[10px] text-gray-500 mt-1">1 单位外币折合人民币，按交易日当天或之前最近的汇率换算</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white">
+            <Plus className="rotate-45" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-2 overflow-y-auto">
+          <form onSubmit={add} className="flex items-center gap-2 pb-2">
+            <select
+              value={currency}
+              onChange={e => setCurrency(e.target.value as Currency)}
+              className="bg-[#0A0A0A] border border-[#262626] text-xs text-gray-300 rounded-lg px-2 py-2 outline-none focus:ring-1 focus:ring-yellow-500"
+            >
+              {FOREIGN_CURRENCIES.map(c => (
+                <option key={c} value={c}>{CURRENCIES[c].label}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              required
+              value={date}
+              onChange={e => setDate(e.target.value)}
+              className="bg-[#0A0A0A] border border-[#262626] text-xs text-gray-300 rounded-lg px-2 py-2 outline-none focus:ring-1 focus:ring-yellow-500"
+            />
+            <input
+              type="number"
+              step="any"
+              min="0"
+              required
+              placeholder="汇率"
+              value={rate}
+              onChange={e => setRate(e.target.value)}
+              className="flex-1 min-w-0 bg-[#0A0A0A] border border-[#262626] text-xs text-white rounded-lg px-2 py-2 outline-none focus:ring-1 focus:ring-yellow-500"
+            />
+            <button
+              type="submit"
+              className="flex items-center gap-1 px-3 py-2 rounded-lg bg-yellow-500 text-black text-xs font-bold hover:bg-yellow-400 transition-colors"
+            >
+              <Plus size={14} />
+              保存
+            </button>
+          </form>
+
+          {sorted.length === 0 && (
+            <p className="text-xs text-gray-600 text-center py-6">尚未录入汇率，外币交易将按 1:1 折算</p>
+          )}
+
+          {sorted.map(r => (
+            <div key={`${r.currency}-${r.date}`} className="flex items-center gap-3 bg-[#1A1A1A] px-3 py-2.5 rounded-lg border border-[#262626] text-xs">
+              <span className="w-12 shrink-0 font-bold text-gray-300">{r.currency}</span>
+              <span className="flex-1 text-gray-500">{r.date}</span>
+              <span className="font-mono font-bold text-white">{r.rate.toFixed(4)}</span>
+              <button
+                title="删除汇率"
+                onClick={() => run(() => api.deleteFxRate(r.currency, r.date))}
+                className="p-1.5 text-gray-500 hover:text-rose-500 transition-colors"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
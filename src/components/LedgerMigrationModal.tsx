@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Upload, CheckCircle2, AlertCircle } from 'lucide-react';
+import { motion } from 'motion/react';
+import { api } from '../api.ts';
+import { archiveLegacyLedger } from '../legacyLedger.ts';
+import { cn } from '../utils.ts';
+import type { ImportReport } from '../types.ts';
+
+interface LedgerMigrationModalProps {
+  ledger: unknown[];
+  onImported: () => void;
+  onClose: () => void;
+}
+
+export function LedgerMigrationModal({ ledger, onImported, onClose }: LedgerMigrationModalProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sellCount = ledger.reduce<number>((acc, t) => {
+    const sells = (t as { sells?: unknown })?.sells;
+    return acc + (Array.isArray(sells) ? sells.length : 0);
+  }, 0);
+
+  const handleUpload = async () => {
+    setIsUploading(true);
+    setError(null);
+    try {
+      const result = await api.importLedger(ledger);
+      setReport(result);
+      archiveLegacyLedger();
+      onImported();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={isUploading ? undefined : onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-md bg-[#141414] rounded-3xl shadow-2xl overflow-hidden border border-[#262626]"
+      >
+        <div className="p-6 border-b border-[#262626] flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-yellow-500/10 text-yellow-500 flex items-center justify-center">
+            {report ? <CheckCircle2 size={20} /> : <Upload size={20} />}
+          </div>
+          <h3 className="text-xl font-bold text-white">{report ? '本地账本导入完成' : '发现本地账本'}</h3>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {report ? (
+            <>
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <ReportCell label="已导入" value={`${report.imported.trades} / ${report.imported.sells}`} className="text-rose-500" />
+                <ReportCell label="已存在跳过" value={`${report.skipped.trades} / ${report.skipped.sells}`} className="text-gray-300" />
+                <ReportCell label="被拒绝" value={`${report.rejected.length}`} className="text-emerald-500" />
+              </div>
+              <p className="text-[10px] text-gray-500 text-center">数字格式: 买入记录 / 卖出记录</p>
+              {report.rejected.length > 0 && (
+                <div className="max-h-40 overflow-y-auto space-y-1.5">
+                  {report.rejected.map((r, i) => (
+                    <div key={i} className="text-xs bg-[#1A1A1A] border border-[#262626] rounded-lg px-3 py-2 text-gray-400">
+                      <span className="font-bold text-gray-300">{r.kind === 'trade' ? '买入' : '卖出'} #{String(r.id)}</span>: {r.reason}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <button
+                onClick={onClose}
+                className="w-full bg-yellow-500 text-black py-4 rounded-2xl font-bold hover:bg-yellow-400 transition-all active:scale-[0.98] shadow-xl shadow-yellow-500/10"
+              >
+                完成
+              </button>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-gray-400 leading-relaxed">
+                此浏览器中保存了 <span className="font-bold text-white">{ledger.length}</span> 笔买入记录和 <span className="font-bold text-white">{sellCount}</span> 笔卖出记录。
+                是否上传到服务器？已存在的记录会被跳过，原有的 ID 与合并卖出关系将被保留。
+              </p>
+              {error && (
+                <div className="flex items-center gap-2 text-xs text-rose-500 bg-rose-500/10 rounded-lg px-3 py-2">
+                  <AlertCircle size={14} /> {error}
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-3 pt-2">
+                <button
+                  disabled={isUploading}
+                  onClick={onClose}
+                  className="px-4 py-3 rounded-2xl bg-[#262626] text-gray-300 font-bold text-sm hover:bg-[#333] transition-all disabled:opacity-50"
+                >
+                  稍后再说
+                </button>
+                <button
+                  disabled={isUploading}
+                  onClick={handleUpload}
+                  className="px-4 py-3 rounded-2xl bg-yellow-500 text-black font-bold text-sm hover:bg-yellow-400 transition-all shadow-lg shadow-yellow-500/20 disabled:opacity-50"
+                >
+                  {isUploading ? '上传中...' : '上传到服务器'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
+
+function ReportCell({ label, value, className }: { label: string, value: string, className?: string }) {
+  return (
+    <div className="bg-[#1A1A1A] rounded-xl border border-[#262626] p-3 space-y-1">
+      <div className="text-[10px] text-gray-500 uppercase font-bold">{label}</div>
+      <div className={cn('text-sm font-bold font-mono', className)}>{value}</div>
+    </div>
+  );
+}
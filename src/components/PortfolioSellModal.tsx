@@ -0,0 +1,267 @@
+import React, { useMemo, useState } from 'react';
+import { Plus } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format } from 'date-fns';
+import { allocateSell, COST_METHOD_LABELS, openLots } from '../costBasis.ts';
+import { computeFee, splitFee, type FeeRule } from '../fees.ts';
+import { cn } from '../utils.ts';
+import { CURRENCIES } from '../currencies.ts';
+import { unitFactor, UNITS } from '../instruments.ts';
+import { FeeInput } from './FeeInput.tsx';
+import { TagPicker } from './TagPicker.tsx';
+import type { AllocatedSellInput, AllocationMethod, FeeSplit, Trade } from '../types.ts';
+
+interface PortfolioSellModalProps {
+  trades: Trade[]; // one account's lots of a single instrument
+  defaultMethod: AllocationMethod;
+  feeRule: FeeRule;
+  platformName: string;
+  feeSplit: FeeSplit;
+  tagSuggestions: string[];
+  onSubmit: (input: AllocatedSellInput) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const METHODS: AllocationMethod[] = ['fifo', 'lifo', 'hifo', 'average'];
+
+export function PortfolioSellModal({ trades, defaultMethod, feeRule, platformName, feeSplit, tagSuggestions, onSubmit, onClose }: PortfolioSellModalProps) {
+  const [form, setForm] = useState({
+    quantity: '',
+    sell_price: '',
+    sell_date: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+    fee: '',
+    feeAuto: true,
+    notes: '',
+    tags: [] as string[],
+    method: defaultMethod
+  });
+
+  // Lots bought in different units or currencies are sold separately, so quantities and prices
+  // always mean one unit and one currency
+  const holdings = useMemo(() => {
+    const keys = new Set(openLots(trades).map(l => {
+      const t = trades.find(t => t.id === l.id)!;
+      return `${t.unit}|${t.currency}`;
+    }));
+    return [...keys].map(key => trades.find(t => `${t.unit}|${t.currency}` === key)!);
+  }, [trades]);
+  const [holding, setHolding] = useState(holdings[0] ? `${holdings[0].unit}|${holdings[0].currency}` : '');
+  const unit = holdings.find(h => `${h.unit}|${h.currency}` === holding)?.unit ?? 'g';
+  const currency = holdings.find(h => `${h.unit}|${h.currency}` === holding)?.currency ?? 'CNY';
+  const unitInfo = UNITS[unit];
+  const currencyInfo = CURRENCIES[currency];
+  const mixedCurrencies = new Set(holdings.map(h => h.currency)).size > 1;
+
+  const lots = useMemo(
+    () => openLots(trades.filter(t => t.unit === unit && t.currency === currency)),
+    [trades, unit, currency]
+  );
+  const available = lots.reduce((acc, l) => acc + l.remaining, 0);
+
+  const preview = useMemo(() => {
+    const quantity = parseFloat(form.quantity);
+    if (!(quantity > 0)) return { allocations: [], error: null };
+    try {
+      return { allocations: allocateSell(lots, quantity, form.method), error: null };
+    } catch (e) {
+      return { allocations: [], error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [lots, form.quantity, form.method]);
+
+  const sellPrice = parseFloat(form.sell_price);
+  const quantity = parseFloat(form.quantity);
+  const autoFee = computeFee(feeRule, sellPrice, quantity, unitFactor(unit));
+  const fee = form.feeAuto ? autoFee : (parseFloat(form.fee) || 0);
+  const lotFees = splitFee(
+    fee,
+    preview.allocations.map(a => ({ quantity: a.quantity, cost: lots.find(l => l.id === a.trade_id)?.cost ?? 0 })),
+    feeSplit
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (preview.error) return;
+    const ok = await onSubmit({
+      quantity,
+      sell_price: sellPrice,
+      sell_date: form.sell_date,
+      fee,
+      notes: form.notes || null,
+      tags: form.tags,
+      currency,
+      method: form.method,
+      trade_ids: lots.map(l => l.id),
+      fee_split: feeSplit
+    });
+    if (ok) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-md bg-[#141414] rounded-3xl shadow-2xl overflow-hidden border border-[#262626] max-h-[90vh] flex flex-col"
+      >
+        <div className="p-6 border-b border-[#262626] flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-white">按持仓卖出</h3>
+            <p className="text-[10px] text-gray-500 mt-1">可卖持仓 {available.toFixed(4)}{unitInfo.symbol}，共 {lots.length} 笔</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white">
+            <Plus className="rotate-45" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
+          {holdings.length > 1 && (
+            <div className="space-y-1.5">
+              <label className="text-xs font-bold text-gray-500 uppercase">持仓</label>
+              <div className="flex bg-[#0A0A0A] p-1 rounded-lg border border-[#262626]">
+                {holdings.map(h => (
+                  <button
+                    key={`${h.unit}|${h.currency}`}
+                    type="button"
+                    onClick={() => {
+                      setHolding(`${h.unit}|${h.currency}`);
+                      setForm({ ...form, quantity: '' });
+                    }}
+                    className={cn(
+                      "flex-1 px-2 py-1.5 text-[10px] font-bold rounded-md transition-all",
+                      holding === `${h.unit}|${h.currency}` ? "bg-yellow-500 text-black" : "text-gray-500 hover:text-gray-300"
+                    )}
+                  >
+                    {UNITS[h.unit].label}{mixedCurrencies && ` · ${CURRENCIES[h.currency].label}`}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <label className="text-xs font-bold text-gray-500 uppercase">分配方式</label>
+            <div className="grid grid-cols-4 bg-[#0A0A0A] p-1 rounded-lg border border-[#262626]">
+              {METHODS.map(m => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => setForm({ ...form, method: m })}
+                  className={cn(
+                    "px-2 py-1.5 text-[10px] font-bold rounded-md transition-all",
+                    form.method === m ? "bg-yellow-500 text-black" : "text-gray-500 hover:text-gray-300"
+                  )}
+                >
+                  {COST_METHOD_LABELS[m]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1.5">
+              <label className="text-xs font-bold text-gray-500 uppercase">卖出数量 ({unitInfo.label})</label>
+              <input
+                required
+                type="number"
+                step="0.0001"
+                value={form.quantity}
+                onChange={e => setForm({ ...form, quantity: e.target.value })}
+                className="w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all"
+                placeholder="0.0000"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <label className="text-xs font-bold text-gray-500 uppercase">卖出单价 ({currencyInfo.unitLabel}/{unitInfo.label})</label>
+              <input
+                required
+                type="number"
+                step="0.0001"
+                value={form.sell_price}
+                onChange={e => setForm({ ...form, sell_price: e.target.value })}
+                className="w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all"
+                placeholder="0.0000"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <FeeInput
+              label={`总手续费 (${currencyInfo.unitLabel})`}
+              auto={form.feeAuto}
+              value={form.fee}
+              computed={autoFee}
+              platformName={platformName}
+              onChange={value => setForm({ ...form, fee: value, feeAuto: false })}
+              onAuto={() => setForm({ ...form, feeAuto: true })}
+            />
+            <div className="space-y-1.5">
+              <label className="text-xs font-bold text-gray-500 uppercase">卖出时间</label>
+              <input
+                required
+                type="datetime-local"
+                value={form.sell_date}
+                onChange={e => setForm({ ...form, sell_date: e.target.value })}
+                className="w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-xs font-bold text-gray-500 uppercase">备注</label>
+            <textarea
+              value={form.notes}
+              onChange={e => setForm({ ...form, notes: e.target.value })}
+              className="w-full bg-[#1A1A1A] border border-[#262626] text-white rounded-xl px-4 py-3 focus:ring-2 focus:ring-yellow-500 outline-none transition-all resize-none h-16"
+              placeholder="选填..."
+            />
+          </div>
+
+          <TagPicker value={form.tags} suggestions={tagSuggestions} onChange={tags => setForm({ ...form, tags })} />
+
+          {preview.error && (
+            <p className="text-xs text-rose-500">{preview.error}</p>
+          )}
+          {preview.allocations.length > 0 && (
+            <div className="space-y-1.5">
+              <div className="text-[10px] text-gray-500 uppercase font-bold px-1">分配预览</div>
+              {preview.allocations.map((a, i) => {
+                const lot = lots.find(l => l.id === a.trade_id)!;
+                const lotFee = lotFees[i];
+                const profit = sellPrice > 0 ? (sellPrice - lot.cost) * a.quantity - lotFee : null;
+                return (
+                  <div key={a.trade_id} className="flex items-center justify-between bg-[#1A1A1A] px-3 py-2 rounded-lg border border-[#262626] text-xs">
+                    <div>
+                      <span className="font-bold text-gray-300">{a.quantity.toFixed(4)}{unitInfo.symbol}</span>
+                      <span className="text-gray-500"> / 剩余 {lot.remaining.toFixed(4)}{unitInfo.symbol} @ 成本 {currencyInfo.symbol}{lot.cost.toFixed(4)}</span>
+                      <div className="text-[10px] text-gray-600">{format(new Date(lot.buy_date), 'yyyy-MM-dd')}</div>
+                    </div>
+                    {profit !== null && (
+                      <span className={cn("font-bold font-mono", profit >= 0 ? "text-rose-500" : "text-emerald-500")}>
+                        {profit >= 0 ? '+' : ''}{profit.toFixed(4)}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={!!preview.error || preview.allocations.length === 0}
+            className="w-full bg-yellow-500 text-black py-4 rounded-2xl font-bold hover:bg-yellow-400 transition-all active:scale-[0.98] shadow-xl shadow-yellow-500/10 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            确认卖出
+          </button>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
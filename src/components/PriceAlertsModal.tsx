@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { BellRing, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format } from 'date-fns';
+import { api } from '../api.ts';
+import { ALERT_DIRECTION_LABELS } from '../alerts.ts';
+import { requestNotificationPermission } from '../hooks.ts';
+import { baseUnit, INSTRUMENTS, UNITS } from '../instruments.ts';
+import { cn } from '../utils.ts';
+import type { AlertDirection, Instrument, PriceAlert } from '../types.ts';
+
+interface PriceAlertsModalProps {
+  alerts: PriceAlert[];
+  instrument: Instrument; // preselected for new alerts
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+// Portfolio-wide price levels. Per-lot take-profit and stop-loss prices are set on the trade.
+export function PriceAlertsModal({ alerts, instrument, onChanged, onClose }: PriceAlertsModalProps) {
+  const [form, setForm] = useState({ instrument, direction: 'above' as AlertDirection, price: '', note: '' });
+  const unit = UNITS[baseUnit(form.instrument)];
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+    onChanged();
+  };
+
+  const add = (e: React.FormEvent) => {
+    e.preventDefault();
+    requestNotificationPermission();
+    run(() => api.createPriceAlert({
+      instrument: form.instrument,
+      direction: form.direction,
+      price: parseFloat(form.price),
+      note: form.note || null
+    }));
+    setForm({ ...form, price: '', note: '' });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-lg bg-[#141414] rounded-3xl shadow-2xl overflow-hidden border border-[#262626] max-h-[90vh] flex flex-col"
+      >
+        <div className="p-6 border-b border-[#262626] flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-white">价格提醒</h3>
+            <p className="text-[10px] text-gray-500 mt-1">价格按人民币计；黄金由服务器按行情持续检查，其他品种在输入价格后检查</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white">
+            <Plus className="rotate-45" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-2 overflow-y-auto">
+          <form onSubmit={add} className="grid grid-cols-[auto_auto_1fr_auto] gap-2 pb-2">
+            <select
+              value={form.instrument}
+              onChange={e => setForm({ ...form, instrument: e.target.value as Instrument })}
+              className="bg-[#0A0A0A] border border-[#262626] text-xs text-gray-300 rounded-lg px-2 py-2 outline-none focus:ring-1 focus:ring-yellow-500"
+            >
+              {(Object.keys(INSTRUMENTS) as Instrument[]).map(i => (
+                <option key={i} value={i}>{INSTRUMENTS[i].label}</option>
+              ))}
+            </select>
+            <select
+              value={form.direction}
+              onChange={e => setForm({ ...form, direction: e.target.value as AlertDirection })}
+              className="bg-[#0A0A0A] border border-[#262626] text-xs text-gray-300 rounded-lg px-2 py-2 outline-none focus:ring-1 focus:ring-yellow-500"
+            >
+              {(Object.keys(ALERT_DIRECTION_LABELS) as AlertDirection[]).map(d => (
+                <option key={d} value={d}>{ALERT_DIRECTION_LABELS[d]}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              step="any"
+              min="0"
+              required
+              placeholder={`价格 (元/${unit.label})`}
+              value={form.price}
+              onChange={e => setForm({ ...form, price: e.target.value })}
+              className="min-w-0 bg-[#0A0A0A] border border-[#262626] text-xs text-white rounded-lg px-2 py-2 outline-none focus:ring-1 focus:ring-yellow-500"
+            />
+            <button
+              type="submit"
+              className="flex items-center gap-1 px-3 py-2 rounded-lg bg-yellow-500 text-black text-xs font-bold hover:bg-yellow-400 transition-colors"
+            >
+              <Plus size={14} />
+              添加
+            </button>
+            <input
+              placeholder="备注 (选填)"
+              value={form.note}
+              onChange={e => setForm({ ...form, note: e.target.value })}
+              className="col-span-4 bg-[#0A0A0A] border border-[#262626] text-xs text-white rounded-lg px-2 py-2 outline-none focus:ring-1 focus:ring-yellow-500"
+            />
+          </form>
+
+          {alerts.length === 0 && (
+            <p className="text-xs text-gray-600 text-center py-6">还没有价格提醒</p>
+          )}
+
+          {alerts.map(a => (
+            <div key={a.id} className="flex items-center gap-3 bg-[#1A1A1A] px-3 py-2.5 rounded-lg border border-[#262626] text-xs">
+              <div className={cn(
+                "w-7 h-7 shrink-0 rounded bg-[#0A0A0A] flex items-center justify-center",
+                a.triggered_at ? (a.direction === 'above' ? "text-rose-500" : "text-emerald-500") : "text-gray-500"
+              )}>
+                <BellRing size={14} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="font-bold text-gray-300">
+                  {INSTRUMENTS[a.instrument].label}{ALERT_DIRECTION_LABELS[a.direction]} ¥{a.price.toFixed(2)}/{UNITS[baseUnit(a.instrument)].label}
+                </div>
+                <div className="text-[10px] text-gray-600 truncate">
+                  {a.triggered_at ? `已于 ${format(new Date(a.triggered_at), 'yyyy-MM-dd HH:mm')} 触发` : '监控中'}
+                  {a.note && ` · ${a.note}`}
+                </div>
+              </div>
+              {a.triggered_at && (
+                <button
+                  title="重新启用"
+                  onClick={() => run(() => api.rearmPriceAlert(a.id))}
+                  className="p-1.5 text-gray-500 hover:text-yellow-500 transition-colors"
+                >
+                  <RotateCcw size={14} />
+                </button>
+              )}
+              <button
+                title="删除提醒"
+                onClick={() => run(() => api.deletePriceAlert(a.id))}
+                className="p-1.5 text-gray-500 hover:text-rose-500 transition-colors"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Upload, LineChart as LineChartIcon } from 'lucide-react';
+import {
+  ComposedChart,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  ZAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend
+} from 'recharts';
+import { format } from 'date-fns';
+import { api } from '../api.ts';
+import { parseCsv } from '../csv.ts';
+import { parseCsvDate, parseCsvNumber } from '../csvImport.ts';
+import { DEFAULT_CURRENCY, type Fx } from '../currencies.ts';
+import { toBaseQuantity, unitFactor } from '../instruments.ts';
+import type { PricePoint, Trade } from '../types.ts';
+
+interface PriceHistoryChartProps {
+  trades: Trade[]; // gold lots only; the price history is per gram
+  fx: Fx; // the history is quoted in yuan, so foreign-currency markers are converted
+}
+
+interface Marker {
+  t: number;
+  price: number;
+  grams: number;
+}
+
+// Reads `date,price` style files; falls back to the first two columns when headers are unknown.
+function parsePriceCsv(text: string): PricePoint[] {
+  const [headers = [], ...rows] = parseCsv(text);
+  const find = (pattern: RegExp, fallback: number) => {
+    const index = headers.findIndex(h => pattern.test(h.trim().toLowerCase()));
+    return index >= 0 ? index : fallback;
+  };
+  const dateCol = find(/date|time|日期|时间/, 0);
+  const priceCol = find(/price|close|价格|收盘/, 1);
+
+  return rows.flatMap(row => {
+    const quoted_at = parseCsvDate(row[dateCol] ?? '');
+    const price = parseCsvNumber(row[priceCol] ?? '');
+    return quoted_at && price > 0 ? [{ quoted_at, price }] : [];
+  });
+}
+
+export function PriceHistoryChart({ trades, fx }: PriceHistoryChartProps) {
+  const [history, setHistory] = useState<PricePoint[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = () => api.listPrices()
+    .then(setHistory)
+    .catch(e => alert(`加载历史金价失败: ${e.message}`))
+    .finally(() => setLoading(false));
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const points = parsePriceCsv(await file.text());
+    if (points.length === 0) {
+      alert('未在文件中找到有效的日期和价格');
+      return;
+    }
+    try {
+      const { imported } = await api.importPrices(points);
+      alert(`已导入 ${imported} 条历史金价`);
+      load();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const priceData = useMemo(
+    () => history.map(p => ({ t: new Date(p.quoted_at).getTime(), price: p.price })),
+    [history]
+  );
+
+  const { buys, sells } = useMemo(() => {
+    const buys: Marker[] = [];
+    const sells: Marker[] = [];
+    trades.forEach(t => {
+      const factor = unitFactor(t.unit);
+      const buyPrice = fx.convert(t.buy_price, t.currency, DEFAULT_CURRENCY, t.buy_date);
+      buys.push({ t: new Date(t.buy_date).getTime(), price: buyPrice / factor, grams: toBaseQuantity(t.quantity, t.unit) });
+      t.sells.forEach(s => {
+        const sellPrice = fx.convert(s.sell_price, s.currency, DEFAULT_CURRENCY, s.sell_date);
+        sells.push({ t: new Date(s.sell_date).getTime(), price: sellPrice / factor, grams: toBaseQuantity(s.quantity, t.unit) });
+      });
+    });
+    return { buys, sells };
+  }, [trades, fx]);
+
+  return (
+    <div className="h-full w-full flex flex-col">
+      <div className="flex items-center justify-end gap-3 pb-2">
+        <span className="text-[10px] text-gray-500">{history.length} 个价格点 · 标记大小按克重</span>
+        <label className="flex items-center gap-1 text-[10px] font-bold text-gray-400 uppercase hover:text-white cursor-pointer transition-colors">
+          <Upload size={12} />
+          导入价格CSV
+          <input type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+        </label>
+      </div>
+
+      {!loading && priceData.length === 0 ? (
+        <div className="flex-1 flex flex-col items-center justify-center gap-2 text-gray-500">
+          <LineChartIcon size={32} strokeWidth={1.5} />
+          <p className="text-xs">暂无历史金价，导入 CSV (日期,价格) 或等待行情记录</p>
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart margin={{ top: 10, right: 10, left: 10, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#262626" />
+              <XAxis
+                dataKey="t"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fontSize: 10, fill: '#525252' }}
+                tickFormatter={(t: number) => format(new Date(t), 'yy/MM/dd')}
+              />
+              <YAxis
+                dataKey="price"
+                domain={['auto', 'auto']}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fontSize: 12, fill: '#525252' }}
+              />
+              <ZAxis dataKey="grams" range={[30, 400]} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1A1A1A', borderRadius: '12px', border: '1px solid #333', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.5)' }}
+                labelStyle={{ fontWeight: 'bold', marginBottom: '4px', color: '#FFF' }}
+                labelFormatter={(t) => format(new Date(Number(t)), 'yyyy-MM-dd HH:mm')}
+                formatter={(value, name) => name === 'grams' ? [`${Number(value).toFixed(4)}g`, '克重'] : [`¥${Number(value).toFixed(2)}`, name]}
+              />
+              <Legend wrapperStyle={{ fontSize: 10 }} />
+              <Line data={priceData} type="monotone" dataKey="price" name="金价" stroke="#EAB308" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Scatter data={buys} dataKey="price" name="买入" fill="#3B82F6" fillOpacity={0.7} />
+              <Scatter data={sells} dataKey="price" name="卖出" fill="#F43F5E" fillOpacity={0.7} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { format } from 'date-fns';
+import { AlertCircle, Clock } from 'lucide-react';
+import { cn } from '../utils.ts';
+import type { PriceQuote } from '../types.ts';
+
+interface PriceTickerProps {
+  quote: PriceQuote | null;
+  error: string | null;
+}
+
+export function PriceTicker({ quote, error }: PriceTickerProps) {
+  if (!quote) {
+    return (
+      <div className="hidden md:flex items-center gap-1.5 text-[10px] font-bold text-gray-600 uppercase" title={error ?? undefined}>
+        {error ? <><AlertCircle size={12} className="text-rose-500" /> 行情不可用</> : '行情加载中...'}
+      </div>
+    );
+  }
+
+  const problem = error ?? quote.error;
+  const stale = quote.stale || !!error;
+
+  return (
+    <div
+      className={cn(
+        "hidden md:flex items-center gap-2 px-3 py-1 rounded-full border text-xs",
+        stale ? "border-yellow-500/30 bg-yellow-500/5" : "border-[#262626] bg-[#141414]"
+      )}
+      title={`来源: ${quote.source}${problem ? `\n错误: ${problem}` : ''}`}
+    >
+      <span className="text-[10px] font-bold text-gray-500 uppercase">金价</span>
+      <span className="font-mono font-bold text-white">¥{quote.price.toFixed(2)}</span>
+      <span className="flex items-center gap-1 text-[10px] text-gray-500">
+        <Clock size={10} />
+        {format(new Date(quote.quotedAt), 'HH:mm:ss')}
+      </span>
+      {stale && (
+        <span className="flex items-center gap-1 text-[10px] font-bold text-yellow-500">
+          <AlertCircle size={10} />
+          {problem ? '更新失败' : '数据过期'}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Plus, Printer } from 'lucide-react';
+import { motion } from 'motion/react';
+import { buildStatement, monthOf, type StatementPeriod } from '../statements.ts';
+import { downloadStatementHtml, printStatement, renderStatementHtml, type StatementHeader } from '../statementReport.ts';
+import type { Fx } from '../currencies.ts';
+import type { CostMethod, Trade } from '../types.ts';
+
+interface StatementModalProps {
+  trades: Trade[]; // one instrument, so quantities add up
+  costMethod: CostMethod;
+  fx: Fx;
+  profits: Map<number, number>;
+  fxProfits: Map<number, number>;
+  header: StatementHeader;
+  onClose: () => void;
+}
+
+export function StatementModal({ trades, costMethod, fx, profits, fxProfits, header, onClose }: StatementModalProps) {
+  // Every year with a buy or sell, newest first, plus the current one
+  const years = useMemo(() => {
+    const found = new Set([new Date().getFullYear()]);
+    trades.forEach(t => {
+      found.add(Number(monthOf(t.buy_date).slice(0, 4)));
+      t.sells.forEach(s => found.add(Number(monthOf(s.sell_date).slice(0, 4))));
+    });
+    return [...found].sort((a, b) => b - a);
+  }, [trades]);
+
+  const [period, setPeriod] = useState<StatementPeriod>({ year: new Date().getFullYear(), month: null });
+
+  const statement = useMemo(
+    () => buildStatement(trades, period, costMethod, fx, profits, fxProfits),
+    [trades, period, costMethod, fx, profits, fxProfits]
+  );
+  const preview = useMemo(() => renderStatementHtml(statement, header), [statement, header]);
+
+  const print = () => {
+    try {
+      printStatement(statement, header);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-4xl bg-[#141414] rounded-3xl shadow-2xl overflow-hidden border border-[#262626] h-[90vh] flex flex-col"
+      >
+        <div className="p-6 border-b border-[#262626] flex items-center justify-between gap-4">
+          <div>
+            <h3 className="text-xl font-bold text-white">对账单</h3>
+            <p className="text-[10px] text-gray-500 mt-1">{header.scope} · 期初/期末持仓按{header.costMethod}计算成本</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white">
+            <Plus className="rotate-45" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-[#262626] flex flex-wrap items-center gap-2">
+          <select
+            value={period.year}
+            onChange={e => setPeriod(prev => ({ ...prev, year: Number(e.target.value) }))}
+            className="bg-[#0A0A0A] border border-[#262626] text-xs text-gray-300 rounded-lg px-2 py-2 outline-none focus:ring-1 focus:ring-yellow-500"
+          >
+            {years.map(y => <option key={y} value={y}>{y} 年</option>)}
+          </select>
+          <select
+            value={period.month ?? ''}
+            onChange={e => setPeriod(prev => ({ ...prev, month: e.target.value ? Number(e.target.value) : null }))}
+            className="bg-[#0A0A0A] border border-[#262626] text-xs text-gray-300 rounded-lg px-2 py-2 outline-none focus:ring-1 focus:ring-yellow-500"
+          >
+            <option value="">全年</option>
+            {Array.from({ length: 12 }, (_, i) => i + 1).map(m => <option key={m} value={m}>{m} 月</option>)}
+          </select>
+          <div className="flex-1" />
+          <button
+            onClick={() => downloadStatementHtml(statement, header)}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-[#1A1A1A] border border-[#262626] text-xs font-bold text-gray-300 hover:text-white transition-colors"
+          >
+            <Download size={14} />
+            下载 HTML
+          </button>
+          <button
+            onClick={print}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-yellow-500 text-black text-xs font-bold hover:bg-yellow-400 transition-colors"
+          >
+            <Printer size={14} />
+            打印 / 存为 PDF
+          </button>
+        </div>
+
+        <iframe title="对账单预览" srcDoc={preview} className="flex-1 w-full bg-white" />
+      </motion.div>
+    </div>
+  );
+}
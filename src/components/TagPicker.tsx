@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { MAX_TAG_LENGTH, normalizeTags } from '../tags.ts';
+import { cn } from '../utils.ts';
+
+interface TagPickerProps {
+  value: string[];
+  suggestions: string[]; // from knownTags, most used first
+  onChange: (tags: string[]) => void;
+}
+
+// Selected tags as removable chips, suggestions to click, and a field for a new tag.
+export function TagPicker({ value, suggestions, onChange }: TagPickerProps) {
+  const [draft, setDraft] = useState('');
+  const unused = suggestions.filter(tag => !value.includes(tag));
+
+  const add = () => {
+    const tag = draft.trim();
+    if (tag && tag.length <= MAX_TAG_LENGTH) onChange(normalizeTags([...value, tag]));
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <label className="text-xs font-bold text-gray-500 uppercase">标签</label>
+      <div className="flex flex-wrap items-center gap-1.5">
+        {value.map(tag => (
+          <TagChip key={tag} tag={tag} onRemove={() => onChange(value.filter(t => t !== tag))} />
+        ))}
+        <input
+          value={draft}
+          maxLength={MAX_TAG_LENGTH}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              add();
+            }
+          }}
+          onBlur={add}
+          className="flex-1 min-w-[6rem] bg-[#1A1A1A] border border-[#262626] text-white text-xs rounded-lg px-3 py-1.5 focus:ring-1 focus:ring-yellow-500 outline-none"
+          placeholder="输入后回车添加"
+        />
+      </div>
+      {unused.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {unused.slice(0, 10).map(tag => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => onChange([...value, tag])}
+              className="flex items-center gap-0.5 px-2 py-0.5 rounded-full border border-dashed border-[#333] text-[10px] text-gray-500 hover:text-yellow-500 hover:border-yellow-500/50 transition-colors"
+            >
+              <Plus size={10} />
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface TagChipProps {
+  key?: React.Key;
+  tag: string;
+  onRemove?: () => void;
+  className?: string;
+}
+
+export function TagChip({ tag, onRemove, className }: TagChipProps) {
+  return (
+    <span className={cn("inline-flex items-center gap-0.5 px-2 py-0.5 rounded-full bg-yellow-500/10 text-yellow-500 text-[10px] font-bold", className)}>
+      #{tag}
+      {onRemove && (
+        <button type="button" onClick={onRemove} className="text-yellow-500/60 hover:text-yellow-400">
+          <Plus size={10} className="rotate-45" />
+        </button>
+      )}
+    </span>
+  );
+}
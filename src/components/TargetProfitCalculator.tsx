@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { cn } from '../utils.ts';
+import { breakEvenPrice, requiredSellPrice } from '../ledger.ts';
+import type { UnitInfo } from '../instruments.ts';
+
+type TargetMode = 'amount' | 'percent';
+
+interface TargetProfitCalculatorProps {
+  cost: number; // effective cost per unit
+  quantity: number; // quantity still to sell
+  feeRate: number; // estimated sell fee, as a fraction of the sell amount
+  currentPrice: number | null; // same currency and unit as `cost`
+  symbol: string;
+  unit: UnitInfo;
+}
+
+// Break-even sell price after the estimated sell fee, and the price needed to net a chosen
+// profit (an amount, or a return on the cost) on the whole remaining quantity.
+export function TargetProfitCalculator({ cost, quantity, feeRate, currentPrice, symbol, unit }: TargetProfitCalculatorProps) {
+  const [mode, setMode] = useState<TargetMode>('percent');
+  const [target, setTarget] = useState('');
+
+  const breakEven = breakEvenPrice(cost, feeRate);
+  const value = parseFloat(target);
+  const profit = !Number.isFinite(value) ? null : mode === 'amount' ? value : cost * quantity * value / 100;
+  const price = profit !== null ? requiredSellPrice(cost, quantity, feeRate, profit) : null;
+
+  const formatPrice = (p: number | null) => p !== null ? `${symbol}${p.toFixed(4)}/${unit.label}` : '--';
+  const distance = (p: number | null) => p !== null && currentPrice !== null && currentPrice > 0
+    ? `较现价 ${p >= currentPrice ? '+' : ''}${((p / currentPrice - 1) * 100).toFixed(2)}%`
+    : null;
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-center gap-3 md:gap-6 text-xs">
+      <div className="flex flex-col">
+        <span className="text-[10px] font-bold text-gray-500 uppercase">保本卖价</span>
+        <span className="font-mono font-bold text-white">{formatPrice(breakEven)}</span>
+        {distance(breakEven) && <span className="text-[10px] text-gray-600">{distance(breakEven)}</span>}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-bold text-gray-500 uppercase shrink-0">目标收益</span>
+        <div className="flex bg-[#0A0A0A] p-1 rounded-lg border border-[#262626] shrink-0">
+          {(['percent', 'amount'] as TargetMode[]).map(m => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              className={cn(
+                "px-2 py-0.5 text-[10px] font-bold rounded-md transition-all",
+                mode === m ? "bg-yellow-500 text-black" : "text-gray-500 hover:text-gray-300"
+              )}
+            >
+              {m === 'percent' ? '收益率 %' : `金额 ${symbol}`}
+            </button>
+          ))}
+        </div>
+        <input
+          type="number"
+          step="any"
+          placeholder={mode === 'percent' ? '如 10' : '如 1000'}
+          value={target}
+          onChange={e => setTarget(e.target.value)}
+          className="w-24 bg-[#0A0A0A] border border-[#262626] text-xs text-white rounded-lg px-2 py-1.5 outline-none focus:ring-1 focus:ring-yellow-500"
+        />
+      </div>
+
+      <div className="flex flex-col">
+        <span className="text-[10px] font-bold text-gray-500 uppercase">需卖出价</span>
+        <span className="font-mono font-bold text-yellow-500">{formatPrice(price)}</span>
+        {price !== null && (
+          <span className="text-[10px] text-gray-600">
+            {`卖出 ${quantity.toFixed(4)}${unit.symbol}`}{distance(price) && ` · ${distance(price)}`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { api } from '../api.ts';
+import { CURRENCIES, isCurrency } from '../currencies.ts';
+import { INSTRUMENTS, isInstrument, isUnit, UNITS } from '../instruments.ts';
+import { formatTags } from '../tags.ts';
+import type { Account, AuditEntry, Trade } from '../types.ts';
+
+interface TradeHistoryProps {
+  trade: Trade;
+  accounts: Account[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  account_id: '账户',
+  instrument: '品种',
+  unit: '单位',
+  currency: '币种',
+  buy_price: '买入单价',
+  quantity: '数量',
+  buy_date: '买入时间',
+  buy_fee: '买入手续费',
+  spread: '点差',
+  premium: '溢价',
+  target_price: '止盈价',
+  stop_price: '止损价',
+  sell_price: '卖出单价',
+  sell_date: '卖出时间',
+  fee: '手续费',
+  notes: '备注',
+  tags: '标签'
+};
+
+const DATE_FIELDS = ['buy_date', 'sell_date'];
+
+// Append-only log of edits to a trade and its sells, reloaded whenever the trade changes.
+export function TradeHistory({ trade, accounts }: TradeHistoryProps) {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+
+  useEffect(() => {
+    api.getTradeHistory(trade.id)
+      .then(setEntries)
+      .catch(e => alert(`加载修改历史失败: ${e.message}`));
+  }, [trade]);
+
+  const formatValue = (field: string, value: AuditEntry['old_value']) => {
+    if (value === null || value === '') return '—';
+    if (Array.isArray(value)) return value.length > 0 ? formatTags(value) : '—';
+    if (DATE_FIELDS.includes(field)) return format(new Date(value), 'yyyy-MM-dd HH:mm');
+    if (field === 'account_id') return accounts.find(a => a.id === value)?.name ?? `#${value}`;
+    if (field === 'instrument' && isInstrument(value)) return INSTRUMENTS[value].label;
+    if (field === 'unit' && isUnit(value)) return UNITS[value].label;
+    if (field === 'currency' && isCurrency(value)) return CURRENCIES[value].label;
+    return String(value);
+  };
+
+  const recordLabel = (entry: AuditEntry) => {
+    if (entry.record_type === 'trade') return '买入';
+    const sell = trade.sells.find(s => s.id === entry.record_id);
+    return sell ? `卖出 ${format(new Date(sell.sell_date), 'MM-dd')}` : '卖出 (已删除)';
+  };
+
+  if (!entries) {
+    return <p className="text-[10px] text-gray-600 px-1">加载中...</p>;
+  }
+  if (entries.length === 0) {
+    return <p className="text-[10px] text-gray-600 px-1">暂无修改记录</p>;
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {entries.map(entry => (
+        <div key={entry.id} className="flex items-center justify-between gap-3 bg-[#141414] px-3 py-2 rounded-lg border border-[#262626] text-xs">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="text-[10px] font-bold text-gray-500 bg-[#1A1A1A] px-1.5 py-0.5 rounded shrink-0">{recordLabel(entry)}</span>
+            <span className="text-gray-400 shrink-0">{FIELD_LABELS[entry.field] ?? entry.field}</span>
+            <span className="text-gray-600 line-through truncate">{formatValue(entry.field, entry.old_value)}</span>
+            <span className="text-gray-600">→</span>
+            <span className="text-gray-200 font-bold truncate">{formatValue(entry.field, entry.new_value)}</span>
+          </div>
+          <span className="text-[10px] text-gray-600 shrink-0">{format(new Date(entry.changed_at), 'yyyy-MM-dd HH:mm:ss')}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, RotateCcw, Trash2, Layers, Scale, ArrowUpRight } from 'lucide-react';
+import { motion } from 'motion/react';
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import { api } from '../api.ts';
+import { CURRENCIES } from '../currencies.ts';
+import { UNITS } from '../instruments.ts';
+import { TRASH_RETENTION_DAYS, type TrashContents, type TrashedSell, type TrashedTrade } from '../types.ts';
+
+interface TrashModalProps {
+  // Restores go through the app's mutate so they land on the undo stack and reload the ledger
+  onRestore: (label: string, action: () => Promise<unknown>) => Promise<boolean>;
+  onClose: () => void;
+}
+
+type TrashItem =
+  | { kind: 'trade'; data: TrashedTrade }
+  | { kind: 'sell'; data: TrashedSell };
+
+const itemBatchId = (item: TrashItem) => {
+  if (item.kind === 'sell') return item.data.batch_id ?? null;
+  const batchIds = new Set(item.data.sells.map(s => s.batch_id));
+  const [only] = batchIds;
+  return batchIds.size === 1 ? only ?? null : null;
+};
+
+const daysLeft = (deletedAt: string) =>
+  Math.max(0, differenceInCalendarDays(addDays(new Date(deletedAt), TRASH_RETENTION_DAYS), new Date()));
+
+export function TrashModal({ onRestore, onClose }: TrashModalProps) {
+  const [trash, setTrash] = useState<TrashContents | null>(null);
+
+  const load = () => api.listTrash()
+    .then(setTrash)
+    .catch(e => alert(`加载回收站失败: ${e.message}`));
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  // Items deleted as part of a batch are shown together so the batch can be restored in one go
+  const groups = useMemo(() => {
+    if (!trash) return [];
+    const items: TrashItem[] = [
+      ...trash.trades.map(data => ({ kind: 'trade' as const, data })),
+      ...trash.sells.map(data => ({ kind: 'sell' as const, data }))
+    ].sort((a, b) => b.data.deleted_at.localeCompare(a.data.deleted_at));
+
+    const result: { batchId: string | null; items: TrashItem[] }[] = [];
+    items.forEach(item => {
+      const batchId = itemBatchId(item);
+      const group = batchId ? result.find(g => g.batchId === batchId) : undefined;
+      if (group) group.items.push(item);
+      else result.push({ batchId, items: [item] });
+    });
+    return result;
+  }, [trash]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+    load();
+  };
+
+  const restore = async (label: string, action: () => Promise<unknown>) => {
+    await onRestore(label, action);
+    load();
+  };
+
+  const isEmpty = trash !== null && trash.trades.length === 0 && trash.sells.length === 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-lg bg-[#141414] rounded-3xl shadow-2xl overflow-hidden border border-[#262626] max-h-[90vh] flex flex-col"
+      >
+        <div className="p-6 border-b border-[#262626] flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-white">回收站</h3>
+            <p className="text-[10px] text-gray-500 mt-1">删除的记录保留 {TRASH_RETENTION_DAYS} 天后自动清除</p>
+          </div>
+          <div className="flex items-center gap-3">
+            {!isEmpty && trash && (
+              <button
+                onClick={() => {
+                  if (confirm('确定要清空回收站吗？清空后无法恢复。')) run(() => api.emptyTrash());
+                }}
+                className="text-xs font-bold text-rose-500 hover:text-rose-400"
+              >
+                清空
+              </button>
+            )}
+            <button onClick={onClose} className="text-gray-500 hover:text-white">
+              <Plus className="rotate-45" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {isEmpty && (
+            <div className="flex flex-col items-center gap-2 py-10 text-gray-500">
+              <Trash2 size={32} strokeWidth={1.5} />
+              <p className="text-xs">回收站是空的</p>
+            </div>
+          )}
+
+          {groups.map(group => (
+            <div key={group.batchId ?? `${group.items[0].kind}-${group.items[0].data.id}`} className="space-y-1.5">
+              {group.batchId && (
+                <div className="flex items-center justify-between px-1">
+                  <span className="flex items-center gap-1.5 text-[10px] font-bold text-gray-500 uppercase">
+                    <Layers size={12} /> 合并卖出
+                  </span>
+                  {group.items.length > 1 && (
+                    <button
+                      onClick={() => restore('恢复合并卖出', () => api.restoreTrashedBatch(group.batchId!))}
+                      className="text-[10px] font-bold text-yellow-500 hover:text-yellow-400"
+                    >
+                      全部恢复
+                    </button>
+                  )}
+                </div>
+              )}
+              {group.items.map(item => (
+                <div key={`${item.kind}-${item.data.id}`} className="flex items-center justify-between gap-3 bg-[#1A1A1A] px-3 py-2.5 rounded-lg border border-[#262626] text-xs">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div className="w-7 h-7 shrink-0 rounded bg-[#0A0A0A] flex items-center justify-center text-gray-500">
+                      {item.kind === 'trade' ? <Scale size={14} /> : <ArrowUpRight size={14} />}
+                    </div>
+                    {item.kind === 'trade' ? (
+                      <div className="min-w-0">
+                        <div className="font-bold text-gray-300">
+                          买入 {item.data.quantity.toFixed(4)}{UNITS[item.data.unit].symbol} @ {CURRENCIES[item.data.currency].symbol}{item.data.buy_price.toFixed(4)}
+                        </div>
+                        <div className="text-[10px] text-gray-600">
+                          {format(new Date(item.data.buy_date), 'yyyy-MM-dd')}
+                          {item.data.sells.length > 0 && ` · 含 ${item.data.sells.length} 条卖出`}
+                          {` · ${daysLeft(item.data.deleted_at)} 天后清除`}
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="min-w-0">
+                        <div className="font-bold text-gray-300">
+                          卖出 {item.data.quantity.toFixed(4)}{UNITS[item.data.trade.unit].symbol} @ {CURRENCIES[item.data.currency].symbol}{item.data.sell_price.toFixed(4)}
+                        </div>
+                        <div className="text-[10px] text-gray-600">
+                          {format(new Date(item.data.sell_date), 'yyyy-MM-dd')} · 买入于 {format(new Date(item.data.trade.buy_date), 'yyyy-MM-dd')}
+                          {item.data.trade_deleted && ' (已删除)'}
+                          {` · ${daysLeft(item.data.deleted_at)} 天后清除`}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      title="恢复"
+                      onClick={() => item.kind === 'trade'
+                        ? restore('恢复买入记录', () => api.restoreTrashedTrade(item.data.id))
+                        : restore('恢复卖出记录', () => api.restoreTrashedSell(item.data.id))}
+                      className="p-1.5 text-gray-500 hover:text-yellow-500 transition-colors"
+                    >
+                      <RotateCcw size={14} />
+                    </button>
+                    <button
+                      title="彻底删除"
+                      onClick={() => {
+                        if (!confirm('彻底删除后无法恢复，确定吗？')) return;
+                        run(() => item.kind === 'trade'
+                          ? api.purgeTrashedTrade(item.data.id)
+                          : api.purgeTrashedSell(item.data.id));
+                      }}
+                      className="p-1.5 text-gray-500 hover:text-rose-500 transition-colors"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import React, { useEffect } from 'react';
+import { Undo2 } from 'lucide-react';
+import { motion } from 'motion/react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const TOAST_MS = 6000;
+
+export function UndoToast({ message, onUndo, onDismiss }: UndoToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-4 bg-[#1A1A1A] border border-[#333] rounded-full pl-5 pr-2 py-2 shadow-2xl text-sm"
+    >
+      <span className="text-gray-300">{message}</span>
+      <button
+        onClick={() => {
+          onUndo();
+          onDismiss();
+        }}
+        className="flex items-center gap-1.5 bg-yellow-500 text-black px-3 py-1.5 rounded-full text-xs font-bold hover:bg-yellow-400 transition-all active:scale-95"
+      >
+        <Undo2 size={14} />
+        撤销
+      </button>
+    </motion.div>
+  );
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { allocateSell, openLots, replayCostBasis } from './costBasis.ts';
+import { createFx } from './currencies.ts';
+import type { Sell, Trade } from './types.ts';
+
+const trade = (id: number, fields: Partial<Trade> = {}): Trade => ({
+  id,
+  account_id: 1,
+  instrument: 'Au',
+  unit: 'g',
+  currency: 'CNY',
+  buy_price: 100,
+  quantity: 10,
+  buy_date: '2026-01-01T10:00',
+  buy_fee: 0,
+  spread: 0,
+  premium: 0,
+  target_price: null,
+  stop_price: null,
+  notes: null,
+  tags: [],
+  sells: [],
+  ...fields
+});
+
+const sell = (id: number, tradeId: number, fields: Partial<Sell> = {}): Sell => ({
+  id,
+  trade_id: tradeId,
+  sell_price: 150,
+  quantity: 5,
+  sell_date: '2026-03-01T10:00',
+  fee: 0,
+  notes: null,
+  tags: [],
+  currency: 'CNY',
+  ...fields
+});
+
+const cny = createFx([], 'CNY');
+
+// Two lots of 10g at 100 and 120; 5g of the later, dearer one sold at 150
+const pool = () => [
+  trade(1),
+  trade(2, { buy_price: 120, buy_date: '2026-02-01T10:00', sells: [sell(11, 2)] })
+];
+
+describe('replayCostBasis', () => {
+  it.each([
+    ['specific', 150, 1000 + 600],
+    ['fifo', 250, 500 + 1200],
+    ['lifo', 150, 1000 + 600],
+    ['hifo', 150, 1000 + 600],
+    ['average', 200, 15 * 110]
+  ] as const)('matches the sell under %s', (method, profit, openCost) => {
+    const report = replayCostBasis(pool(), method, cny);
+    expect(report.profits.get(11)).toBeCloseTo(profit);
+    expect(report.openCost).toBeCloseTo(openCost);
+  });
+
+  it('includes buy and sell fees in the profit', () => {
+    const trades = [trade(1, { buy_fee: 10, sells: [sell(11, 1, { fee: 3 })] })];
+    // cost per gram 101, proceeds 750 - 3
+    expect(replayCostBasis(trades, 'fifo', cny).profits.get(11)).toBeCloseTo(747 - 505);
+  });
+
+  it('keeps accounts in separate pools', () => {
+    const trades = [
+      trade(1, { buy_price: 50 }),
+      trade(2, { account_id: 2, buy_date: '2026-02-01T10:00', sells: [sell(11, 2)] })
+    ];
+    // FIFO would take the older, cheaper lot if the pools were shared
+    expect(replayCostBasis(trades, 'fifo', cny).profits.get(11)).toBeCloseTo(250);
+  });
+
+  it('converts quantities of lots bought in other units', () => {
+    const trades = [
+      trade(1, { unit: 'kg', quantity: 0.01, buy_price: 100000 }),
+      trade(2, { buy_price: 120, buy_date: '2026-02-01T10:00', sells: [sell(11, 2)] })
+    ];
+    expect(replayCostBasis(trades, 'fifo', cny).profits.get(11)).toBeCloseTo(250);
+  });
+
+  it('ranks HIFO lots by their base-currency cost', () => {
+    const fx = createFx([{ currency: 'USD', date: '2026-01-01', rate: 7 }], 'CNY');
+    const trades = [
+      trade(1),
+      // 20 USD/g is 140 yuan, so this is the dearer lot
+      trade(2, { currency: 'USD', buy_price: 20, buy_date: '2026-02-01T10:00' }),
+      trade(3, { buy_date: '2026-02-15T10:00', sells: [sell(11, 3, { sell_price: 200 })] })
+    ];
+    expect(replayCostBasis(trades, 'hifo', fx).profits.get(11)).toBeCloseTo(1000 - 700);
+  });
+
+  it('breaks out the exchange-rate part of a foreign-currency profit', () => {
+    const fx = createFx([
+      { currency: 'USD', date: '2026-01-01', rate: 7 },
+      { currency: 'USD', date: '2026-03-01', rate: 7.5 }
+    ], 'CNY');
+    const trades = [trade(1, {
+      currency: 'USD',
+      buy_price: 20,
+      sells: [sell(11, 1, { currency: 'USD', sell_price: 21, quantity: 1 })]
+    })];
+    const report = replayCostBasis(trades, 'specific', fx);
+    expect(report.profits.get(11)).toBeCloseTo(21 * 7.5 - 20 * 7);
+    expect(report.fxProfits.get(11)).toBeCloseTo(20 * 0.5);
+  });
+
+  it('falls back to the recorded lot for a sell dated before any buy', () => {
+    const trades = [trade(1, { sells: [sell(11, 1, { sell_date: '2025-12-01T10:00' })] })];
+    expect(replayCostBasis(trades, 'fifo', cny).profits.get(11)).toBeCloseTo(250);
+  });
+});
+
+describe('allocateSell', () => {
+  it('takes whole lots in order and part of the last', () => {
+    expect(allocateSell(openLots(pool()), 12, 'fifo')).toEqual([
+      { trade_id: 1, quantity: 10 },
+      { trade_id: 2, quantity: 2 }
+    ]);
+  });
+
+  it('rejects more than the lots hold', () => {
+    expect(() => allocateSell(openLots(pool()), 16, 'fifo')).toThrow('卖出数量超过可卖持仓');
+  });
+});
@@ -0,0 +1,224 @@
+import { effectiveCost } from './ledger.ts';
+import { unitFactor } from './instruments.ts';
+import type { Fx } from './currencies.ts';
+import type { AllocationMethod, CostMethod, Currency, Trade } from './types.ts';
+
+const EPSILON = 0.00001;
+
+export const COST_METHOD_LABELS: Record<CostMethod, string> = {
+  specific: '指定批次',
+  fifo: '先进先出',
+  lifo: '后进先出',
+  hifo: '高成本优先',
+  average: '移动平均'
+};
+
+export interface OpenLot {
+  id: number;
+  buy_price: number;
+  cost: number; // effective cost per unit in the trade's currency, see effectiveCost
+  buy_date: string;
+  remaining: number;
+}
+
+export interface Allocation {
+  trade_id: number;
+  quantity: number;
+}
+
+export function openLots(trades: Trade[]): OpenLot[] {
+  return trades
+    .map(t => ({
+      id: t.id,
+      buy_price: t.buy_price,
+      cost: effectiveCost(t),
+      buy_date: t.buy_date,
+      remaining: t.quantity - t.sells.reduce((acc, s) => acc + s.quantity, 0)
+    }))
+    .filter(l => l.remaining > EPSILON);
+}
+
+const time = (date: string) => new Date(date).getTime();
+
+const lotOrder: Record<Exclude<AllocationMethod, 'average'>, (a: OpenLot, b: OpenLot) => number> = {
+  fifo: (a, b) => time(a.buy_date) - time(b.buy_date) || a.id - b.id,
+  lifo: (a, b) => time(b.buy_date) - time(a.buy_date) || b.id - a.id,
+  hifo: (a, b) => b.cost - a.cost || time(a.buy_date) - time(b.buy_date)
+};
+
+// Splits `quantity` grams across open lots. 'average' takes the same fraction of every lot,
+// so the remaining lots keep the portfolio's average cost.
+export function allocateSell(lots: OpenLot[], quantity: number, method: AllocationMethod): Allocation[] {
+  const available = lots.reduce((acc, l) => acc + l.remaining, 0);
+  if (quantity > available + EPSILON) {
+    throw new Error(`卖出数量超过可卖持仓 (${available.toFixed(4)}g)`);
+  }
+
+  if (method === 'average') {
+    const ratio = Math.min(1, quantity / available);
+    return lots.map(l => ({ trade_id: l.id, quantity: l.remaining * ratio }));
+  }
+
+  const allocations: Allocation[] = [];
+  let left = quantity;
+  for (const lot of [...lots].sort(lotOrder[method])) {
+    if (left <= EPSILON) break;
+    const take = Math.min(lot.remaining, left);
+    allocations.push({ trade_id: lot.id, quantity: take });
+    left -= take;
+  }
+  return allocations;
+}
+
+// All amounts are in the base currency. A lot's cost is converted at the rate on its buy date
+// and sale proceeds at the rate on the sell date, so the profit includes the exchange-rate
+// move in between; the `fx` figures break that part out.
+export interface CostBasisReport {
+  profits: Map<number, number>; // realized profit keyed by sell id
+  fxProfits: Map<number, number>; // the part of each realized profit due to exchange rates
+  openCost: number; // cost of the quantity still held
+  openFxGain: number; // exchange-rate gain on the open cost at today's rates
+}
+
+// Validates hand-entered per-lot grams against what each lot still holds.
+export function validateManualAllocations(lots: OpenLot[], allocations: Allocation[]): Allocation[] {
+  return allocations
+    .filter(a => a.quantity > 0)
+    .map(a => {
+      const lot = lots.find(l => l.id === a.trade_id);
+      if (!lot) {
+        throw new Error('所选买入记录已无剩余持仓');
+      }
+      if (a.quantity > lot.remaining + EPSILON) {
+        throw new Error(`分配克重超过该笔剩余持仓 (${lot.remaining.toFixed(4)}g)`);
+      }
+      return a;
+    });
+}
+
+// Realized profit of every sell under the given method. For anything other than 'specific'
+// all buys and sells are replayed in date order against a shared pool of lots, ignoring which
+// trade each sell was recorded against; what is left in the pool is the open cost. Each
+// account and instrument has its own pool, so a sell is never matched against another
+// account's lots or another metal.
+export function replayCostBasis(trades: Trade[], method: CostMethod, fx: Fx): CostBasisReport {
+  const pools = new Map<string, Trade[]>();
+  trades.forEach(t => {
+    const key = `${t.account_id}|${t.instrument}`;
+    pools.set(key, [...(pools.get(key) ?? []), t]);
+  });
+
+  const report: CostBasisReport = { profits: new Map(), fxProfits: new Map(), openCost: 0, openFxGain: 0 };
+  pools.forEach(poolTrades => {
+    const pool = replayPool(poolTrades, method, fx);
+    pool.profits.forEach((profit, id) => report.profits.set(id, profit));
+    pool.fxProfits.forEach((profit, id) => report.fxProfits.set(id, profit));
+    report.openCost += pool.openCost;
+    report.openFxGain += pool.openFxGain;
+  });
+  return report;
+}
+
+interface PoolLot extends OpenLot {
+  currency: Currency;
+}
+
+// Lots in one pool may be recorded in different units and currencies, so quantities and
+// per-unit prices are converted to the instrument's base unit while replaying, and each
+// lot's cost stays in its own currency until it is matched.
+function replayPool(trades: Trade[], method: CostMethod, fx: Fx): CostBasisReport {
+  const profits = new Map<number, number>();
+  const fxProfits = new Map<number, number>();
+  const now = new Date().toISOString();
+  // Base-currency cost of `localCost` from a lot, and its exchange-rate gain up to `date`
+  const convertCost = (lot: { currency: Currency, buy_date: string }, localCost: number, date: string) => {
+    const atBuy = fx.rate(lot.currency, lot.buy_date);
+    return { cost: localCost * atBuy, fx: localCost * (fx.rate(lot.currency, date) - atBuy) };
+  };
+  const record = (id: number, proceeds: number, matched: { cost: number, fx: number }) => {
+    profits.set(id, proceeds - matched.cost);
+    fxProfits.set(id, matched.fx);
+  };
+
+  if (method === 'specific') {
+    let openCost = 0;
+    let openFxGain = 0;
+    trades.forEach(t => {
+      t.sells.forEach(s => {
+        const proceeds = (s.sell_price * s.quantity - s.fee) * fx.rate(s.currency, s.sell_date);
+        record(s.id, proceeds, convertCost(t, effectiveCost(t) * s.quantity, s.sell_date));
+      });
+      const open = convertCost(t, effectiveCost(t) * (t.quantity - t.sells.reduce((acc, s) => acc + s.quantity, 0)), now);
+      openCost += open.cost;
+      openFxGain += open.fx;
+    });
+    return { profits, fxProfits, openCost, openFxGain };
+  }
+
+  type Event =
+    | { kind: 'buy', at: number, lot: PoolLot }
+    | { kind: 'sell', at: number, id: number, date: string, proceeds: number, quantity: number, fallback: PoolLot };
+
+  const events: Event[] = trades.flatMap(t => {
+    const factor = unitFactor(t.unit);
+    const lot: PoolLot = {
+      id: t.id,
+      buy_price: t.buy_price / factor,
+      cost: effectiveCost(t) / factor,
+      buy_date: t.buy_date,
+      remaining: t.quantity * factor,
+      currency: t.currency
+    };
+    return [
+      { kind: 'buy' as const, at: time(t.buy_date), lot },
+      ...t.sells.map(s => ({
+        kind: 'sell' as const,
+        at: time(s.sell_date),
+        id: s.id,
+        date: s.sell_date,
+        proceeds: (s.sell_price * s.quantity - s.fee) * fx.rate(s.currency, s.sell_date),
+        quantity: s.quantity * factor,
+        fallback: lot
+      }))
+    ];
+  });
+  // Buys first on ties so a same-minute buy and sell match up
+  events.sort((a, b) => a.at - b.at || (a.kind === 'buy' ? -1 : 1) - (b.kind === 'buy' ? -1 : 1));
+
+  const pool: PoolLot[] = [];
+  events.forEach(e => {
+    if (e.kind === 'buy') {
+      pool.push({ ...e.lot });
+      return;
+    }
+
+    const open = pool.filter(l => l.remaining > EPSILON);
+    const available = open.reduce((acc, l) => acc + l.remaining, 0);
+    const matched = Math.min(e.quantity, available);
+    // Lots are ranked by their base-currency cost on the buy date, as the pool can mix currencies
+    const ranked = open.map(l => ({ ...l, cost: l.cost * fx.rate(l.currency, l.buy_date) }));
+    const taken: { lot: PoolLot, quantity: number }[] = method === 'average'
+      ? open.map(lot => ({ lot, quantity: lot.remaining * (matched / available) }))
+      : allocateSell(ranked, matched, method).map(a => ({ lot: open.find(l => l.id === a.trade_id)!, quantity: a.quantity }));
+
+    // Inconsistent data (a sell dated before its buy) falls back to the recorded lot's cost
+    taken.push({ lot: e.fallback, quantity: e.quantity - matched });
+    const total = { cost: 0, fx: 0 };
+    taken.forEach(({ lot, quantity }) => {
+      const part = convertCost(lot, lot.cost * quantity, e.date);
+      total.cost += part.cost;
+      total.fx += part.fx;
+    });
+    taken.slice(0, -1).forEach(({ lot, quantity }) => { lot.remaining -= quantity; });
+    record(e.id, e.proceeds, total);
+  });
+
+  let openCost = 0;
+  let openFxGain = 0;
+  pool.forEach(l => {
+    const open = convertCost(l, l.cost * Math.max(0, l.remaining), now);
+    openCost += open.cost;
+    openFxGain += open.fx;
+  });
+  return { profits, fxProfits, openCost, openFxGain };
+}
@@ -0,0 +1,191 @@
+import { baseUnit, DEFAULT_INSTRUMENT, isUnitOf, parseInstrument, parseUnit } from './instruments.ts';
+import { DEFAULT_CURRENCY, parseCurrency } from './currencies.ts';
+import { MAX_TAG_LENGTH, parseTags } from './tags.ts';
+import type { CsvImportRow, Trade } from './types.ts';
+
+export type CsvField =
+  | 'instrument'
+  | 'unit'
+  | 'currency'
+  | 'buy_price'
+  | 'quantity'
+  | 'buy_date'
+  | 'buy_fee'
+  | 'spread'
+  | 'premium'
+  | 'notes'
+  | 'tags'
+  | 'sell_price'
+  | 'sell_quantity'
+  | 'sell_date'
+  | 'fee'
+  | 'sell_notes';
+
+export type CsvMapping = Record<CsvField, number | null>;
+
+export const CSV_FIELDS: { key: CsvField, label: string, required: boolean, aliases: string[] }[] = [
+  { key: 'instrument', label: '品种', required: false, aliases: ['instrument', '品种', '标的', 'metal'] },
+  { key: 'unit', label: '单位', required: false, aliases: ['unit', '单位', '计量单位'] },
+  { key: 'currency', label: '币种', required: false, aliases: ['currency', '币种', '货币'] },
+  { key: 'buy_price', label: '买入单价', required: true, aliases: ['buy_price', '买入单价', '买入价', '成交价', '单价', 'price'] },
+  { key: 'quantity', label: '买入克重', required: true, aliases: ['quantity', '买入克重', '克重', '数量', '成交数量', 'grams'] },
+  { key: 'buy_date', label: '买入时间', required: true, aliases: ['buy_date', '买入时间', '买入日期', '成交时间', '日期', 'date'] },
+  { key: 'buy_fee', label: '买入手续费', required: false, aliases: ['buy_fee', '买入手续费', '买入费用'] },
+  { key: 'spread', label: '点差 (元/克)', required: false, aliases: ['spread', '点差'] },
+  { key: 'premium', label: '溢价 (元/克)', required: false, aliases: ['premium', '溢价', '工费', '加工费'] },
+  { key: 'notes', label: '备注', required: false, aliases: ['notes', '备注', 'note', 'memo'] },
+  { key: 'tags', label: '标签', required: false, aliases: ['tags', '标签', '策略'] },
+  { key: 'sell_price', label: '卖出单价', required: false, aliases: ['sell_price', '卖出单价', '卖出价'] },
+  { key: 'sell_quantity', label: '卖出克重', required: false, aliases: ['sell_quantity', '卖出克重', '卖出数量'] },
+  { key: 'sell_date', label: '卖出时间', required: false, aliases: ['sell_date', '卖出时间', '卖出日期'] },
+  { key: 'fee', label: '手续费', required: false, aliases: ['fee', '手续费', '费用'] },
+  { key: 'sell_notes', label: '卖出备注', required: false, aliases: ['sell_notes', '卖出备注'] }
+];
+
+export interface CsvPreviewRow {
+  line: number;
+  row: CsvImportRow | null;
+  errors: string[];
+  duplicate: boolean;
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s()（）]/g, '');
+
+export function guessMapping(headers: string[]): CsvMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as CsvMapping;
+
+  CSV_FIELDS.forEach(field => {
+    const index = normalized.findIndex((h, i) =>
+      !used.has(i) && field.aliases.some(alias => h === normalizeHeader(alias))
+    );
+    mapping[field.key] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  });
+
+  return mapping;
+}
+
+// Accepts "1,234.5", "¥512.3", "$2,345.6", "10g", "10克" etc.
+export function parseCsvNumber(value: string): number {
+  const cleaned = value.replace(/[,¥￥$€\s]|HK|元|克|g$/gi, '');
+  return cleaned === '' ? NaN : Number(cleaned);
+}
+
+// Normalizes bank-app style dates ("2024/1/5 9:30", "2024-01-05", "20240105") to the
+// "yyyy-MM-ddTHH:mm" form the rest of the app stores.
+export function parseCsvDate(value: string): string | null {
+  const trimmed = value.trim();
+  const compact = trimmed.match(/^(\d{4})(\d{2})(\d{2})$/);
+  const match = compact
+    ? [trimmed, compact[1], compact[2], compact[3], '0', '0']
+    : trimmed.match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?(?:[T\s]+(\d{1,2}):(\d{2})(?::\d{2})?)?$/);
+  if (!match) return null;
+
+  const [, y, m, d, hh = '0', mm = '0'] = match;
+  const pad = (n: string) => n.padStart(2, '0');
+  const result = `${y}-${pad(m)}-${pad(d)}T${pad(hh)}:${pad(mm)}`;
+  const date = new Date(result);
+  if (Number.isNaN(date.getTime()) || date.getMonth() + 1 !== Number(m)) return null;
+  return result;
+}
+
+const duplicateKey = (instrument: string, date: string, price: number, quantity: number) =>
+  `${instrument}|${date.slice(0, 10)}|${price.toFixed(3)}|${quantity.toFixed(4)}`;
+
+// Rows are imported into `accountId`; `existing` should be that account's trades for the
+// duplicate check.
+export function buildPreview(rows: string[][], mapping: CsvMapping, existing: Trade[], accountId: number): CsvPreviewRow[] {
+  const seen = new Set(existing.map(t => duplicateKey(t.instrument, t.buy_date, t.buy_price, t.quantity)));
+  const cell = (row: string[], field: CsvField) => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] ?? '').trim();
+  };
+
+  return rows.map((row, i) => {
+    const errors: string[] = [];
+    const number = (field: CsvField, label: string, allowZero = false) => {
+      const value = parseCsvNumber(cell(row, field));
+      if (!Number.isFinite(value) || value < 0 || (!allowZero && value === 0)) {
+        errors.push(`${label}无效`);
+      }
+      return value;
+    };
+    const date = (field: CsvField, label: string) => {
+      const value = parseCsvDate(cell(row, field));
+      if (!value) errors.push(`${label}无法识别`);
+      return value ?? '';
+    };
+
+    // Rows without an instrument or unit are gold in grams
+    const instrument = cell(row, 'instrument') === '' ? DEFAULT_INSTRUMENT : parseInstrument(cell(row, 'instrument'));
+    if (!instrument) errors.push('品种无法识别');
+    const unit = cell(row, 'unit') === '' ? baseUnit(instrument ?? DEFAULT_INSTRUMENT) : parseUnit(cell(row, 'unit'));
+    if (!unit) errors.push('单位无法识别');
+    else if (instrument && !isUnitOf(instrument, unit)) errors.push('单位与品种不匹配');
+    // ...and in yuan; a sell on the same row is in the same currency
+    const currency = cell(row, 'currency') === '' ? DEFAULT_CURRENCY : parseCurrency(cell(row, 'currency'));
+    if (!currency) errors.push('币种无法识别');
+
+    const buyPrice = number('buy_price', '买入单价');
+    const quantity = number('quantity', '买入克重');
+    const buyDate = date('buy_date', '买入时间');
+    const optional = (field: CsvField, label: string) => cell(row, field) === '' ? 0 : number(field, label, true);
+    const buyFee = optional('buy_fee', '买入手续费');
+    const spread = optional('spread', '点差');
+    const premium = optional('premium', '溢价');
+    const tags = parseTags(cell(row, 'tags'));
+    if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) errors.push(`标签不能超过 ${MAX_TAG_LENGTH} 个字`);
+
+    const hasSell = cell(row, 'sell_price') !== '' || cell(row, 'sell_date') !== '';
+    let sell: CsvImportRow['sell'] = null;
+    if (hasSell) {
+      const sellQuantity = cell(row, 'sell_quantity') === '' ? quantity : number('sell_quantity', '卖出克重');
+      sell = {
+        sell_price: number('sell_price', '卖出单价'),
+        quantity: sellQuantity,
+        sell_date: date('sell_date', '卖出时间'),
+        fee: optional('fee', '手续费'),
+        notes: cell(row, 'sell_notes') || null,
+        tags: [],
+        currency: currency ?? DEFAULT_CURRENCY
+      };
+      if (sellQuantity > quantity + 0.00001) errors.push('卖出克重超过买入克重');
+      if (sell.sell_date && buyDate && sell.sell_date < buyDate) errors.push('卖出时间早于买入时间');
+    }
+
+    if (errors.length > 0 || !instrument || !unit || !currency) {
+      return { line: i + 2, row: null, errors, duplicate: false };
+    }
+
+    const key = duplicateKey(instrument, buyDate, buyPrice, quantity);
+    const duplicate = seen.has(key);
+    seen.add(key);
+
+    return {
+      line: i + 2,
+      row: {
+        trade: {
+          account_id: accountId,
+          instrument,
+          unit,
+          currency,
+          buy_price: buyPrice,
+          quantity,
+          buy_date: buyDate,
+          buy_fee: buyFee,
+          spread,
+          premium,
+          target_price: null,
+          stop_price: null,
+          notes: cell(row, 'notes') || null,
+          tags
+        },
+        sell
+      },
+      errors,
+      duplicate
+    };
+  });
+}
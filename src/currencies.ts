@@ -0,0 +1,78 @@
+import type { Currency, FxRate } from './types.ts';
+
+export interface CurrencyInfo {
+  label: string;
+  symbol: string;
+  unitLabel: string; // as in "元/克"
+}
+
+export const CURRENCIES: Record<Currency, CurrencyInfo> = {
+  CNY: { label: '人民币', symbol: '¥', unitLabel: '元' },
+  USD: { label: '美元', symbol: '$', unitLabel: '美元' },
+  HKD: { label: '港币', symbol: 'HK$', unitLabel: '港元' },
+  EUR: { label: '欧元', symbol: '€', unitLabel: '欧元' }
+};
+
+// Rates are stored against the yuan, which therefore never needs one
+export const DEFAULT_CURRENCY: Currency = 'CNY';
+
+export const isCurrency = (value: unknown): value is Currency =>
+  typeof value === 'string' && Object.hasOwn(CURRENCIES, value);
+
+const CURRENCY_ALIASES: Record<Currency, string[]> = {
+  CNY: ['cny', 'rmb', '¥', '人民币', '元'],
+  USD: ['usd', '$', 'us$', '美元'],
+  HKD: ['hkd', 'hk$', '港币', '港元'],
+  EUR: ['eur', '€', '欧元']
+};
+
+export const parseCurrency = (text: string): Currency | null => {
+  const normalized = text.trim().toLowerCase();
+  const entry = (Object.entries(CURRENCY_ALIASES) as [Currency, string[]][]).find(([, names]) => names.includes(normalized));
+  return entry ? entry[0] : null;
+};
+
+// Trade and sell dates are local date-times; rates are keyed by calendar day
+export const fxDay = (date: string) => date.slice(0, 10);
+
+export interface Fx {
+  base: Currency;
+  // Base-currency value of one unit of `currency` on `date`
+  rate: (currency: Currency, date: string) => number;
+  convert: (amount: number, from: Currency, to: Currency, date: string) => number;
+}
+
+// Uses the latest rate on or before the date, or the earliest one for dates before any rate.
+// A currency with no rates at all converts 1:1; see currenciesWithoutRates.
+export function createFx(rates: FxRate[], base: Currency): Fx {
+  const byCurrency = new Map<Currency, FxRate[]>();
+  [...rates]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(r => byCurrency.set(r.currency, [...(byCurrency.get(r.currency) ?? []), r]));
+
+  const yuanPer = (currency: Currency, date: string) => {
+    if (currency === DEFAULT_CURRENCY) return 1;
+    const list = byCurrency.get(currency);
+    if (!list) return 1;
+    const day = fxDay(date);
+    let found = list[0];
+    for (const r of list) {
+      if (r.date > day) break;
+      found = r;
+    }
+    return found.rate;
+  };
+
+  const convert = (amount: number, from: Currency, to: Currency, date: string) =>
+    from === to ? amount : amount * yuanPer(from, date) / yuanPer(to, date);
+
+  return {
+    base,
+    rate: (currency, date) => convert(1, currency, base, date),
+    convert
+  };
+}
+
+export function currenciesWithoutRates(used: Currency[], rates: FxRate[]): Currency[] {
+  return [...new Set(used)].filter(c => c !== DEFAULT_CURRENCY && !rates.some(r => r.currency === c));
+}
@@ -0,0 +1,61 @@
+import type { FeeSplit } from './types.ts';
+
+// One side (buy or sell) of a platform's fee schedule. Rates are percentages of the trade amount.
+export interface FeeRule {
+  percent: number;
+  minimum: number; // floor for the percentage part
+  fixed: number; // flat charge per order
+  spreadPerGram: number; // yuan per gram, e.g. the bank's buy/sell spread
+  tiers: FeeTier[];
+}
+
+// A tier replaces `percent` for the whole order once the amount reaches `from`.
+export interface FeeTier {
+  from: number;
+  percent: number;
+}
+
+export interface FeePlatform {
+  id: string;
+  name: string;
+  buy: FeeRule;
+  sell: FeeRule;
+}
+
+export const EMPTY_FEE_RULE: FeeRule = { percent: 0, minimum: 0, fixed: 0, spreadPerGram: 0, tiers: [] };
+
+export const DEFAULT_FEE_PLATFORMS: FeePlatform[] = [
+  { id: 'none', name: '无手续费', buy: EMPTY_FEE_RULE, sell: EMPTY_FEE_RULE }
+];
+
+export const FEE_SPLIT_LABELS: Record<FeeSplit, string> = {
+  grams: '按克重',
+  amount: '按成本金额'
+};
+
+export function tierPercent(rule: FeeRule, amount: number): number {
+  return rule.tiers
+    .filter(t => amount >= t.from)
+    .reduce((best, t) => (best === null || t.from > best.from ? t : best), null as FeeTier | null)
+    ?.percent ?? rule.percent;
+}
+
+// `gramsPerUnit` converts the quantity for the per-gram spread when it isn't given in grams.
+export function computeFee(rule: FeeRule, price: number, quantity: number, gramsPerUnit = 1): number {
+  if (!(price > 0) || !(quantity > 0)) return 0;
+  const amount = price * quantity;
+  const percentFee = amount * tierPercent(rule, amount) / 100;
+  const fee = Math.max(percentFee, rule.minimum) + rule.fixed + rule.spreadPerGram * quantity * gramsPerUnit;
+  return Math.round(fee * 100) / 100;
+}
+
+// Splits a batch fee across lots by grams sold, or by the cost (cost per gram × grams) they carry.
+export function splitFee(
+  fee: number,
+  parts: { quantity: number; cost: number }[],
+  split: FeeSplit
+): number[] {
+  const weights = parts.map(p => split === 'amount' ? p.quantity * p.cost : p.quantity);
+  const total = weights.reduce((acc, w) => acc + w, 0);
+  return weights.map(w => total > 0 ? fee * (w / total) : fee / parts.length);
+}
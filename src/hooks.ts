@@ -0,0 +1,189 @@
+import { useEffect, useRef, useState } from 'react';
+import { api } from './api.ts';
+import { describeAlertEvent } from './alerts.ts';
+import { applyChange, diffLedger, invertChange, isEmptyChange, type UndoCommand } from './undo.ts';
+import type { AlertEvent, PriceQuote, Trade } from './types.ts';
+
+const UNDO_LIMIT = 50;
+
+// useState that survives reloads. Only for UI preferences; ledger data lives on the server.
+// Saved values are merged over `initial`, so fields added later pick up their defaults.
+export function usePersistentState<T extends object>(key: string, initial: T) {
+  const [value, setValue] = useState<T>(() => {
+    const saved = localStorage.getItem(key);
+    if (saved === null) return initial;
+    try {
+      return { ...initial, ...JSON.parse(saved) };
+    } catch {
+      return initial;
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(key, JSON.stringify(value));
+  }, [key, value]);
+
+  return [value, setValue] as const;
+}
+
+// Like usePersistentState, but kept in the page's query string so the view can be bookmarked
+// and shared. Only fields that differ from `initial` are written; unknown parameters are ignored.
+export function useUrlState<T extends { [K in keyof T]: string }>(initial: T) {
+  const read = (): T => {
+    const params = new URLSearchParams(window.location.search);
+    const value = { ...initial };
+    (Object.keys(initial) as (keyof T & string)[]).forEach(key => {
+      const param = params.get(key);
+      if (param !== null) value[key] = param as T[typeof key];
+    });
+    return value;
+  };
+  const [value, setValue] = useState<T>(read);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    (Object.keys(initial) as (keyof T & string)[]).forEach(key => {
+      if (value[key] === initial[key]) params.delete(key);
+      else params.set(key, value[key]);
+    });
+    const search = params.toString();
+    const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+    if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+      window.history.replaceState(null, '', url);
+    }
+  }, [value]);
+
+  // Follow the URL when the user navigates back or forward to a different view
+  useEffect(() => {
+    const onPopState = () => setValue(read());
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  return [value, setValue] as const;
+}
+
+// Polls the server price feed. Keeps the last good quote when a poll fails.
+export function usePriceQuote(intervalMs = 60_000) {
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const poll = () => api.getPrice()
+      .then(q => { if (!cancelled) { setQuote(q); setError(null); } })
+      .catch(e => { if (!cancelled) setError(e.message); });
+    poll();
+    const timer = setInterval(poll, intervalMs);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [intervalMs]);
+
+  return { quote, error };
+}
+
+const canNotify = () => typeof Notification !== 'undefined' && Notification.permission === 'granted';
+
+// Asks for permission to show system notifications; must be called from a user gesture.
+export function requestNotificationPermission() {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission();
+  }
+}
+
+// Shows fired price alerts once each: as system notifications when allowed, otherwise as
+// in-app toasts. Polls the server's event log so alerts fired by its background price checks
+// turn up too; shown events are marked seen.
+export function useAlertNotifications(intervalMs = 30_000) {
+  const [toasts, setToasts] = useState<AlertEvent[]>([]);
+  const shown = useRef(new Set<number>());
+
+  const show = (events: AlertEvent[]) => {
+    const fresh = events.filter(e => !shown.current.has(e.id));
+    if (fresh.length === 0) return;
+    fresh.forEach(e => shown.current.add(e.id));
+    if (canNotify()) {
+      fresh.forEach(e => {
+        const { title, body } = describeAlertEvent(e);
+        new Notification(title, { body, tag: `alert-${e.id}` });
+      });
+    } else {
+      setToasts(prev => [...prev, ...fresh]);
+    }
+    api.markAlertEventsSeen(fresh.map(e => e.id)).catch(() => {});
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    const poll = () => api.listAlertEvents(true)
+      .then(events => { if (!cancelled) show(events); })
+      .catch(() => {});
+    poll();
+    const timer = setInterval(poll, intervalMs);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [intervalMs]);
+
+  const dismiss = (id: number) => setToasts(prev => prev.filter(e => e.id !== id));
+
+  return { toasts, show, dismiss };
+}
+
+// Undo/redo over ledger mutations. `record` stores the diff between the ledger before and after
+// a mutation; undo and redo replay its inverse or the change itself, then call `reload`.
+export function useUndoHistory(reload: () => Promise<void>) {
+  const [past, setPast] = useState<UndoCommand[]>([]);
+  const [future, setFuture] = useState<UndoCommand[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const record = (label: string, before: Trade[], after: Trade[]) => {
+    const change = diffLedger(before, after);
+    if (isEmptyChange(change)) return;
+    setPast(prev => [...prev, { label, change }].slice(-UNDO_LIMIT));
+    setFuture([]);
+  };
+
+  const clear = () => {
+    setPast([]);
+    setFuture([]);
+  };
+
+  const replay = async (command: UndoCommand, direction: 'undo' | 'redo') => {
+    if (busy) return;
+    setBusy(true);
+    try {
+      await applyChange(direction === 'undo' ? invertChange(command.change) : command.change);
+      if (direction === 'undo') {
+        setPast(prev => prev.slice(0, -1));
+        setFuture(prev => [...prev, command]);
+      } else {
+        setFuture(prev => prev.slice(0, -1));
+        setPast(prev => [...prev, command]);
+      }
+    } catch (e) {
+      // A half-applied change leaves the stack out of step with the server, so drop it
+      alert(`${direction === 'undo' ? '撤销' : '重做'}失败: ${e instanceof Error ? e.message : String(e)}`);
+      clear();
+    } finally {
+      await reload();
+      setBusy(false);
+    }
+  };
+
+  const lastDone = past[past.length - 1];
+  const lastUndone = future[future.length - 1];
+
+  return {
+    record,
+    clear,
+    busy,
+    undoLabel: lastDone?.label ?? null,
+    redoLabel: lastUndone?.label ?? null,
+    undo: () => lastDone ? replay(lastDone, 'undo') : Promise.resolve(),
+    redo: () => lastUndone ? replay(lastUndone, 'redo') : Promise.resolve()
+  };
+}
@@ -0,0 +1,76 @@
+import type { Instrument, WeightUnit } from './types.ts';
+
+export interface UnitInfo {
+  label: string;
+  symbol: string;
+  grams: number | null; // exact grams per unit; null for units that are not a weight
+}
+
+// Troy ounce and 两 (市两) are defined exactly in grams, so conversions never round.
+export const UNITS: Record<WeightUnit, UnitInfo> = {
+  g: { label: '克', symbol: 'g', grams: 1 },
+  kg: { label: '千克', symbol: 'kg', grams: 1000 },
+  ozt: { label: '金衡盎司', symbol: 'oz', grams: 31.1034768 },
+  liang: { label: '两', symbol: '两', grams: 50 },
+  share: { label: '份', symbol: '份', grams: null }
+};
+
+export interface InstrumentInfo {
+  label: string;
+  code: string;
+  units: WeightUnit[]; // the first one is the unit holdings and prices are shown in
+}
+
+const METAL_UNITS: WeightUnit[] = ['g', 'kg', 'ozt', 'liang'];
+
+export const INSTRUMENTS: Record<Instrument, InstrumentInfo> = {
+  Au: { label: '黄金', code: 'Au', units: METAL_UNITS },
+  Ag: { label: '白银', code: 'Ag', units: METAL_UNITS },
+  Pt: { label: '铂金', code: 'Pt', units: METAL_UNITS },
+  AuTD: { label: '黄金T+D', code: 'Au(T+D)', units: METAL_UNITS },
+  GoldETF: { label: '黄金ETF', code: 'ETF', units: ['share'] }
+};
+
+export const DEFAULT_INSTRUMENT: Instrument = 'Au';
+
+export const isInstrument = (value: unknown): value is Instrument =>
+  typeof value === 'string' && Object.hasOwn(INSTRUMENTS, value);
+
+export const isUnit = (value: unknown): value is WeightUnit =>
+  typeof value === 'string' && Object.hasOwn(UNITS, value);
+
+export const isUnitOf = (instrument: Instrument, unit: unknown): unit is WeightUnit =>
+  INSTRUMENTS[instrument].units.includes(unit as WeightUnit);
+
+export const baseUnit = (instrument: Instrument) => INSTRUMENTS[instrument].units[0];
+
+// How many of the instrument's base unit one `unit` holds
+export const unitFactor = (unit: WeightUnit) => UNITS[unit].grams ?? 1;
+
+export const toBaseQuantity = (quantity: number, unit: WeightUnit) => quantity * unitFactor(unit);
+
+const INSTRUMENT_ALIASES: Record<Instrument, string[]> = {
+  Au: ['au', 'gold', '黄金', '金'],
+  Ag: ['ag', 'silver', '白银', '银'],
+  Pt: ['pt', 'platinum', '铂金', '铂'],
+  AuTD: ['au(t+d)', 'autd', 'au t+d', '黄金t+d', '黄金延期'],
+  GoldETF: ['etf', 'goldetf', 'gold etf', '黄金etf']
+};
+
+const UNIT_ALIASES: Record<WeightUnit, string[]> = {
+  g: ['g', 'gram', 'grams', '克'],
+  kg: ['kg', '千克', '公斤'],
+  ozt: ['oz', 'ozt', 'troy oz', '盎司', '金衡盎司'],
+  liang: ['两', '市两', 'liang'],
+  share: ['份', 'share', 'shares', 'unit', 'units']
+};
+
+const findAlias = <K extends string>(aliases: Record<K, string[]>, text: string): K | null => {
+  const normalized = text.trim().toLowerCase();
+  const entry = (Object.entries(aliases) as [K, string[]][]).find(([, names]) => names.includes(normalized));
+  return entry ? entry[0] : null;
+};
+
+export const parseInstrument = (text: string) => findAlias(INSTRUMENT_ALIASES, text);
+
+export const parseUnit = (text: string) => findAlias(UNIT_ALIASES, text);
@@ -0,0 +1,38 @@
+import { differenceInDays } from 'date-fns';
+import type { Fx } from './currencies.ts';
+import type { Sell, Trade } from './types.ts';
+
+export const soldWeight = (trade: Trade) => trade.sells.reduce((acc, s) => acc + s.quantity, 0);
+
+export const remainingWeight = (trade: Trade) => trade.quantity - soldWeight(trade);
+
+// Cost per unit actually paid for a lot, in the trade's currency: the buy price plus spread and
+// premium, with the buy fee spread over the lot's quantity. All profit figures are measured
+// against this.
+export const effectiveCost = (trade: Trade) =>
+  trade.buy_price + trade.spread + trade.premium + (trade.quantity > 0 ? trade.buy_fee / trade.quantity : 0);
+
+// Net proceeds of a sell in its trade's currency; a sell in another currency is converted at
+// the rate on the sell date.
+export const sellProceeds = (trade: Trade, sell: Sell, fx: Fx) =>
+  fx.convert(sell.sell_price * sell.quantity - sell.fee, sell.currency, trade.currency, sell.sell_date);
+
+// Profit of a sell against its own lot, in the trade's currency
+export const sellProfit = (trade: Trade, sell: Sell, fx: Fx) => sellProceeds(trade, sell, fx) - effectiveCost(trade) * sell.quantity;
+
+export const holdingDays = (trade: Trade, sell: Sell) => differenceInDays(new Date(sell.sell_date), new Date(trade.buy_date));
+
+// Estimated cost of selling right now; feeRate is a fraction of the sell amount.
+export const estimateSellFee = (price: number, quantity: number, feeRate: number) => price * quantity * feeRate;
+
+export const unrealizedProfit = (trade: Trade, price: number, feeRate: number) => {
+  const remaining = remainingWeight(trade);
+  return (price - effectiveCost(trade)) * remaining - estimateSellFee(price, remaining, feeRate);
+};
+
+// Sell price per unit at which selling `quantity` bought at `cost` nets `profit` after the
+// estimated sell fee; null when there is nothing to sell or the fee would take everything.
+export const requiredSellPrice = (cost: number, quantity: number, feeRate: number, profit = 0) =>
+  quantity > 0 && feeRate < 1 ? (cost * quantity + profit) / (quantity * (1 - feeRate)) : null;
+
+export const breakEvenPrice = (cost: number, feeRate: number) => requiredSellPrice(cost, 1, feeRate);
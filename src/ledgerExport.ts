@@ -0,0 +1,166 @@
+import { format } from 'date-fns';
+import { stringifyCsv, type CsvCell } from './csv.ts';
+import { effectiveCost, holdingDays, remainingWeight, sellProfit, soldWeight } from './ledger.ts';
+import { downloadFile } from './utils.ts';
+import { baseUnit, INSTRUMENTS, toBaseQuantity, UNITS } from './instruments.ts';
+import { replayCostBasis } from './costBasis.ts';
+import { formatTags, sellTags } from './tags.ts';
+import type { Fx } from './currencies.ts';
+import type { Trade } from './types.ts';
+
+const round = (value: number, digits = 4) => parseFloat(value.toFixed(digits));
+const formatDate = (date: string) => format(new Date(date), 'yyyy-MM-dd HH:mm');
+const instrumentCode = (t: Trade) => INSTRUMENTS[t.instrument].code;
+const unitSymbol = (t: Trade) => UNITS[t.unit].symbol;
+
+const TRADE_HEADERS = [
+  '买入ID', '品种', '单位', '币种', '买入时间', '买入单价', '买入克重', '买入总价', '买入手续费', '点差', '溢价', '成本单价',
+  '已卖出克重', '剩余克重', '已实现收益', '备注', '标签'
+];
+
+const SELL_HEADERS = [
+  '卖出ID', '买入ID', '品种', '单位', '币种', '批次', '买入时间', '买入单价', '成本单价', '卖出时间', '卖出币种', '卖出单价',
+  '卖出克重', '手续费', '收益', '本位币', '本位币收益', '其中汇兑损益', '剩余克重', '持有天数', '卖出备注', '标签'
+];
+
+// Quantities are summed per instrument in its base unit (grams, or shares for ETFs), and
+// amounts in the base currency
+const MONTHLY_HEADERS = ['月份', '品种', '单位', '卖出笔数', '卖出数量', '本位币', '卖出金额', '手续费', '月收益', '其中汇兑损益'];
+
+// Column names line up with the CSV import aliases so an export can be re-imported.
+const LEDGER_HEADERS = [
+  '品种', '单位', '币种', '买入时间', '买入单价', '买入克重', '买入手续费', '点差', '溢价', '备注', '标签', '卖出单价', '卖出克重', '卖出时间', '手续费', '卖出备注',
+  '收益', '批次', '剩余克重', '持有天数'
+];
+
+// Per-row profits are in the trade's currency against the sell's own lot; the base-currency
+// columns convert them at the buy and sell dates' rates.
+function tradeRows(trades: Trade[], fx: Fx): CsvCell[][] {
+  return trades.map(t => [
+    t.id,
+    instrumentCode(t),
+    unitSymbol(t),
+    t.currency,
+    formatDate(t.buy_date),
+    t.buy_price,
+    t.quantity,
+    round(t.buy_price * t.quantity),
+    t.buy_fee,
+    t.spread,
+    t.premium,
+    round(effectiveCost(t)),
+    round(soldWeight(t)),
+    round(remainingWeight(t)),
+    round(t.sells.reduce((acc, s) => acc + sellProfit(t, s, fx), 0)),
+    t.notes,
+    formatTags(t.tags)
+  ]);
+}
+
+function sellRows(trades: Trade[], fx: Fx): CsvCell[][] {
+  const base = replayCostBasis(trades, 'specific', fx);
+  return trades
+    .flatMap(t => t.sells.map(s => ({ t, s })))
+    .sort((a, b) => new Date(a.s.sell_date).getTime() - new Date(b.s.sell_date).getTime())
+    .map(({ t, s }) => [
+      s.id,
+      t.id,
+      instrumentCode(t),
+      unitSymbol(t),
+      t.currency,
+      s.batch_id ?? null,
+      formatDate(t.buy_date),
+      t.buy_price,
+      round(effectiveCost(t)),
+      formatDate(s.sell_date),
+      s.currency,
+      s.sell_price,
+      s.quantity,
+      round(s.fee),
+      round(sellProfit(t, s, fx)),
+      fx.base,
+      round(base.profits.get(s.id) ?? 0),
+      round(base.fxProfits.get(s.id) ?? 0),
+      round(remainingWeight(t)),
+      holdingDays(t, s),
+      s.notes,
+      formatTags(sellTags(t, s))
+    ]);
+}
+
+function monthlyRows(trades: Trade[], fx: Fx): CsvCell[][] {
+  const base = replayCostBasis(trades, 'specific', fx);
+  const months: Record<string, { trade: Trade, count: number, quantity: number, amount: number, fee: number, profit: number, fxProfit: number }> = {};
+  trades.forEach(t => {
+    t.sells.forEach(s => {
+      const key = `${format(new Date(s.sell_date), 'yyyy-MM')}|${t.instrument}`;
+      const m = months[key] ??= { trade: t, count: 0, quantity: 0, amount: 0, fee: 0, profit: 0, fxProfit: 0 };
+      const rate = fx.rate(s.currency, s.sell_date);
+      m.count++;
+      m.quantity += toBaseQuantity(s.quantity, t.unit);
+      m.amount += s.sell_price * s.quantity * rate;
+      m.fee += s.fee * rate;
+      m.profit += base.profits.get(s.id) ?? 0;
+      m.fxProfit += base.fxProfits.get(s.id) ?? 0;
+    });
+  });
+
+  return Object.entries(months)
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([key, m]) => [
+      key.split('|')[0],
+      instrumentCode(m.trade),
+      UNITS[baseUnit(m.trade.instrument)].symbol,
+      m.count,
+      round(m.quantity),
+      fx.base,
+      round(m.amount),
+      round(m.fee),
+      round(m.profit),
+      round(m.fxProfit)
+    ]);
+}
+
+function ledgerRows(trades: Trade[], fx: Fx): CsvCell[][] {
+  return trades.flatMap(t => {
+    const buy = [instrumentCode(t), unitSymbol(t), t.currency, formatDate(t.buy_date), t.buy_price, t.quantity, t.buy_fee, t.spread, t.premium, t.notes, formatTags(t.tags)];
+    const remaining = round(remainingWeight(t));
+    if (t.sells.length === 0) {
+      return [[...buy, null, null, null, null, null, null, null, remaining, null]];
+    }
+    return t.sells.map(s => [
+      ...buy,
+      s.sell_price,
+      s.quantity,
+      formatDate(s.sell_date),
+      round(s.fee),
+      s.notes,
+      round(sellProfit(t, s, fx)),
+      s.batch_id ?? null,
+      remaining,
+      holdingDays(t, s)
+    ]);
+  });
+}
+
+const fileStamp = () => format(new Date(), 'yyyyMMdd-HHmm');
+
+export function exportLedgerCsv(trades: Trade[], fx: Fx) {
+  const csv = stringifyCsv([LEDGER_HEADERS, ...ledgerRows(trades, fx)]);
+  downloadFile(csv, `黄金交易明细-${fileStamp()}.csv`, 'text/csv;charset=utf-8');
+}
+
+export async function exportLedgerXlsx(trades: Trade[], fx: Fx) {
+  // SheetJS is large; only load it when someone actually exports.
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.utils.book_new();
+  const sheets: [string, string[], CsvCell[][]][] = [
+    ['买入记录', TRADE_HEADERS, tradeRows(trades, fx)],
+    ['卖出记录', SELL_HEADERS, sellRows(trades, fx)],
+    ['月度汇总', MONTHLY_HEADERS, monthlyRows(trades, fx)]
+  ];
+  sheets.forEach(([name, headers, rows]) => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([headers, ...rows]), name);
+  });
+  XLSX.writeFile(workbook, `黄金交易明细-${fileStamp()}.xlsx`);
+}
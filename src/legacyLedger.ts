@@ -0,0 +1,23 @@
+// The ledger used to live only in the browser under this key. It is kept around
+// (renamed) after a successful upload so nothing is lost if the import is re-run.
+export const LEGACY_STORAGE_KEY = 'gold_trades_v2';
+const ARCHIVE_STORAGE_KEY = `${LEGACY_STORAGE_KEY}_migrated`;
+
+export function readLegacyLedger(): unknown[] | null {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed : null;
+  } catch (e) {
+    console.error('Failed to parse saved trades', e);
+    return null;
+  }
+}
+
+export function archiveLegacyLedger() {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (saved === null) return;
+  localStorage.setItem(ARCHIVE_STORAGE_KEY, saved);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
@@ -0,0 +1,92 @@
+// Filters and sort order for the trade list. Every field is the raw text of its input so the
+// whole state round-trips through the URL; empty means "no constraint".
+export interface ListFilters {
+  quantity: string; // exact quantity, matched within 0.001
+  buyFrom: string; // yyyy-MM-dd, inclusive
+  buyTo: string;
+  sellFrom: string;
+  sellTo: string;
+  priceMin: string; // buy price per unit, in the lot's currency
+  priceMax: string;
+  profitMin: string; // realized profit, in the base currency
+  profitMax: string;
+  status: string; // ListStatus
+  search: string; // text in the trade's or its sells' notes
+  tag: string; // on the trade or one of its sells
+  sort: string; // ListSortKey
+  dir: string; // 'asc' | 'desc'
+}
+
+export type ListStatus = 'all' | 'open' | 'closed' | 'batch';
+export type ListSortKey = 'default' | 'buy_date' | 'sell_date' | 'quantity' | 'price' | 'profit';
+
+export const DEFAULT_LIST_FILTERS: ListFilters = {
+  quantity: '',
+  buyFrom: '',
+  buyTo: '',
+  sellFrom: '',
+  sellTo: '',
+  priceMin: '',
+  priceMax: '',
+  profitMin: '',
+  profitMax: '',
+  status: 'all',
+  search: '',
+  tag: '',
+  sort: 'default',
+  dir: 'desc'
+};
+
+export const LIST_STATUS_LABELS: Record<ListStatus, string> = {
+  all: '全部',
+  open: '持仓中',
+  closed: '已结清',
+  batch: '合并卖出'
+};
+
+export const LIST_SORT_LABELS: Record<ListSortKey, string> = {
+  default: '默认 (未售优先)',
+  buy_date: '买入时间',
+  sell_date: '最近卖出时间',
+  quantity: '数量',
+  price: '买入单价',
+  profit: '已实现收益'
+};
+
+// Sort order and direction only arrange the list, so they don't count as filtering it
+const FILTER_FIELDS = (Object.keys(DEFAULT_LIST_FILTERS) as (keyof ListFilters)[]).filter(f => f !== 'sort' && f !== 'dir');
+
+export const hasActiveFilters = (filters: ListFilters) =>
+  FILTER_FIELDS.some(f => filters[f] !== DEFAULT_LIST_FILTERS[f]);
+
+export const clearFilters = (filters: ListFilters): ListFilters =>
+  ({ ...DEFAULT_LIST_FILTERS, sort: filters.sort, dir: filters.dir });
+
+const bound = (text: string) => {
+  const value = parseFloat(text);
+  return Number.isFinite(value) ? value : null;
+};
+
+export const inRange = (value: number, min: string, max: string) => {
+  const lo = bound(min);
+  const hi = bound(max);
+  return (lo === null || value >= lo) && (hi === null || value <= hi);
+};
+
+// Compares calendar days, so a range ending on a day includes everything on it
+export const inDateRange = (date: string, from: string, to: string) => {
+  const day = date.slice(0, 10);
+  return (!from || day >= from) && (!to || day <= to);
+};
+
+export const matchesQuantity = (quantity: number, filter: string) => {
+  const q = bound(filter);
+  return q === null || Math.abs(quantity - q) < 0.001;
+};
+
+export const matchesSearch = (notes: (string | null | undefined)[], search: string) => {
+  const needle = search.trim().toLowerCase();
+  return !needle || notes.some(n => n?.toLowerCase().includes(needle));
+};
+
+export const matchesTag = (tags: string[], tag: string) => !tag || tags.includes(tag);
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createFx } from './currencies.ts';
+import { annualize, realizedReturn, xirr, type CashFlow } from './returns.ts';
+import type { Sell, Trade } from './types.ts';
+
+const npv = (flows: CashFlow[], rate: number) => {
+  const start = new Date(flows[0].date).getTime();
+  return flows.reduce(
+    (acc, f) => acc + f.amount / Math.pow(1 + rate, (new Date(f.date).getTime() - start) / 86400000 / 365),
+    0
+  );
+};
+
+describe('xirr', () => {
+  it('is the simple return over exactly one year', () => {
+    expect(xirr([
+      { amount: -1000, date: '2025-01-01' },
+      { amount: 1100, date: '2026-01-01' }
+    ])).toBeCloseTo(0.1, 6);
+  });
+
+  it('finds a loss', () => {
+    expect(xirr([
+      { amount: -1000, date: '2025-01-01' },
+      { amount: 800, date: '2026-01-01' }
+    ])).toBeCloseTo(-0.2, 6);
+  });
+
+  it('zeroes the net present value of several flows', () => {
+    const flows = [
+      { amount: -5000, date: '2025-01-10' },
+      { amount: -2000, date: '2025-04-01' },
+      { amount: 3000, date: '2025-09-15' },
+      { amount: 4800, date: '2026-02-01' }
+    ];
+    const rate = xirr(flows);
+    expect(rate).not.toBeNull();
+    expect(npv(flows, rate!)).toBeCloseTo(0, 4);
+  });
+
+  it('is null when the flows never change sign', () => {
+    expect(xirr([{ amount: -1000, date: '2025-01-01' }])).toBeNull();
+    expect(xirr([
+      { amount: 100, date: '2025-01-01' },
+      { amount: 200, date: '2025-06-01' }
+    ])).toBeNull();
+  });
+});
+
+describe('annualize', () => {
+  it('compounds over a 365-day year', () => {
+    expect(annualize(0.21, 730)).toBeCloseTo(0.1, 6);
+  });
+
+  it('leaves same-day results out', () => {
+    expect(annualize(0.05, 0)).toBeNull();
+  });
+});
+
+describe('realizedReturn', () => {
+  const trade = { buy_price: 100, buy_date: '2026-01-01T10:00' } as Trade;
+  const sell = { id: 11, sell_price: 20, quantity: 10, sell_date: '2026-01-01T10:00', fee: 0, currency: 'USD' } as Sell;
+
+  it('takes the profit from the cost method and the cost from the base-currency proceeds', () => {
+    const fx = createFx([{ currency: 'USD', date: '2026-01-01', rate: 7 }], 'CNY');
+    // 1400 yuan of proceeds with 400 of profit leaves 1000 of cost
+    expect(realizedReturn([{ trade, sell }], new Map([[11, 400]]), fx).returnOnCost).toBeCloseTo(0.4, 6);
+  });
+});
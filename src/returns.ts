@@ -0,0 +1,85 @@
+import { differenceInDays } from 'date-fns';
+import { effectiveCost, holdingDays } from './ledger.ts';
+import type { Fx } from './currencies.ts';
+import type { Sell, Trade } from './types.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReturnMetrics {
+  days: number;
+  returnOnCost: number | null; // fraction of the cost, e.g. 0.02 for 2%
+  annualized: number | null; // compounded over a 365-day year
+}
+
+// Annualizing a same-day result would turn any gain into an absurd rate, so it is left out.
+export const annualize = (ret: number, days: number) =>
+  days >= 1 ? Math.pow(Math.max(0, 1 + ret), 365 / days) - 1 : null;
+
+export function returnMetrics(profit: number, cost: number, days: number): ReturnMetrics {
+  const returnOnCost = cost > 0 ? profit / cost : null;
+  return { days, returnOnCost, annualized: returnOnCost !== null ? annualize(returnOnCost, days) : null };
+}
+
+// Days held, averaged over the parts by quantity
+export const weightedDays = (parts: { days: number; quantity: number }[]) => {
+  const quantity = parts.reduce((acc, p) => acc + p.quantity, 0);
+  return quantity > 0 ? parts.reduce((acc, p) => acc + p.days * p.quantity, 0) / quantity : 0;
+};
+
+// Realized return of some sells taken together under the cost method's profits, in the base
+// currency. What was sold cost its net proceeds less the profit, as in the header stats.
+export function realizedReturn(sells: { trade: Trade; sell: Sell }[], profits: Map<number, number>, fx: Fx): ReturnMetrics {
+  let profit = 0;
+  let cost = 0;
+  sells.forEach(({ sell }) => {
+    const realized = profits.get(sell.id) ?? 0;
+    profit += realized;
+    cost += fx.convert(sell.sell_price * sell.quantity - sell.fee, sell.currency, fx.base, sell.sell_date) - realized;
+  });
+  const days = weightedDays(sells.map(({ trade, sell }) => ({ days: holdingDays(trade, sell), quantity: sell.quantity })));
+  return returnMetrics(profit, cost, days);
+}
+
+// Days an open lot has been held so far
+export const daysHeld = (trade: Trade, now = new Date()) => differenceInDays(now, new Date(trade.buy_date));
+
+export interface CashFlow {
+  amount: number; // negative for money paid in
+  date: string;
+}
+
+// Buys are paid in at their effective cost and sells pay out their net proceeds, both in the
+// base currency on the day. Open holdings can be added as a final payout at their current value.
+export function portfolioCashFlows(trades: Trade[], fx: Fx): CashFlow[] {
+  return trades.flatMap(t => [
+    { amount: -fx.convert(effectiveCost(t) * t.quantity, t.currency, fx.base, t.buy_date), date: t.buy_date },
+    ...t.sells.map(s => ({
+      amount: fx.convert(s.sell_price * s.quantity - s.fee, s.currency, fx.base, s.sell_date),
+      date: s.sell_date
+    }))
+  ]);
+}
+
+// Money-weighted annual return: the rate at which the flows' net present value is zero. Found by
+// bisection, which needs no derivative and cannot diverge; null when the flows don't change
+// sign or no rate up to a millionfold fits.
+export function xirr(flows: CashFlow[]): number | null {
+  if (!flows.some(f => f.amount > 0) || !flows.some(f => f.amount < 0)) return null;
+
+  const start = Math.min(...flows.map(f => new Date(f.date).getTime()));
+  const timed = flows.map(f => ({ amount: f.amount, years: (new Date(f.date).getTime() - start) / DAY_MS / 365 }));
+  const npv = (rate: number) => timed.reduce((acc, f) => acc + f.amount / Math.pow(1 + rate, f.years), 0);
+
+  let lo = -0.9999;
+  let hi = 1;
+  while (Math.sign(npv(lo)) === Math.sign(npv(hi))) {
+    if (hi > 1e6) return null;
+    hi *= 10;
+  }
+  for (let i = 0; i < 200 && hi - lo > 1e-9; i++) {
+    const mid = (lo + hi) / 2;
+    if (Math.sign(npv(mid)) === Math.sign(npv(lo))) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
@@ -0,0 +1,106 @@
+import { format } from 'date-fns';
+import { downloadFile } from './utils.ts';
+import type { HoldingSnapshot, Statement } from './statements.ts';
+
+export interface StatementHeader {
+  scope: string; // account and instrument, e.g. "全部账户 · 黄金"
+  costMethod: string;
+  currency: string; // base currency label
+  symbol: string;
+  unit: string; // base unit symbol
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+const STYLES = `
+  body { font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; color: #111; margin: 32px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; border-bottom: 1px solid #ccc; padding-bottom: 4px; }
+  .meta { color: #666; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 4px 6px; border-bottom: 1px solid #eee; text-align: right; white-space: nowrap; }
+  th:first-child, td:first-child { text-align: left; }
+  th { background: #f5f5f5; font-weight: 600; }
+  tfoot td { font-weight: 600; border-top: 1px solid #999; }
+  .summary td { border: none; padding: 2px 6px; }
+  .gain { color: #c0392b; }
+  .loss { color: #1e8449; }
+  .empty { color: #999; text-align: center; padding: 12px; }
+  @media print { body { margin: 12mm; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+// A standalone, print-friendly page: the browser's print dialog turns it into a PDF.
+export function renderStatementHtml(statement: Statement, header: StatementHeader): string {
+  const { symbol, unit } = header;
+  const money = (value: number) => `${value < 0 ? '-' : ''}${symbol}${Math.abs(value).toFixed(2)}`;
+  const signed = (value: number) => `<span class="${value >= 0 ? 'gain' : 'loss'}">${value >= 0 ? '+' : ''}${money(value)}</span>`;
+  const qty = (value: number) => `${value.toFixed(4)}${unit}`;
+  const day = (date: string) => format(new Date(date), 'yyyy-MM-dd');
+  const holding = (label: string, h: HoldingSnapshot) =>
+    `<tr><td>${label}</td><td>${qty(h.quantity)}</td><td>${money(h.cost)}</td><td>${h.averageCost !== null ? `${money(h.averageCost)}/${unit}` : '—'}</td></tr>`;
+  const table = (headings: string[], rows: string[], footer = '') => rows.length === 0
+    ? '<p class="empty">无</p>'
+    : `<table><thead><tr>${headings.map(h => `<th>${h}</th>`).join('')}</tr></thead><tbody>${rows.join('')}</tbody>${footer}</table>`;
+  const { totals } = statement;
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`对账单 ${statement.label}`)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>对账单 · ${escapeHtml(statement.label)}</h1>
+<div class="meta">${escapeHtml(header.scope)} · 成本计算: ${escapeHtml(header.costMethod)} · 金额单位: ${escapeHtml(header.currency)} · 生成于 ${format(new Date(), 'yyyy-MM-dd HH:mm')}</div>
+
+<h2>概览</h2>
+<table class="summary">
+  <tr><td>买入</td><td>${statement.buys.length} 笔 · ${qty(totals.buyQuantity)} · ${money(totals.buyAmount)}</td></tr>
+  <tr><td>卖出</td><td>${statement.sells.length} 笔 · ${qty(totals.sellQuantity)} · ${money(totals.sellAmount)}</td></tr>
+  <tr><td>手续费</td><td>买入 ${money(totals.buyFees)} · 卖出 ${money(totals.sellFees)} · 合计 ${money(totals.buyFees + totals.sellFees)}</td></tr>
+  <tr><td>已实现盈亏</td><td>${signed(totals.profit)}${totals.fxProfit !== 0 ? ` (其中汇兑损益 ${money(totals.fxProfit)})` : ''}</td></tr>
+</table>
+
+<h2>持仓</h2>
+${table(['', '数量', '成本', '均价'], [holding('期初持仓', statement.opening), holding('期末持仓', statement.closing)])}
+
+${statement.period.month === null ? `<h2>月度汇总</h2>
+${table(
+  ['月份', '买入数量', '买入金额', '卖出数量', '卖出金额', '手续费', '已实现盈亏'],
+  statement.months.map(m => `<tr><td>${m.month}</td><td>${qty(m.buyQuantity)}</td><td>${money(m.buyAmount)}</td><td>${qty(m.sellQuantity)}</td><td>${money(m.sellAmount)}</td><td>${money(m.buyFees + m.sellFees)}</td><td>${signed(m.profit)}</td></tr>`),
+  `<tfoot><tr><td>合计</td><td>${qty(totals.buyQuantity)}</td><td>${money(totals.buyAmount)}</td><td>${qty(totals.sellQuantity)}</td><td>${money(totals.sellAmount)}</td><td>${money(totals.buyFees + totals.sellFees)}</td><td>${signed(totals.profit)}</td></tr></tfoot>`
+)}` : ''}
+
+<h2>买入明细</h2>
+${table(
+  ['日期', '数量', `单价 (/${unit})`, '手续费', '成本合计'],
+  statement.buys.map(b => `<tr><td>${day(b.date)}</td><td>${qty(b.quantity)}</td><td>${money(b.price)}</td><td>${money(b.fee)}</td><td>${money(b.amount)}</td></tr>`)
+)}
+
+<h2>卖出明细</h2>
+${table(
+  ['日期', '买入日期', '数量', `单价 (/${unit})`, '卖出金额', '手续费', '已实现盈亏'],
+  statement.sells.map(s => `<tr><td>${day(s.date)}</td><td>${day(s.buyDate)}</td><td>${qty(s.quantity)}</td><td>${money(s.price)}</td><td>${money(s.amount)}</td><td>${money(s.fee)}</td><td>${signed(s.profit)}</td></tr>`)
+)}
+</body>
+</html>`;
+}
+
+const fileName = (statement: Statement) => `对账单-${statement.label.replace(/\s+/g, '')}`;
+
+export function downloadStatementHtml(statement: Statement, header: StatementHeader) {
+  downloadFile(renderStatementHtml(statement, header), `${fileName(statement)}.html`, 'text/html;charset=utf-8');
+}
+
+// Opens the statement in a new window and brings up the print dialog, where it can also be
+// saved as a PDF.
+export function printStatement(statement: Statement, header: StatementHeader) {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('浏览器阻止了弹出窗口，请允许后重试');
+  win.document.write(renderStatementHtml(statement, header));
+  win.document.close();
+  win.focus();
+  win.print();
+}
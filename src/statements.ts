@@ -0,0 +1,197 @@
+import { format } from 'date-fns';
+import { replayCostBasis } from './costBasis.ts';
+import { effectiveCost } from './ledger.ts';
+import { toBaseQuantity, unitFactor } from './instruments.ts';
+import type { Fx } from './currencies.ts';
+import type { CostMethod, Trade } from './types.ts';
+
+export const monthOf = (date: string) => format(new Date(date), 'yyyy-MM');
+
+// Amounts in the base currency, quantities in the instrument's base unit
+export interface MonthlyActivity {
+  buyQuantity: number;
+  buyAmount: number; // effective cost, fees included
+  buyFees: number;
+  sellQuantity: number;
+  sellAmount: number; // before fees
+  sellFees: number;
+  profit: number; // realized, under the cost method
+  fxProfit: number;
+}
+
+const emptyActivity = (): MonthlyActivity => ({
+  buyQuantity: 0, buyAmount: 0, buyFees: 0, sellQuantity: 0, sellAmount: 0, sellFees: 0, profit: 0, fxProfit: 0
+});
+
+// Buys and sells grouped by calendar month ('yyyy-MM'); `profits` and `fxProfits` come from
+// replayCostBasis over the same trades.
+export function monthlyActivity(
+  trades: Trade[],
+  fx: Fx,
+  profits: Map<number, number>,
+  fxProfits = new Map<number, number>()
+): Map<string, MonthlyActivity> {
+  const months = new Map<string, MonthlyActivity>();
+  const monthFor = (date: string) => {
+    const key = monthOf(date);
+    if (!months.has(key)) months.set(key, emptyActivity());
+    return months.get(key)!;
+  };
+
+  trades.forEach(t => {
+    const buy = monthFor(t.buy_date);
+    buy.buyQuantity += toBaseQuantity(t.quantity, t.unit);
+    buy.buyAmount += effectiveCost(t) * t.quantity * fx.rate(t.currency, t.buy_date);
+    buy.buyFees += t.buy_fee * fx.rate(t.currency, t.buy_date);
+
+    t.sells.forEach(s => {
+      const sell = monthFor(s.sell_date);
+      const rate = fx.rate(s.currency, s.sell_date);
+      sell.sellQuantity += toBaseQuantity(s.quantity, t.unit);
+      sell.sellAmount += s.sell_price * s.quantity * rate;
+      sell.sellFees += s.fee * rate;
+      sell.profit += profits.get(s.id) ?? 0;
+      sell.fxProfit += fxProfits.get(s.id) ?? 0;
+    });
+  });
+  return months;
+}
+
+export interface StatementPeriod {
+  year: number;
+  month: number | null; // 1-12, or null for the whole year
+}
+
+export interface HoldingSnapshot {
+  quantity: number;
+  cost: number;
+  averageCost: number | null;
+}
+
+export interface StatementBuy {
+  id: number;
+  date: string;
+  quantity: number;
+  price: number; // per base unit in the base currency
+  fee: number;
+  amount: number; // effective cost of the lot
+}
+
+export interface StatementSell {
+  id: number;
+  date: string;
+  buyDate: string;
+  quantity: number;
+  price: number; // per base unit in the base currency
+  fee: number;
+  amount: number; // before fees
+  profit: number;
+  fxProfit: number;
+}
+
+export interface Statement {
+  period: StatementPeriod;
+  label: string;
+  opening: HoldingSnapshot;
+  closing: HoldingSnapshot;
+  buys: StatementBuy[];
+  sells: StatementSell[];
+  totals: MonthlyActivity;
+  months: ({ month: string } & MonthlyActivity)[]; // every month of the period with activity
+}
+
+const periodKey = (period: StatementPeriod) =>
+  period.month === null ? String(period.year) : `${period.year}-${String(period.month).padStart(2, '0')}`;
+
+export const periodLabel = (period: StatementPeriod) =>
+  period.month === null ? `${period.year} 年度` : `${period.year} 年 ${period.month} 月`;
+
+// Holdings as they stood with only the buys and sells up to (and including) `month`, valued
+// by replaying the cost method over that history.
+function holdingsThrough(trades: Trade[], month: string, method: CostMethod, fx: Fx): HoldingSnapshot {
+  const history = trades
+    .filter(t => monthOf(t.buy_date) <= month)
+    .map(t => ({ ...t, sells: t.sells.filter(s => monthOf(s.sell_date) <= month) }));
+  const quantity = history.reduce(
+    (acc, t) => acc + toBaseQuantity(t.quantity - t.sells.reduce((sAcc, s) => sAcc + s.quantity, 0), t.unit),
+    0
+  );
+  const cost = quantity > 0.0001 ? replayCostBasis(history, method, fx).openCost : 0;
+  return { quantity, cost, averageCost: quantity > 0.0001 ? cost / quantity : null };
+}
+
+const previousMonth = (period: StatementPeriod) => {
+  if (period.month === null || period.month === 1) return `${period.year - 1}-12`;
+  return `${period.year}-${String(period.month - 1).padStart(2, '0')}`;
+};
+
+const lastMonth = (period: StatementPeriod) =>
+  period.month === null ? `${period.year}-12` : periodKey(period);
+
+// Trades should all be of one instrument so quantities add up; `profits` and `fxProfits` come
+// from replayCostBasis over the full history, since a sell's profit depends only on what came
+// before it.
+export function buildStatement(
+  trades: Trade[],
+  period: StatementPeriod,
+  method: CostMethod,
+  fx: Fx,
+  profits: Map<number, number>,
+  fxProfits: Map<number, number>
+): Statement {
+  const key = periodKey(period);
+  const inPeriod = (date: string) => monthOf(date).startsWith(key);
+
+  const buys = trades
+    .filter(t => inPeriod(t.buy_date))
+    .map(t => {
+      const rate = fx.rate(t.currency, t.buy_date);
+      return {
+        id: t.id,
+        date: t.buy_date,
+        quantity: toBaseQuantity(t.quantity, t.unit),
+        price: t.buy_price * rate / unitFactor(t.unit),
+        fee: t.buy_fee * rate,
+        amount: effectiveCost(t) * t.quantity * rate
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const sells = trades
+    .flatMap(t => t.sells.filter(s => inPeriod(s.sell_date)).map(s => {
+      const rate = fx.rate(s.currency, s.sell_date);
+      return {
+        id: s.id,
+        date: s.sell_date,
+        buyDate: t.buy_date,
+        quantity: toBaseQuantity(s.quantity, t.unit),
+        price: s.sell_price * rate / unitFactor(t.unit),
+        fee: s.fee * rate,
+        amount: s.sell_price * s.quantity * rate,
+        profit: profits.get(s.id) ?? 0,
+        fxProfit: fxProfits.get(s.id) ?? 0
+      };
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const months = [...monthlyActivity(trades, fx, profits, fxProfits)]
+    .filter(([month]) => month.startsWith(key))
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([month, activity]) => ({ month, ...activity }));
+
+  const totals = months.reduce((acc, m) => {
+    (Object.keys(acc) as (keyof MonthlyActivity)[]).forEach(field => { acc[field] += m[field]; });
+    return acc;
+  }, emptyActivity());
+
+  return {
+    period,
+    label: periodLabel(period),
+    opening: holdingsThrough(trades, previousMonth(period), method, fx),
+    closing: holdingsThrough(trades, lastMonth(period), method, fx),
+    buys,
+    sells,
+    totals,
+    months
+  };
+}
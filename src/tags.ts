@@ -0,0 +1,64 @@
+import { toBaseQuantity } from './instruments.ts';
+import type { Sell, Trade } from './types.ts';
+
+// Offered in the tag picker before any trade has tags of its own
+export const DEFAULT_TAGS = ['定投', '短线', '抄底'];
+
+export const MAX_TAG_LENGTH = 20;
+
+// Trims each tag and drops empty ones and repeats, keeping the first spelling
+export const normalizeTags = (tags: string[]) =>
+  [...new Set(tags.map(t => t.trim()).filter(t => t !== ''))];
+
+// Splits a cell like "定投、短线" or "定投, 短线" from a CSV file
+export const parseTags = (text: string) => normalizeTags(text.split(/[,，、;；|]/));
+
+export const formatTags = (tags: string[]) => tags.join('、');
+
+// A sell counts under its own tags and its lot's
+export const sellTags = (trade: Trade, sell: Sell) => normalizeTags([...trade.tags, ...sell.tags]);
+
+// Tags in use, most used first, followed by the defaults nobody has used yet
+export function knownTags(trades: Trade[]): string[] {
+  const counts = new Map<string, number>();
+  trades.forEach(t => [...t.tags, ...t.sells.flatMap(s => s.tags)].forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  const used = [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+  return [...used, ...DEFAULT_TAGS.filter(tag => !counts.has(tag))];
+}
+
+export interface TagSummary {
+  tag: string | null; // null collects the sells without any tag
+  sells: number;
+  wins: number;
+  quantity: number; // sold, in the instrument's base unit
+  profit: number; // realized, in the base currency
+  openLots: number;
+}
+
+// Realized profit per tag from the cost-basis replay. A sell with several tags counts under
+// each, so the rows can add up to more than the total.
+export function tagBreakdown(trades: Trade[], profits: Map<number, number>): TagSummary[] {
+  const rows = new Map<string | null, TagSummary>();
+  const row = (tag: string | null) => {
+    if (!rows.has(tag)) rows.set(tag, { tag, sells: 0, wins: 0, quantity: 0, profit: 0, openLots: 0 });
+    return rows.get(tag)!;
+  };
+
+  trades.forEach(t => {
+    const remaining = t.quantity - t.sells.reduce((acc, s) => acc + s.quantity, 0);
+    if (remaining > 0.0001) t.tags.forEach(tag => row(tag).openLots++);
+    t.sells.forEach(s => {
+      const tags = sellTags(t, s);
+      const profit = profits.get(s.id) ?? 0;
+      (tags.length > 0 ? tags : [null]).forEach(tag => {
+        const r = row(tag);
+        r.sells++;
+        if (profit > 0) r.wins++;
+        r.quantity += toBaseQuantity(s.quantity, t.unit);
+        r.profit += profit;
+      });
+    });
+  });
+
+  return [...rows.values()].sort((a, b) => (a.tag === null ? 1 : 0) - (b.tag === null ? 1 : 0) || b.profit - a.profit);
+}
@@ -0,0 +1,212 @@
+export interface Sell {
+  id: number;
+  trade_id: number;
+  sell_price: number;
+  quantity: number;
+  sell_date: string;
+  fee: number;
+  notes: string | null;
+  tags: string[];
+  currency: Currency; // of sell_price and fee; normally the trade's currency
+  batch_id?: string; // Added for grouping batch sells
+}
+
+// A bank or app the gold is held at. `platform_id` picks its fee rules from the fee
+// settings; null means the default platform.
+export interface Account {
+  id: number;
+  name: string;
+  platform_id: string | null;
+}
+
+export type AccountInput = Omit<Account, 'id'>;
+
+// Created by the database migration; trades without an account land here
+export const DEFAULT_ACCOUNT_ID = 1;
+
+// Au(T+D) is the SGE deferred contract; ETF holdings are counted in shares rather than weight
+export type Instrument = 'Au' | 'Ag' | 'Pt' | 'AuTD' | 'GoldETF';
+
+export type WeightUnit = 'g' | 'kg' | 'ozt' | 'liang' | 'share';
+
+export type Currency = 'CNY' | 'USD' | 'HKD' | 'EUR';
+
+// A stored exchange rate: yuan per one unit of `currency` on `date` (yyyy-MM-dd)
+export interface FxRate {
+  currency: Currency;
+  date: string;
+  rate: number;
+}
+
+export interface Trade {
+  id: number;
+  account_id: number;
+  instrument: Instrument;
+  unit: WeightUnit; // quantity, prices, spread and premium of the trade and its sells are in this unit
+  currency: Currency; // of buy_price, buy_fee, spread and premium
+  buy_price: number;
+  quantity: number;
+  buy_date: string;
+  buy_fee: number; // commission paid on the buy
+  spread: number; // bank buy/sell spread, per unit
+  premium: number; // premium or making charge over the quoted price, per unit
+  target_price: number | null; // take-profit level, per unit in the trade's currency
+  stop_price: number | null; // stop-loss level, likewise
+  notes: string | null;
+  tags: string[]; // user-defined labels such as a strategy; see tags.ts
+  sells: Sell[];
+}
+
+export type TradeInput = Omit<Trade, 'id' | 'sells'>;
+
+// One changed field of a trade or sell, as recorded when the record was edited
+export interface AuditEntry {
+  id: number;
+  trade_id: number;
+  record_type: 'trade' | 'sell';
+  record_id: number;
+  field: string;
+  old_value: string | number | string[] | null;
+  new_value: string | number | string[] | null;
+  changed_at: string;
+}
+
+export const TRASH_RETENTION_DAYS = 30;
+
+// A deleted trade with the sells that were deleted along with it
+export interface TrashedTrade extends Trade {
+  deleted_at: string;
+}
+
+// A sell deleted on its own. `trade_deleted` is set when its trade has since been deleted too.
+export interface TrashedSell extends Sell {
+  deleted_at: string;
+  trade: Trade;
+  trade_deleted: boolean;
+}
+
+export interface TrashContents {
+  trades: TrashedTrade[];
+  sells: TrashedSell[];
+}
+
+// Without a currency the sell is in its trade's currency
+export type SellInput = Omit<Sell, 'id' | 'trade_id' | 'batch_id' | 'currency'> & { currency?: Currency };
+
+// How a batch sell's total fee is shared between lots: by grams sold or by the lots' cost.
+export type FeeSplit = 'grams' | 'amount';
+
+export interface BatchSellInput {
+  trade_ids: number[];
+  sell_price: number;
+  sell_date: string;
+  fee: number;
+  notes: string | null;
+  tags: string[];
+  currency?: Currency; // defaults to the lots' currency
+  fee_split?: FeeSplit; // defaults to 'grams'
+}
+
+export interface ImportRejection {
+  kind: 'trade' | 'sell';
+  id: unknown;
+  reason: string;
+}
+
+export interface ImportReport {
+  imported: { trades: number; sells: number };
+  skipped: { trades: number; sells: number };
+  rejected: ImportRejection[];
+}
+
+export interface CsvImportRow {
+  trade: TradeInput;
+  sell: SellInput | null;
+}
+
+export const BACKUP_SCHEMA_VERSION = 10;
+
+export interface BackupFile {
+  app: 'gold-trade-tool';
+  schemaVersion: number;
+  exportedAt: string;
+  checksum: string;
+  data: {
+    accounts: Account[];
+    fx_rates: FxRate[];
+    price_alerts: PriceAlert[];
+    alert_events: AlertEvent[];
+    trades: Trade[];
+  };
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreResult extends ImportReport {
+  fromVersion: number;
+  dryRun: boolean;
+}
+
+export interface PriceQuote {
+  price: number; // 元/克
+  quotedAt: string;
+  fetchedAt: string;
+  source: string;
+  stale: boolean;
+  error: string | null;
+}
+
+export interface PricePoint {
+  quoted_at: string;
+  price: number;
+}
+
+export type AlertDirection = 'above' | 'below';
+
+// A portfolio-wide price level for one instrument, in yuan per base unit like the price feed.
+// It fires once when the price reaches it and stays triggered until re-armed.
+export interface PriceAlert {
+  id: number;
+  instrument: Instrument;
+  direction: AlertDirection;
+  price: number;
+  note: string | null;
+  created_at: string;
+  triggered_at: string | null;
+}
+
+export type PriceAlertInput = Pick<PriceAlert, 'instrument' | 'direction' | 'price' | 'note'>;
+
+// A fired alert: a portfolio level, or a lot's take-profit ('target') or stop-loss ('stop').
+// For lots, `level` and `price` are per unit of the lot in its own currency.
+export interface AlertEvent {
+  id: number;
+  kind: AlertDirection | 'target' | 'stop';
+  alert_id: number | null;
+  trade_id: number | null;
+  instrument: Instrument;
+  level: number;
+  price: number;
+  fired_at: string;
+  seen_at: string | null;
+}
+
+// How the cost of sold grams is determined. 'specific' uses the lot each sell is attached to.
+export type CostMethod = 'specific' | 'fifo' | 'lifo' | 'hifo' | 'average';
+
+export type AllocationMethod = Exclude<CostMethod, 'specific'>;
+
+export interface AllocatedSellInput {
+  quantity: number;
+  sell_price: number;
+  sell_date: string;
+  fee: number;
+  notes: string | null;
+  tags: string[];
+  method: AllocationMethod | 'manual';
+  trade_ids?: number[]; // restrict allocation to these lots; all open lots when omitted
+  account_id?: number; // without trade_ids, only this account's lots
+  allocations?: { trade_id: number; quantity: number }[]; // per-lot grams for 'manual'
+  currency?: Currency; // defaults to the lots' currency
+  fee_split?: FeeSplit; // defaults to 'grams'
+}
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { api } from './api.ts';
+import { applyChange, diffLedger, invertChange, isEmptyChange } from './undo.ts';
+import type { ImportRejection, ImportReport, Sell, Trade } from './types.ts';
+
+vi.mock('./api.ts', () => ({
+  api: {
+    deleteSell: vi.fn(),
+    deleteTrade: vi.fn(),
+    updateSell: vi.fn(),
+    updateTrade: vi.fn(),
+    importLedger: vi.fn()
+  }
+}));
+
+const trade = (id: number, fields: Partial<Trade> = {}): Trade => ({
+  id,
+  account_id: 1,
+  instrument: 'Au',
+  unit: 'g',
+  currency: 'CNY',
+  buy_price: 100,
+  quantity: 10,
+  buy_date: '2026-01-01T10:00',
+  buy_fee: 0,
+  spread: 0,
+  premium: 0,
+  target_price: null,
+  stop_price: null,
+  notes: null,
+  tags: [],
+  sells: [],
+  ...fields
+});
+
+const sell = (id: number, tradeId: number, fields: Partial<Sell> = {}): Sell => ({
+  id,
+  trade_id: tradeId,
+  sell_price: 150,
+  quantity: 5,
+  sell_date: '2026-03-01T10:00',
+  fee: 0,
+  notes: null,
+  tags: [],
+  currency: 'CNY',
+  ...fields
+});
+
+const report = (rejected: ImportRejection[] = []): ImportReport =>
+  ({ imported: { trades: 0, sells: 0 }, skipped: { trades: 0, sells: 0 }, rejected });
+
+describe('diffLedger', () => {
+  it('finds added, removed and changed trades', () => {
+    const change = diffLedger(
+      [trade(1), trade(2)],
+      [trade(1, { buy_price: 101 }), trade(3)]
+    );
+    expect(change.trades.added.map(t => t.id)).toEqual([3]);
+    expect(change.trades.removed.map(t => t.id)).toEqual([2]);
+    expect(change.trades.changed).toEqual([{ before: trade(1), after: trade(1, { buy_price: 101 }) }]);
+    expect(change.sells).toEqual({ added: [], removed: [], changed: [] });
+  });
+
+  it('tracks sells of trades on both sides separately from the trade itself', () => {
+    const before = [trade(1, { sells: [sell(11, 1), sell(12, 1)] })];
+    const after = [trade(1, { sells: [sell(11, 1, { fee: 2 }), sell(13, 1)] })];
+    const change = diffLedger(before, after);
+    expect(change.trades.changed).toEqual([]);
+    expect(change.sells.added.map(s => s.id)).toEqual([13]);
+    expect(change.sells.removed.map(s => s.id)).toEqual([12]);
+    expect(change.sells.changed.map(c => c.after.fee)).toEqual([2]);
+  });
+
+  it('is empty when nothing changed', () => {
+    const ledger = [trade(1, { sells: [sell(11, 1)] })];
+    expect(isEmptyChange(diffLedger(ledger, structuredClone(ledger)))).toBe(true);
+  });
+
+  it('inverts to the change that undoes it', () => {
+    const before = [trade(1), trade(2, { sells: [sell(21, 2)] })];
+    const after = [trade(1, { notes: 'x' }), trade(2)];
+    expect(invertChange(diffLedger(before, after))).toEqual(diffLedger(after, before));
+  });
+});
+
+describe('applyChange', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.importLedger).mockResolvedValue(report());
+  });
+
+  it('restores every field of an edited sell, currency included', async () => {
+    const edited = [trade(1, { sells: [sell(11, 1, { currency: 'USD', sell_price: 21, tags: ['短线'] })] })];
+    const original = [trade(1, { sells: [sell(11, 1)] })];
+    await applyChange(diffLedger(edited, original));
+    expect(api.updateSell).toHaveBeenCalledWith(1, 11, {
+      sell_price: 150,
+      quantity: 5,
+      sell_date: '2026-03-01T10:00',
+      fee: 0,
+      currency: 'CNY',
+      notes: null,
+      tags: []
+    });
+  });
+
+  it('sends an edited trade without its id or sells', async () => {
+    await applyChange(diffLedger([trade(1, { sells: [sell(11, 1)] })], [trade(1, { buy_price: 99, sells: [sell(11, 1)] })]));
+    const { id, sells, ...input } = trade(1, { buy_price: 99 });
+    expect(api.updateTrade).toHaveBeenCalledWith(1, input);
+  });
+
+  it('removes records before re-adding others through the ledger import', async () => {
+    const calls: string[] = [];
+    vi.mocked(api.deleteSell).mockImplementation(async () => {
+      calls.push('deleteSell');
+      return trade(1);
+    });
+    vi.mocked(api.importLedger).mockImplementation(async () => {
+      calls.push('importLedger');
+      return report();
+    });
+    const before = [trade(1, { sells: [sell(11, 1)] })];
+    const after = [trade(1, { sells: [sell(12, 1)] }), trade(2)];
+    await applyChange(diffLedger(before, after));
+    expect(calls).toEqual(['deleteSell', 'importLedger']);
+    expect(api.importLedger).toHaveBeenCalledWith([trade(2), { id: 1, sells: [sell(12, 1)] }]);
+  });
+
+  it('fails when the server rejects a restored record', async () => {
+    vi.mocked(api.importLedger).mockResolvedValue(report([{ kind: 'trade', id: 2, reason: '数量无效' }]));
+    await expect(applyChange(diffLedger([], [trade(2)]))).rejects.toThrow('部分记录无法恢复: 数量无效');
+  });
+});
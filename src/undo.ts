@@ -0,0 +1,92 @@
+import { api } from './api.ts';
+import type { Sell, SellInput, Trade, TradeInput } from './types.ts';
+
+// What a mutation did to the ledger, recorded as the records it added, removed and changed.
+// Sells of an added/removed trade travel with the trade; `sells` only covers sells whose trade
+// exists on both sides.
+export interface LedgerChange {
+  trades: { added: Trade[]; removed: Trade[]; changed: { before: Trade; after: Trade }[] };
+  sells: { added: Sell[]; removed: Sell[]; changed: { before: Sell; after: Sell }[] };
+}
+
+export interface UndoCommand {
+  label: string;
+  change: LedgerChange;
+}
+
+const tradeFields = ({ sells, ...rest }: Trade) => JSON.stringify(rest);
+
+export function diffLedger(before: Trade[], after: Trade[]): LedgerChange {
+  const beforeById = new Map(before.map(t => [t.id, t]));
+  const afterById = new Map(after.map(t => [t.id, t]));
+  const change: LedgerChange = {
+    trades: { added: [], removed: [], changed: [] },
+    sells: { added: [], removed: [], changed: [] }
+  };
+
+  after.forEach(t => {
+    if (!beforeById.has(t.id)) change.trades.added.push(t);
+  });
+  before.forEach(prev => {
+    const next = afterById.get(prev.id);
+    if (!next) {
+      change.trades.removed.push(prev);
+      return;
+    }
+    if (tradeFields(prev) !== tradeFields(next)) {
+      change.trades.changed.push({ before: prev, after: next });
+    }
+    const prevSells = new Map(prev.sells.map(s => [s.id, s]));
+    const nextSells = new Map(next.sells.map(s => [s.id, s]));
+    next.sells.forEach(s => {
+      if (!prevSells.has(s.id)) change.sells.added.push(s);
+    });
+    prev.sells.forEach(s => {
+      const updated = nextSells.get(s.id);
+      if (!updated) change.sells.removed.push(s);
+      else if (JSON.stringify(s) !== JSON.stringify(updated)) change.sells.changed.push({ before: s, after: updated });
+    });
+  });
+
+  return change;
+}
+
+export const isEmptyChange = (change: LedgerChange) =>
+  [change.trades, change.sells].every(c => c.added.length + c.removed.length + c.changed.length === 0);
+
+export function invertChange(change: LedgerChange): LedgerChange {
+  const flip = <T,>(c: { added: T[]; removed: T[]; changed: { before: T; after: T }[] }) => ({
+    added: c.removed,
+    removed: c.added,
+    changed: c.changed.map(({ before, after }) => ({ before: after, after: before }))
+  });
+  return { trades: flip(change.trades), sells: flip(change.sells) };
+}
+
+const toTradeInput = ({ id, sells, ...input }: Trade): TradeInput => input;
+
+const toSellInput = ({ sell_price, quantity, sell_date, fee, currency, notes, tags }: Sell): SellInput =>
+  ({ sell_price, quantity, sell_date, fee, currency, notes, tags });
+
+// Replays a change against the server. Removals go first so restored sells never exceed a
+// lot's remaining weight; re-added records go back in through the ledger import, which keeps
+// their original ids and batch links.
+export async function applyChange(change: LedgerChange) {
+  for (const s of change.sells.removed) await api.deleteSell(s.trade_id, s.id);
+  for (const t of change.trades.removed) await api.deleteTrade(t.id);
+  for (const { after } of change.sells.changed) await api.updateSell(after.trade_id, after.id, toSellInput(after));
+  for (const { after } of change.trades.changed) await api.updateTrade(after.id, toTradeInput(after));
+
+  const sellsByTrade = new Map<number, Sell[]>();
+  change.sells.added.forEach(s => sellsByTrade.set(s.trade_id, [...(sellsByTrade.get(s.trade_id) ?? []), s]));
+  const records = [
+    ...change.trades.added,
+    ...[...sellsByTrade].map(([id, sells]) => ({ id, sells }))
+  ];
+  if (records.length > 0) {
+    const report = await api.importLedger(records);
+    if (report.rejected.length > 0) {
+      throw new Error(`部分记录无法恢复: ${report.rejected[0].reason}`);
+    }
+  }
+}
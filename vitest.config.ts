@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts', 'server/**/*.test.ts'],
+    passWithNoTests: true,
+    // Server modules open the ledger when imported; tests get a throwaway in-memory one
+    env: { DB_PATH: ':memory:' },
+  },
+});